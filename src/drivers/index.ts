@@ -0,0 +1,44 @@
+/**
+ * Platform Drivers
+ * Public entry point for the driver API. Importing this module registers the
+ * built-in drivers; third-party drivers register themselves via registerDriver().
+ */
+
+import { registerDriver } from './registry.js';
+import { macosDriver } from './macos/index.js';
+import { windowsDriver } from './windows/index.js';
+import { linuxX11Driver } from './linux-x11/index.js';
+import { virtualDriver } from './virtual/index.js';
+
+export type {
+  PlatformDriver,
+  InputDriver,
+  WindowDriver,
+  AccessibilityDriver,
+  AppDriver,
+  ScreenDriver,
+} from './types.js';
+export { registerDriver, listDrivers, getDriver, setActiveDriver, getActiveDriver } from './registry.js';
+export { loadDriverModule } from './loader.js';
+export { macosDriver, windowsDriver, linuxX11Driver, virtualDriver };
+export {
+  VirtualDesktop,
+  createVirtualDriver,
+  loadVirtualScenario,
+  resetVirtualDesktop,
+  renderDesktop,
+  renderWindowImage,
+} from './virtual/index.js';
+export type {
+  VirtualScenario,
+  VirtualDisplaySpec,
+  VirtualWindowSpec,
+  VirtualElementSpec,
+  VirtualAction,
+  VirtualEvent,
+} from './virtual/index.js';
+
+registerDriver(macosDriver);
+registerDriver(windowsDriver);
+registerDriver(linuxX11Driver);
+registerDriver(virtualDriver);
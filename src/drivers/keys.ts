@@ -0,0 +1,85 @@
+/**
+ * Key name handling shared by the input drivers.
+ * Combinations like "ctrl+shift+s" are normalized to robotjs key names;
+ * drivers that need other names (e.g. X11 keysyms) translate from there.
+ */
+
+// Map user-friendly key names to robotjs key names
+const KEY_MAP: Record<string, string> = {
+  // Modifiers (used in combinations like "ctrl+c")
+  ctrl: 'control',
+  cmd: 'command',
+  win: 'command',
+  meta: 'command',
+  alt: 'alt',
+  shift: 'shift',
+
+  // Navigation
+  enter: 'enter',
+  return: 'enter',
+  tab: 'tab',
+  escape: 'escape',
+  esc: 'escape',
+  space: 'space',
+  backspace: 'backspace',
+  delete: 'delete',
+  del: 'delete',
+
+  // Arrow keys
+  up: 'up',
+  down: 'down',
+  left: 'left',
+  right: 'right',
+
+  // Page navigation
+  home: 'home',
+  end: 'end',
+  pageup: 'pageup',
+  pagedown: 'pagedown',
+
+  // Function keys
+  f1: 'f1', f2: 'f2', f3: 'f3', f4: 'f4',
+  f5: 'f5', f6: 'f6', f7: 'f7', f8: 'f8',
+  f9: 'f9', f10: 'f10', f11: 'f11', f12: 'f12',
+
+  // Special
+  printscreen: 'printscreen',
+  insert: 'insert',
+  capslock: 'capslock',
+  numlock: 'numlock',
+};
+
+// Modifier keys that robotjs treats as modifiers in keyTap
+const MODIFIER_KEYS = new Set(['control', 'command', 'alt', 'shift']);
+
+/**
+ * Resolve a user-friendly key name to robotjs key name.
+ */
+export function resolveKey(name: string): string {
+  const lower = name.toLowerCase().trim();
+  return KEY_MAP[lower] ?? lower;
+}
+
+/**
+ * Split a combination like "ctrl+shift+s" into modifiers and the main key.
+ * A combination of only modifiers (e.g. "shift") presses the last one as the main key.
+ */
+export function parseKeyCombo(key: string): { mainKey: string; modifiers: string[] } {
+  const parts = key.split('+').map((p) => resolveKey(p));
+  const modifiers: string[] = [];
+  let mainKey = '';
+
+  for (const part of parts) {
+    if (MODIFIER_KEYS.has(part)) {
+      modifiers.push(part);
+    } else {
+      mainKey = part;
+    }
+  }
+
+  if (!mainKey && modifiers.length > 0) {
+    mainKey = modifiers.pop()!;
+  }
+
+  return { mainKey, modifiers };
+}
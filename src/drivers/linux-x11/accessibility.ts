@@ -0,0 +1,332 @@
+/**
+ * Linux Accessibility Driver
+ * AT-SPI2 over D-Bus via python3 + PyGObject (gi.repository.Atspi).
+ */
+
+import type { AccessibilityDriver } from '../types.js';
+import type { RawUIElement, ElementLocator, ReadTreeLimits } from '../../types/index.js';
+import { execFileAsync } from '../shell.js';
+
+/**
+ * Python shared by the AT-SPI scripts: find_windows(title) returns the windows of the application
+ * whose name contains title, else the windows whose title contains it, else the active window;
+ * locate(locator) finds the element of an earlier read again; read_value(acc) reads its value.
+ */
+const ATSPI_PY = `
+import json, sys
+import gi
+gi.require_version('Atspi', '2.0')
+from gi.repository import Atspi
+
+def safe(fn, default=None):
+    try:
+        return fn()
+    except Exception:
+        return default
+
+def windows_of(app):
+    return [w for w in (safe(lambda i=i: app.get_child_at_index(i)) for i in range(safe(app.get_child_count, 0))) if w is not None]
+
+def is_active(win):
+    states = safe(win.get_state_set)
+    return states is not None and states.contains(Atspi.StateType.ACTIVE)
+
+def find_windows(title):
+    desktop = Atspi.get_desktop(0)
+    apps = [a for a in (safe(lambda i=i: desktop.get_child_at_index(i)) for i in range(desktop.get_child_count())) if a is not None]
+    if title:
+        # First try matching by application name, then by window title
+        for app in apps:
+            if title in (safe(app.get_name) or '').lower():
+                return windows_of(app)
+        for app in apps:
+            targets = [w for w in windows_of(app) if title in (safe(w.get_name) or '').lower()]
+            if targets:
+                return targets
+        return []
+    for app in apps:
+        targets = [w for w in windows_of(app) if is_active(w)]
+        if targets:
+            return targets
+    return []
+
+def locate(locator):
+    elems = find_windows((locator.get('windowTitle') or '').lower())
+    acc = None
+    for index in locator['path']:
+        if index >= len(elems):
+            return None
+        acc = elems[index]
+        elems = [safe(lambda i=i: acc.get_child_at_index(i)) for i in range(safe(acc.get_child_count, 0))]
+    if acc is None or safe(acc.get_role_name) != locator.get('role') or (safe(acc.get_name) or None) != locator.get('title'):
+        return None
+    return acc
+
+def read_value(acc):
+    value_iface = safe(acc.get_value_iface)
+    if value_iface is not None:
+        current = safe(value_iface.get_current_value)
+        if current is not None:
+            return ('%d' % current) if float(current).is_integer() else str(current)
+    states = safe(acc.get_state_set)
+    text_iface = safe(acc.get_text_iface)
+    if text_iface is not None and states is not None and states.contains(Atspi.StateType.EDITABLE):
+        return safe(lambda: text_iface.get_text(0, -1))
+    return None
+`;
+
+export class LinuxAccessibilityDriver implements AccessibilityDriver {
+  async readTree(windowTitle: string | undefined, maxDepth: number, limits: ReadTreeLimits = {}): Promise<RawUIElement[]> {
+    return this.readTreeATSPI(windowTitle, maxDepth, limits);
+  }
+
+  /**
+   * Run an AT-SPI action (Atspi.Action) on an element: the named one (e.g. "click", "press",
+   * "activate", "toggle") or the element's first action.
+   */
+  async performAction(element: ElementLocator, action?: string): Promise<string | undefined> {
+    // The locator and action are passed as argv, so no escaping is needed
+    const script = `${ATSPI_PY}
+locator = json.loads(sys.argv[1])
+requested = sys.argv[2].lower()
+
+def run():
+    acc = locate(locator)
+    if acc is None:
+        return {'error': 'Element not found: the window changed since it was read.'}
+
+    action_iface = safe(acc.get_action_iface)
+    count = safe(action_iface.get_n_actions, 0) if action_iface is not None else 0
+    names = [safe(lambda i=i: action_iface.get_action_name(i)) or '' for i in range(count)]
+    if not names:
+        return {'performed': None}
+    index = 0
+    if requested:
+        matching = [i for i, name in enumerate(names) if name.lower() == requested]
+        if not matching:
+            return {'error': 'Action "%s" is not available. The element exposes: %s.' % (sys.argv[2], ', '.join(names))}
+        index = matching[0]
+    action_iface.do_action(index)
+    return {'performed': names[index]}
+
+print(json.dumps(run()))
+`;
+
+    let result: { performed?: string | null; error?: string };
+    try {
+      const { stdout } = await execFileAsync('python3', ['-c', script, JSON.stringify(element), action ?? ''], {
+        maxBuffer: 1024 * 1024,
+        timeout: 60000,
+      });
+      result = JSON.parse(stdout.trim()) as typeof result;
+    } catch (error) {
+      throw this.translateError(error, 'perform accessibility action');
+    }
+    if (result.error) throw new Error(result.error);
+    return result.performed ?? undefined;
+  }
+
+  /**
+   * Write a value through Atspi.Value (numbers on sliders and spin buttons) or Atspi.EditableText,
+   * and read it back.
+   */
+  async setValue(element: ElementLocator, value: string): Promise<string | null> {
+    // The locator and value are passed as argv, so no escaping is needed
+    const script = `${ATSPI_PY}
+locator = json.loads(sys.argv[1])
+value = sys.argv[2]
+
+def run():
+    acc = locate(locator)
+    if acc is None:
+        return {'error': 'Element not found: the window changed since it was read.'}
+
+    value_iface = safe(acc.get_value_iface)
+    editable = safe(acc.get_editable_text_iface)
+    number = safe(lambda: float(value))
+    # Spin buttons have both interfaces: numbers go through Atspi.Value, which commits them
+    if value_iface is not None and number is not None:
+        if not value_iface.set_current_value(number):
+            return {'error': 'The element rejected the value.'}
+    elif editable is not None:
+        if not editable.set_text_contents(value):
+            return {'error': 'The element rejected the text (it may be read-only).'}
+    elif value_iface is not None:
+        return {'error': 'The element takes a number, got "%s".' % value}
+    else:
+        return {'error': 'The element has no settable value (neither Atspi.Value nor Atspi.EditableText).'}
+    return {'value': read_value(acc)}
+
+print(json.dumps(run()))
+`;
+
+    let result: { value?: string | null; error?: string };
+    try {
+      const { stdout } = await execFileAsync('python3', ['-c', script, JSON.stringify(element), value], {
+        maxBuffer: 1024 * 1024,
+        timeout: 60000,
+      });
+      result = JSON.parse(stdout.trim()) as typeof result;
+    } catch (error) {
+      throw this.translateError(error, 'set element value');
+    }
+    if (result.error) throw new Error(result.error);
+    return result.value ?? null;
+  }
+
+  private async readTreeATSPI(windowTitle: string | undefined, maxDepth: number, limits: ReadTreeLimits): Promise<RawUIElement[]> {
+    // Window title, depth and limits are passed as argv, so no escaping is needed
+    const script = `${ATSPI_PY}
+title = sys.argv[1].lower()
+max_depth = int(sys.argv[2])
+limits = json.loads(sys.argv[3])
+max_children = limits.get('maxChildren')
+skip_offscreen = bool(limits.get('skipOffscreen'))
+budget = [limits.get('maxElements') or float('inf')]
+
+CHECKABLE_ROLES = {'check box', 'radio button', 'toggle button', 'check menu item', 'radio menu item', 'switch'}
+MODIFIERS = [('<Control>', 'Ctrl+'), ('<Primary>', 'Ctrl+'), ('<Shift>', 'Shift+'), ('<Alt>', 'Alt+'), ('<Super>', 'Super+')]
+
+def read_shortcut(action_iface):
+    # Key bindings look like "mnemonic;menu path;accelerator": prefer the accelerator
+    binding = safe(lambda: action_iface.get_key_binding(0)) or ''
+    keys = [k for k in binding.split(';') if k]
+    if not keys:
+        return None
+    key = keys[-1]
+    for tag, label in MODIFIERS:
+        key = key.replace(tag, label)
+    return key
+
+def read_states(acc, role, states):
+    has = lambda state: states is not None and bool(states.contains(state))
+    checked = None
+    if role in CHECKABLE_ROLES:
+        checked = 'mixed' if has(Atspi.StateType.INDETERMINATE) else has(Atspi.StateType.CHECKED) or has(Atspi.StateType.PRESSED)
+    action_iface = safe(acc.get_action_iface)
+    actions = [safe(lambda i=i: action_iface.get_action_name(i)) or '' for i in range(safe(action_iface.get_n_actions, 0))] if action_iface else []
+    attributes = safe(acc.get_attributes) or {}
+    return {
+        'focused': has(Atspi.StateType.FOCUSED),
+        'selected': has(Atspi.StateType.SELECTED),
+        'checked': checked,
+        'expanded': has(Atspi.StateType.EXPANDED) if has(Atspi.StateType.EXPANDABLE) else None,
+        'offscreen': not has(Atspi.StateType.SHOWING) if states is not None else None,
+        'shortcut': read_shortcut(action_iface) if action_iface else None,
+        'automationId': safe(acc.get_accessible_id) or None,
+        'className': attributes.get('class') or attributes.get('toolkit-class') or None,
+        'helpText': safe(acc.get_help_text) or None,
+        'actions': [a for a in actions if a],
+    }
+
+def hidden(acc):
+    states = safe(acc.get_state_set)
+    return states is not None and not (states.contains(Atspi.StateType.SHOWING) and states.contains(Atspi.StateType.VISIBLE))
+
+def placeholder(acc):
+    # Role and name keep the identities of the siblings that are read
+    return {'role': safe(acc.get_role_name), 'title': safe(acc.get_name) or None, 'description': None, 'value': None,
+            'enabled': None, 'position': None, 'size': None, 'children': [], 'skipped': True}
+
+def read_element(acc, depth):
+    if acc is None or depth > max_depth:
+        return None
+    budget[0] -= 1
+    role = safe(acc.get_role_name)
+    states = safe(acc.get_state_set)
+    enabled = None
+    if states is not None:
+        enabled = bool(states.contains(Atspi.StateType.ENABLED) or states.contains(Atspi.StateType.SENSITIVE))
+    position = size = None
+    component = safe(acc.get_component_iface)
+    if component is not None:
+        ext = safe(lambda: component.get_extents(Atspi.CoordType.SCREEN))
+        if ext is not None and ext.width > 0 and ext.height > 0:
+            position = [ext.x, ext.y]
+            size = [ext.width, ext.height]
+    children = []
+    child_count = None
+    if depth < max_depth:
+        count = safe(acc.get_child_count, 0)
+        read = 0
+        for i in range(count):
+            if budget[0] <= 0:
+                break
+            child_acc = safe(lambda: acc.get_child_at_index(i))
+            if child_acc is not None and skip_offscreen and hidden(child_acc):
+                children.append(placeholder(child_acc))
+                continue
+            if max_children is not None and read >= max_children:
+                child_count = count
+                break
+            child = read_element(child_acc, depth + 1)
+            if child is not None:
+                # After a child that failed to read, keep the platform index for the locator path
+                if len(children) < i:
+                    child['index'] = i
+                children.append(child)
+                read += 1
+    element = {
+        'role': role,
+        'title': safe(acc.get_name) or None,
+        'description': safe(acc.get_description) or None,
+        'value': read_value(acc),
+        'enabled': enabled,
+        'position': position,
+        'size': size,
+        'children': children,
+        'childCount': child_count,
+    }
+    element.update(read_states(acc, role, states))
+    return element
+
+if limits.get('root'):
+    root = locate(limits['root'])
+    results = [read_element(root, 0)] if root is not None else {'error': 'Element not found: the window changed since it was read.'}
+else:
+    results = [e for e in (read_element(w, 0) for w in find_windows(title)) if e is not None]
+print(json.dumps(results))
+`;
+
+    let parsed: RawUIElement[] | { error: string };
+    try {
+      const { stdout } = await execFileAsync(
+        'python3',
+        ['-c', script, windowTitle ?? '', String(maxDepth), JSON.stringify(limits)],
+        { maxBuffer: 10 * 1024 * 1024, timeout: 60000 },
+      );
+
+      const trimmed = stdout.trim();
+      if (!trimmed || trimmed === '[]') return [];
+      parsed = JSON.parse(trimmed) as RawUIElement[] | { error: string };
+    } catch (error) {
+      throw this.translateError(error, 'read accessibility tree');
+    }
+    if (!Array.isArray(parsed)) throw new Error(parsed.error);
+    return parsed;
+  }
+
+  /**
+   * Error for a failed python3 run, with install hints for missing bindings or a missing AT-SPI bus.
+   */
+  private translateError(error: unknown, what: string): Error {
+    const msg = error instanceof Error ? error.message : String(error);
+    if (msg.includes('ENOENT')) {
+      return new Error('python3 not found. Install python3 with PyGObject (python3-gi, gir1.2-atspi-2.0) to read the UI on Linux.');
+    }
+    if (msg.includes("No module named 'gi'") || msg.includes('Namespace Atspi not available')) {
+      return new Error(
+        'AT-SPI Python bindings not installed. ' +
+        'Install python3-gi and gir1.2-atspi-2.0 (e.g. "apt install python3-gi gir1.2-atspi-2.0").'
+      );
+    }
+    if (msg.includes('org.a11y.Bus') || msg.includes('AT-SPI')) {
+      return new Error(
+        'AT-SPI accessibility bus not reachable. ' +
+        'Start it with at-spi-bus-launcher (e.g. "dbus-run-session -- at-spi-bus-launcher --launch-immediately") ' +
+        'and make sure apps run with accessibility enabled (QT_ACCESSIBILITY=1 for Qt).'
+      );
+    }
+    return new Error(`Failed to ${what}: ${msg}`);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Linux X11 Driver
+ * xdotool input, wmctrl/EWMH windows, AT-SPI accessibility, ImageMagick screenshots.
+ * Works headless under Xvfb.
+ */
+
+import type { PlatformDriver } from '../types.js';
+import { LinuxInputDriver } from './input.js';
+import { LinuxWindowDriver } from './windows.js';
+import { LinuxAccessibilityDriver } from './accessibility.js';
+import { LinuxScreenDriver } from './screen.js';
+
+export const linuxX11Driver: PlatformDriver = {
+  name: 'linux-x11',
+  description: 'Linux X11/Xvfb: xdotool input, wmctrl windows, AT-SPI accessibility',
+  isSupported: () => process.platform === 'linux',
+  input: new LinuxInputDriver(),
+  windows: new LinuxWindowDriver(),
+  accessibility: new LinuxAccessibilityDriver(),
+  screen: new LinuxScreenDriver(),
+};
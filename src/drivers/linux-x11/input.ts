@@ -0,0 +1,117 @@
+/**
+ * Linux X11 Input Driver
+ * xdotool (XTest) for mouse and keyboard, works headless under Xvfb.
+ */
+
+import type { InputDriver } from '../types.js';
+import type { ClickOptions, TypeOptions, KeyOptions, ScrollOptions, DragOptions } from '../../types/index.js';
+import { execFileAsync } from '../shell.js';
+import { parseKeyCombo } from '../keys.js';
+
+// Map robotjs key names to X11 keysym names understood by xdotool
+const X11_KEY_MAP: Record<string, string> = {
+  control: 'ctrl',
+  command: 'super',
+  alt: 'alt',
+  shift: 'shift',
+  enter: 'Return',
+  tab: 'Tab',
+  escape: 'Escape',
+  space: 'space',
+  backspace: 'BackSpace',
+  delete: 'Delete',
+  up: 'Up',
+  down: 'Down',
+  left: 'Left',
+  right: 'Right',
+  home: 'Home',
+  end: 'End',
+  pageup: 'Prior',
+  pagedown: 'Next',
+  printscreen: 'Print',
+  insert: 'Insert',
+  capslock: 'Caps_Lock',
+  numlock: 'Num_Lock',
+  f1: 'F1', f2: 'F2', f3: 'F3', f4: 'F4',
+  f5: 'F5', f6: 'F6', f7: 'F7', f8: 'F8',
+  f9: 'F9', f10: 'F10', f11: 'F11', f12: 'F12',
+};
+
+// X11 pointer button numbers (4-7 are the scroll wheel axes)
+const X11_BUTTONS: Record<string, string> = { left: '1', middle: '2', right: '3' };
+const X11_SCROLL_BUTTONS: Record<string, string> = { up: '4', down: '5', left: '6', right: '7' };
+
+/**
+ * Run xdotool on the X11 display named by $DISPLAY.
+ * xdotool drives the XTest extension, so it works against Xvfb as well.
+ */
+async function xdotool(args: string[]): Promise<void> {
+  try {
+    await execFileAsync('xdotool', args, { timeout: 10000 });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    if (msg.includes('ENOENT')) {
+      throw new Error('xdotool not found. Install it (e.g. "apt install xdotool") to control the mouse and keyboard on Linux.');
+    }
+    if (msg.includes("Can't open display") || msg.includes('cannot open display')) {
+      throw new Error(`Cannot open X11 display "${process.env.DISPLAY ?? ''}". Set DISPLAY to a running X server (e.g. Xvfb :99).`);
+    }
+    throw new Error(`xdotool failed: ${msg}`);
+  }
+}
+
+export class LinuxInputDriver implements InputDriver {
+  async click(options: ClickOptions): Promise<void> {
+    const { coordinate, button = 'left', doubleClick = false } = options;
+    await this.clickLinux(coordinate[0], coordinate[1], button, doubleClick);
+  }
+
+  async type(options: TypeOptions): Promise<void> {
+    const { text, slowly = false } = options;
+    await xdotool(['type', '--delay', slowly ? '50' : '12', '--', text]);
+  }
+
+  async key(options: KeyOptions): Promise<void> {
+    const { key, repeat = 1 } = options;
+    const { mainKey, modifiers } = parseKeyCombo(key);
+    const combo = [...modifiers, mainKey].map((k) => X11_KEY_MAP[k] ?? k).join('+');
+    await xdotool(['key', '--repeat', String(repeat), '--delay', '50', combo]);
+  }
+
+  async drag(options: DragOptions): Promise<void> {
+    const [sx, sy] = options.startCoordinate;
+    const [ex, ey] = options.endCoordinate;
+    await this.dragLinux(sx, sy, ex, ey);
+  }
+
+  async scroll(options: ScrollOptions): Promise<void> {
+    const { coordinate, direction, amount = 3 } = options;
+    await xdotool([
+      'mousemove', '--sync', String(coordinate[0]), String(coordinate[1]),
+      'click', '--repeat', String(amount), X11_SCROLL_BUTTONS[direction],
+    ]);
+  }
+
+  private async clickLinux(x: number, y: number, button: string, doubleClick: boolean): Promise<void> {
+    const args = ['mousemove', '--sync', String(x), String(y), 'click'];
+    if (doubleClick) args.push('--repeat', '2', '--delay', '50');
+    args.push(X11_BUTTONS[button] ?? '1');
+    await xdotool(args);
+  }
+
+  private async dragLinux(sx: number, sy: number, ex: number, ey: number): Promise<void> {
+    // Intermediate motion events so toolkits register a drag rather than a click
+    const midX = Math.round((sx + ex) / 2);
+    const midY = Math.round((sy + ey) / 2);
+    await xdotool([
+      'mousemove', '--sync', String(sx), String(sy),
+      'mousedown', '1',
+      'sleep', '0.05',
+      'mousemove', '--sync', String(midX), String(midY),
+      'sleep', '0.05',
+      'mousemove', '--sync', String(ex), String(ey),
+      'sleep', '0.05',
+      'mouseup', '1',
+    ]);
+  }
+}
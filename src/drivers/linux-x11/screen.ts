@@ -0,0 +1,102 @@
+/**
+ * Linux X11 Screen Driver
+ * screenshot-desktop shells out to ImageMagick `import` on $DISPLAY;
+ * displays are addressed by xrandr output, which we expose as numeric indices.
+ * Single windows are captured with `import -window <id>`.
+ */
+
+import screenshot from 'screenshot-desktop';
+import { execFileAsync } from '../shell.js';
+import type { ScreenDriver } from '../types.js';
+import type { DisplayInfo, Region, WindowInfo } from '../../types/index.js';
+
+export class LinuxScreenDriver implements ScreenDriver {
+  /**
+   * Capture the X11 display. With a screen index, crop to that xrandr output.
+   */
+  async capture(screenId?: number): Promise<Buffer> {
+    const captureOpts: { format: 'png'; screen?: string } = { format: 'png' };
+    if (screenId != null) {
+      const displays = await screenshot.listDisplays();
+      const display = displays[screenId];
+      if (!display) {
+        throw new Error(`Display ${screenId} not found. Use desktop_displays to list available monitors.`);
+      }
+      captureOpts.screen = String(display.id);
+    }
+
+    try {
+      return await screenshot(captureOpts) as Buffer;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes('ENOENT')) {
+        throw new Error('ImageMagick "import" or "xrandr" not found. Install them (e.g. "apt install imagemagick x11-xserver-utils") to take screenshots on Linux.');
+      }
+      throw new Error(`Failed to capture screen: ${msg}`);
+    }
+  }
+
+  /**
+   * Capture one X11 window by id (as listed by wmctrl).
+   */
+  async captureWindow(window: WindowInfo): Promise<Buffer> {
+    try {
+      const { stdout } = await execFileAsync(
+        'import',
+        ['-window', `0x${window.id.toString(16)}`, 'png:-'],
+        { encoding: 'buffer', maxBuffer: 256 * 1024 * 1024, timeout: 10000 },
+      );
+      return stdout;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes('ENOENT')) {
+        throw new Error('ImageMagick "import" not found. Install it (e.g. "apt install imagemagick") to take screenshots on Linux.');
+      }
+      throw new Error(`Failed to capture window "${window.title}": ${msg}`);
+    }
+  }
+
+  /**
+   * xrandr outputs with their root-window geometry. X11 has no per-output scaling, so the
+   * scale factor is 1; the work area is the EWMH _NET_WORKAREA clipped to each output.
+   */
+  async listDisplays(): Promise<DisplayInfo[]> {
+    const displays = await screenshot.listDisplays();
+    const workArea = await this.readWorkArea();
+    // xrandr output names are strings; index them so `screen` stays numeric
+    return displays.map((d, index) => {
+      const bounds: Region = [d.offsetX ?? 0, d.offsetY ?? 0, d.width ?? 0, d.height ?? 0];
+      return {
+        id: index,
+        name: d.name,
+        bounds,
+        workArea: workArea ? clipRegion(workArea, bounds) : bounds,
+        scaleFactor: 1,
+        primary: d.primary ?? index === 0,
+      };
+    });
+  }
+
+  /**
+   * Work area of the current desktop from the window manager, if it publishes one.
+   */
+  private async readWorkArea(): Promise<Region | null> {
+    try {
+      const { stdout } = await execFileAsync('xprop', ['-root', '-notype', '_NET_WORKAREA'], { timeout: 5000 });
+      const values = (stdout.split('=')[1] ?? '').split(',').map((v) => parseInt(v.trim(), 10));
+      if (values.length < 4 || values.slice(0, 4).some((v) => Number.isNaN(v))) return null;
+      return [values[0], values[1], values[2], values[3]];
+    } catch {
+      return null;
+    }
+  }
+}
+
+/** Overlap of two regions; falls back to `bounds` when they do not overlap */
+function clipRegion(area: Region, bounds: Region): Region {
+  const left = Math.max(area[0], bounds[0]);
+  const top = Math.max(area[1], bounds[1]);
+  const right = Math.min(area[0] + area[2], bounds[0] + bounds[2]);
+  const bottom = Math.min(area[1] + area[3], bounds[1] + bounds[3]);
+  return right > left && bottom > top ? [left, top, right - left, bottom - top] : bounds;
+}
@@ -0,0 +1,119 @@
+/**
+ * Linux X11 Window Driver
+ * wmctrl + xprop (EWMH), works under Xvfb with an EWMH window manager.
+ */
+
+import type { WindowDriver } from '../types.js';
+import type { WindowInfo } from '../../types/index.js';
+import { execFileAsync } from '../shell.js';
+
+export class LinuxWindowDriver implements WindowDriver {
+  async listWindows(): Promise<WindowInfo[]> {
+    return this.listWindowsLinux();
+  }
+
+  async focusWindow(titleOrId: string | number): Promise<void> {
+    return this.focusWindowLinux(titleOrId);
+  }
+
+  private async listWindowsLinux(): Promise<WindowInfo[]> {
+    let listing: string;
+    try {
+      // -l list, -p include PID, -G include geometry
+      const { stdout } = await execFileAsync('wmctrl', ['-l', '-p', '-G'], { timeout: 10000 });
+      listing = stdout;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes('ENOENT')) {
+        throw new Error('wmctrl not found. Install it (e.g. "apt install wmctrl") to list windows on Linux.');
+      }
+      if (msg.includes('Cannot get client list')) {
+        throw new Error('No EWMH-compliant window manager running. Start one (e.g. fluxbox, openbox) on the X display.');
+      }
+      throw new Error(`Failed to list windows: ${msg}`);
+    }
+
+    // Format: <id> <desktop> <pid> <x> <y> <width> <height> <host> <title...>
+    const entries = listing
+      .split('\n')
+      .map((line) => line.trim().match(/^(0x[0-9a-f]+)\s+(-?\d+)\s+(\d+)\s+(-?\d+)\s+(-?\d+)\s+(\d+)\s+(\d+)\s+\S+\s?(.*)$/i))
+      .filter((m): m is RegExpMatchArray => m !== null)
+      .map((m) => ({
+        id: parseInt(m[1], 16),
+        desktop: parseInt(m[2], 10),
+        pid: parseInt(m[3], 10),
+        x: parseInt(m[4], 10),
+        y: parseInt(m[5], 10),
+        width: parseInt(m[6], 10),
+        height: parseInt(m[7], 10),
+        title: m[8],
+      }))
+      // Skip sticky panels/docks (desktop -1) and untitled windows
+      .filter((e) => e.desktop >= 0 && e.title.length > 0);
+
+    const [activeId, processNames] = await Promise.all([
+      this.activeWindowLinux(),
+      this.processNamesLinux(entries.map((e) => e.pid)),
+    ]);
+
+    return entries.map((e) => ({
+      id: e.id,
+      title: e.title,
+      processName: processNames.get(e.pid) ?? '',
+      x: e.x,
+      y: e.y,
+      width: e.width,
+      height: e.height,
+      isFocused: e.id === activeId,
+    }));
+  }
+
+  private async focusWindowLinux(titleOrId: string | number): Promise<void> {
+    const windows = await this.listWindowsLinux();
+    const needle = String(titleOrId).toLowerCase();
+    const target = typeof titleOrId === 'number'
+      ? windows.find((w) => w.id === titleOrId)
+      : windows.find((w) => w.title.toLowerCase().includes(needle));
+
+    if (!target) {
+      throw new Error(`Window with title containing "${titleOrId}" not found`);
+    }
+
+    try {
+      // -i: interpret the argument as a window ID, -a: switch desktop, raise and focus
+      await execFileAsync('wmctrl', ['-i', '-a', `0x${target.id.toString(16)}`], { timeout: 10000 });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to focus window: ${msg}`);
+    }
+  }
+
+  /** Read _NET_ACTIVE_WINDOW from the root window. Returns 0 when unknown. */
+  private async activeWindowLinux(): Promise<number> {
+    try {
+      const { stdout } = await execFileAsync('xprop', ['-root', '_NET_ACTIVE_WINDOW'], { timeout: 5000 });
+      const match = stdout.match(/window id # (0x[0-9a-f]+)/i);
+      return match ? parseInt(match[1], 16) : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /** Resolve PIDs to process names with a single ps call. */
+  private async processNamesLinux(pids: number[]): Promise<Map<number, string>> {
+    const names = new Map<number, string>();
+    const unique = [...new Set(pids.filter((pid) => pid > 0))];
+    if (unique.length === 0) return names;
+
+    try {
+      const { stdout } = await execFileAsync('ps', ['-o', 'pid=,comm=', '-p', unique.join(',')], { timeout: 5000 });
+      for (const line of stdout.split('\n')) {
+        const match = line.trim().match(/^(\d+)\s+(.+)$/);
+        if (match) names.set(parseInt(match[1], 10), match[2]);
+      }
+    } catch {
+      // Process names are informational only
+    }
+    return names;
+  }
+}
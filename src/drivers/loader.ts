@@ -0,0 +1,40 @@
+/**
+ * Third-party driver loading.
+ * A driver module either default-exports a PlatformDriver or calls registerDriver() itself.
+ */
+
+import { isAbsolute, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { registerDriver } from './registry.js';
+import type { PlatformDriver } from './types.js';
+
+function isPlatformDriver(value: unknown): value is PlatformDriver {
+  return (
+    typeof value === 'object' && value !== null &&
+    typeof (value as PlatformDriver).name === 'string' &&
+    typeof (value as PlatformDriver).isSupported === 'function'
+  );
+}
+
+/**
+ * Import a driver module by file path or package name and register its default export.
+ * Returns the registered driver, or undefined if the module registered itself.
+ */
+export async function loadDriverModule(specifier: string): Promise<PlatformDriver | undefined> {
+  const isPath = specifier.startsWith('.') || isAbsolute(specifier);
+  const url = isPath ? pathToFileURL(resolve(specifier)).href : specifier;
+
+  let mod: { default?: unknown };
+  try {
+    mod = await import(url) as { default?: unknown };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load driver module "${specifier}": ${msg}`);
+  }
+
+  if (isPlatformDriver(mod.default)) {
+    registerDriver(mod.default);
+    return mod.default;
+  }
+  return undefined;
+}
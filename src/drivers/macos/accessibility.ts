@@ -0,0 +1,373 @@
+/**
+ * macOS Accessibility Driver
+ * JXA (JavaScript for Automation) via osascript.
+ */
+
+import type { AccessibilityDriver } from '../types.js';
+import type { RawUIElement, ElementLocator, ReadTreeLimits } from '../../types/index.js';
+import { execFileAsync } from '../shell.js';
+
+/** Actions tried, in order, when no action is named; otherwise the first one the element exposes */
+const DEFAULT_ACTIONS = ['AXPress', 'AXConfirm', 'AXPick', 'AXShowMenu'];
+
+/**
+ * JXA that sets targetProcess to the process matching windowTitle (process name, then window title),
+ * or the frontmost one.
+ */
+function findProcessScript(windowTitle: string | undefined): string {
+  const safeTitle = windowTitle?.replace(/'/g, "\\'") ?? '';
+  return `
+      const systemEvents = Application('System Events');
+      var targetProcess = null;
+      ${windowTitle ? `
+      // First try matching by process name
+      var byName = systemEvents.processes.whose({ name: { _contains: '${safeTitle}' } });
+      if (byName.length > 0) {
+        targetProcess = byName[0];
+      } else {
+        // Fallback: search window titles across all processes
+        var allProcs = systemEvents.processes();
+        for (var pi = 0; pi < allProcs.length; pi++) {
+          try {
+            var wins = allProcs[pi].windows();
+            for (var wi = 0; wi < wins.length; wi++) {
+              try {
+                var wTitle = wins[wi].name();
+                if (wTitle && wTitle.indexOf('${safeTitle}') !== -1) {
+                  targetProcess = allProcs[pi];
+                  break;
+                }
+              } catch(e) {}
+            }
+            if (targetProcess) break;
+          } catch(e) {}
+        }
+      }
+      ` : `
+      targetProcess = systemEvents.processes.whose({ frontmost: true })[0];
+      `}
+  `;
+}
+
+/**
+ * JXA defining locate(), which finds the element of an earlier read again:
+ * returns { elem } or { error }.
+ */
+function locateScript(element: ElementLocator): string {
+  return `
+      ${findProcessScript(element.windowTitle)}
+
+      var locator = ${JSON.stringify(element)};
+
+      function locate() {
+        if (!targetProcess) return { error: 'Element not found: its window is gone.' };
+        var elems;
+        try { elems = targetProcess.windows(); } catch(e) { elems = targetProcess.uiElements(); }
+        var elem = null;
+        for (var i = 0; i < locator.path.length; i++) {
+          elem = elems[locator.path[i]];
+          if (!elem) return { error: 'Element not found: the window changed since it was read.' };
+          if (i < locator.path.length - 1) {
+            try { elems = elem.uiElements(); } catch(e) { elems = []; }
+          }
+        }
+        var role = null, title = null;
+        try { role = elem.role(); } catch(e) {}
+        try { title = elem.title(); } catch(e) {}
+        if (role !== locator.role || (title || null) !== (locator.title || null)) {
+          return { error: 'Element not found: the window changed since it was read.' };
+        }
+        return { elem: elem };
+      }
+  `;
+}
+
+export class MacAccessibilityDriver implements AccessibilityDriver {
+  async readTree(windowTitle: string | undefined, maxDepth: number, limits: ReadTreeLimits = {}): Promise<RawUIElement[]> {
+    return this.readTreeJXA(windowTitle, maxDepth, limits);
+  }
+
+  async performAction(element: ElementLocator, action?: string): Promise<string | undefined> {
+    const script = `
+      ObjC.import('stdlib');
+      ${locateScript(element)}
+
+      var requested = ${JSON.stringify(action ?? null)};
+      var preferred = ${JSON.stringify(DEFAULT_ACTIONS)};
+
+      function run() {
+        var found = locate();
+        if (found.error) return found;
+        var elem = found.elem;
+
+        var names = [];
+        try { names = elem.actions().map(function(a) { return a.name(); }); } catch(e) {}
+        if (names.length === 0) return { performed: null };
+        var name = null;
+        if (requested) {
+          for (var n = 0; n < names.length; n++) {
+            if (names[n].toLowerCase() === requested.toLowerCase()
+              || names[n].toLowerCase() === ('AX' + requested).toLowerCase()) name = names[n];
+          }
+          if (!name) {
+            return { error: 'Action "' + requested + '" is not available. The element exposes: ' + names.join(', ') + '.' };
+          }
+        } else {
+          for (var p = 0; p < preferred.length && !name; p++) {
+            if (names.indexOf(preferred[p]) !== -1) name = preferred[p];
+          }
+          if (!name) name = names[0];
+        }
+        elem.actions.byName(name).perform();
+        return { performed: name };
+      }
+
+      JSON.stringify(run());
+    `;
+
+    const result = JSON.parse(await this.runJXA(script, 'perform accessibility action')) as {
+      performed?: string | null;
+      error?: string;
+    };
+    if (result.error) throw new Error(result.error);
+    return result.performed ?? undefined;
+  }
+
+  /**
+   * Set AXValue (a number for sliders and steppers) and read it back.
+   */
+  async setValue(element: ElementLocator, value: string): Promise<string | null> {
+    const script = `
+      ObjC.import('stdlib');
+      ${locateScript(element)}
+
+      var value = ${JSON.stringify(value)};
+
+      function run() {
+        var found = locate();
+        if (found.error) return found;
+        var elem = found.elem;
+
+        var numeric = ['AXSlider', 'AXIncrementor', 'AXValueIndicator'].indexOf(locator.role) !== -1;
+        if (numeric && isNaN(Number(value))) {
+          return { error: 'A ' + locator.role + ' takes a number, got "' + value + '".' };
+        }
+        try {
+          elem.value = numeric ? Number(value) : value;
+        } catch(e) {
+          return { error: 'The element has no settable value (AXValue): ' + e.message };
+        }
+        var current = null;
+        try { current = elem.value(); if (current !== null && typeof current !== 'string') current = String(current); } catch(e) {}
+        return { value: current };
+      }
+
+      JSON.stringify(run());
+    `;
+
+    const result = JSON.parse(await this.runJXA(script, 'set element value')) as {
+      value?: string | null;
+      error?: string;
+    };
+    if (result.error) throw new Error(result.error);
+    return result.value ?? null;
+  }
+
+  /**
+   * AX has no offscreen state: an element counts as offscreen when it lies outside its window
+   * and the scroll areas it is in.
+   */
+  private async readTreeJXA(windowTitle: string | undefined, maxDepth: number, limits: ReadTreeLimits): Promise<RawUIElement[]> {
+    const script = `
+      ObjC.import('stdlib');
+      ${limits.root ? locateScript(limits.root) : findProcessScript(windowTitle)}
+
+      var limits = ${JSON.stringify(limits)};
+      var budget = limits.maxElements || Infinity;
+
+      function frameOf(elem) {
+        try {
+          var p = elem.position(), s = elem.size();
+          return [p[0], p[1], s[0], s[1]];
+        } catch(e) { return null; }
+      }
+
+      // Unknown and zero-size frames count as visible: empty containers may hold visible children
+      function visibleIn(frame, clip) {
+        if (!frame || !clip || frame[2] === 0 || frame[3] === 0) return true;
+        return frame[0] < clip[0] + clip[2] && clip[0] < frame[0] + frame[2]
+          && frame[1] < clip[1] + clip[3] && clip[1] < frame[1] + frame[3];
+      }
+
+      function clipTo(clip, frame) {
+        if (!clip || !frame) return clip || frame;
+        var x = Math.max(clip[0], frame[0]), y = Math.max(clip[1], frame[1]);
+        return [x, y, Math.max(0, Math.min(clip[0] + clip[2], frame[0] + frame[2]) - x),
+          Math.max(0, Math.min(clip[1] + clip[3], frame[1] + frame[3]) - y)];
+      }
+
+      // Role and title keep the identities of the siblings that are read
+      function placeholder(elem) {
+        var role = null, title = null;
+        try { role = elem.role(); } catch(e) {}
+        try { title = elem.title(); } catch(e) {}
+        return { role: role, title: title, description: null, value: null, enabled: null,
+          position: null, size: null, children: [], skipped: true };
+      }
+
+      function readElement(elem, depth, maxDepth, clip) {
+        if (depth > maxDepth) return null;
+        budget--;
+        try {
+          var role = null, title = null, desc = null, val = null, enabled = null;
+          var pos = null, sz = null;
+
+          try { role = elem.role(); } catch(e) {}
+          try { title = elem.title(); } catch(e) {}
+          try { desc = elem.description(); } catch(e) {}
+          try { val = elem.value(); if (typeof val === 'object') val = String(val); } catch(e) {}
+          try { enabled = elem.enabled(); } catch(e) {}
+          try { pos = elem.position(); } catch(e) {}
+          try { sz = elem.size(); } catch(e) {}
+
+          var focused = null, selected = null, checked = null, expanded = null;
+          var shortcut = null, identifier = null, subrole = null, help = null, actionNames = null;
+          try { focused = elem.focused(); } catch(e) {}
+          try { selected = elem.selected(); } catch(e) {}
+          try { subrole = elem.subrole(); } catch(e) {}
+          try { help = elem.help(); } catch(e) {}
+          try { identifier = elem.attributes.byName('AXIdentifier').value(); } catch(e) {}
+          try { actionNames = elem.actions().map(function(a) { return a.name(); }); } catch(e) {}
+          if (role === 'AXCheckBox' || role === 'AXRadioButton' || role === 'AXSwitch') {
+            checked = val == 1 ? true : val == 2 ? 'mixed' : val == 0 ? false : null;
+          }
+          if (role === 'AXRow' || role === 'AXDisclosureTriangle' || role === 'AXComboBox' || role === 'AXPopUpButton') {
+            try { expanded = elem.attributes.byName('AXExpanded').value(); } catch(e) {}
+          }
+          if (role === 'AXMenuItem') {
+            try {
+              var cmdChar = elem.attributes.byName('AXMenuItemCmdChar').value();
+              if (cmdChar) {
+                // AXMenuItemCmdModifiers: 1 Shift, 2 Option, 4 Control, 8 no Command
+                var mods = 0;
+                try { mods = elem.attributes.byName('AXMenuItemCmdModifiers').value() || 0; } catch(e) {}
+                var keys = [];
+                if (mods & 4) keys.push('Ctrl');
+                if (mods & 2) keys.push('Option');
+                if (mods & 1) keys.push('Shift');
+                if (!(mods & 8)) keys.push('Cmd');
+                keys.push(cmdChar);
+                shortcut = keys.join('+');
+              }
+            } catch(e) {}
+          }
+
+          var children = [];
+          var childCount = null;
+          if (depth < maxDepth) {
+            try {
+              var uiElems = elem.uiElements();
+              var childClip = role === 'AXScrollArea' && pos && sz ? clipTo(clip, [pos[0], pos[1], sz[0], sz[1]]) : clip;
+              var read = 0;
+              for (var i = 0; i < uiElems.length && budget > 0; i++) {
+                if (limits.skipOffscreen && !visibleIn(frameOf(uiElems[i]), childClip)) {
+                  children.push(placeholder(uiElems[i]));
+                  continue;
+                }
+                if (limits.maxChildren != null && read >= limits.maxChildren) {
+                  childCount = uiElems.length;
+                  break;
+                }
+                var child = readElement(uiElems[i], depth + 1, maxDepth, childClip);
+                if (child) {
+                  // After a child that failed to read, keep the platform index for the locator path
+                  if (children.length < i) child.index = i;
+                  children.push(child);
+                  read++;
+                }
+              }
+            } catch(e) {}
+          }
+
+          return {
+            role: role,
+            title: title,
+            description: desc,
+            value: val,
+            enabled: enabled,
+            position: pos ? [pos[0], pos[1]] : null,
+            size: sz ? [sz[0], sz[1]] : null,
+            focused: focused,
+            selected: selected,
+            checked: checked,
+            expanded: typeof expanded === 'boolean' ? expanded : null,
+            shortcut: shortcut,
+            automationId: identifier || null,
+            className: subrole || null,
+            helpText: help || null,
+            actions: actionNames,
+            children: children,
+            childCount: childCount
+          };
+        } catch(e) {
+          return null;
+        }
+      }
+
+      var results = [];
+      if (limits.root) {
+        var found = locate();
+        results = found.error ? found : [readElement(found.elem, 0, ${maxDepth}, frameOf(found.elem))];
+      } else if (targetProcess) {
+        try {
+          var windows = targetProcess.windows();
+          for (var w = 0; w < windows.length && budget > 0; w++) {
+            var winElem = readElement(windows[w], 0, ${maxDepth}, frameOf(windows[w]));
+            if (winElem && results.length < w) winElem.index = w;
+            if (winElem) results.push(winElem);
+          }
+        } catch(e) {
+          // If window access fails, try UI elements directly
+          try {
+            var uiElems = targetProcess.uiElements();
+            for (var u = 0; u < uiElems.length && budget > 0; u++) {
+              var elem = readElement(uiElems[u], 0, ${maxDepth}, frameOf(uiElems[u]));
+              if (elem && results.length < u) elem.index = u;
+              if (elem) results.push(elem);
+            }
+          } catch(e2) {}
+        }
+      }
+
+      JSON.stringify(results);
+    `;
+
+    const output = await this.runJXA(script, 'read accessibility tree');
+    if (!output) return [];
+    const parsed = JSON.parse(output) as RawUIElement[] | { error: string };
+    if (!Array.isArray(parsed)) throw new Error(parsed.error);
+    return parsed;
+  }
+
+  /**
+   * Run a JXA script and return its trimmed output, translating missing permissions.
+   */
+  private async runJXA(script: string, what: string): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('osascript', ['-l', 'JavaScript', '-e', script], {
+        maxBuffer: 10 * 1024 * 1024,
+        timeout: 60000,
+      });
+      return stdout.trim();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes('not allowed assistive access') || msg.includes('accessibility')) {
+        throw new Error(
+          'Accessibility permissions not granted. ' +
+          'Go to System Settings > Privacy & Security > Accessibility and enable your terminal app.'
+        );
+      }
+      throw new Error(`Failed to ${what}: ${msg}`);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * macOS App Driver
+ * AppleScript/osascript.
+ */
+
+import type { AppDriver } from '../types.js';
+import { execFileAsync, escapeAppleScript } from '../shell.js';
+
+export class MacAppDriver implements AppDriver {
+  async launch(appName: string): Promise<string> {
+    return this.launchMacOS(appName);
+  }
+
+  async quit(appName: string): Promise<string> {
+    return this.quitMacOS(appName);
+  }
+
+  async isRunning(appName: string): Promise<boolean> {
+    return this.isRunningMacOS(appName);
+  }
+
+  private async launchMacOS(appName: string): Promise<string> {
+    const script = `tell application "${escapeAppleScript(appName)}" to activate`;
+    try {
+      await execFileAsync('osascript', ['-e', script], { timeout: 10000 });
+      return `Launched: ${appName}`;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to launch "${appName}": ${msg}`);
+    }
+  }
+
+  private async quitMacOS(appName: string): Promise<string> {
+    const script = `tell application "${escapeAppleScript(appName)}" to quit`;
+    try {
+      await execFileAsync('osascript', ['-e', script], { timeout: 10000 });
+      return `Quit: ${appName}`;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to quit "${appName}": ${msg}`);
+    }
+  }
+
+  private async isRunningMacOS(appName: string): Promise<boolean> {
+    const script = `tell application "System Events" to (name of processes) contains "${escapeAppleScript(appName)}"`;
+    try {
+      const { stdout } = await execFileAsync('osascript', ['-e', script], { timeout: 5000 });
+      return stdout.trim() === 'true';
+    } catch {
+      return false;
+    }
+  }
+}
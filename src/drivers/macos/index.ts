@@ -0,0 +1,22 @@
+/**
+ * macOS Driver
+ * Swift/CGEvent + robotjs input, CoreGraphics/AppleScript windows, JXA accessibility.
+ */
+
+import type { PlatformDriver } from '../types.js';
+import { MacInputDriver } from './input.js';
+import { MacWindowDriver } from './windows.js';
+import { MacAccessibilityDriver } from './accessibility.js';
+import { MacAppDriver } from './apps.js';
+import { MacScreenDriver } from './screen.js';
+
+export const macosDriver: PlatformDriver = {
+  name: 'macos',
+  description: 'macOS: Swift/CGEvent + robotjs input, CoreGraphics windows, JXA accessibility',
+  isSupported: () => process.platform === 'darwin',
+  input: new MacInputDriver(),
+  windows: new MacWindowDriver(),
+  accessibility: new MacAccessibilityDriver(),
+  apps: new MacAppDriver(),
+  screen: new MacScreenDriver(),
+};
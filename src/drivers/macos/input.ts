@@ -0,0 +1,128 @@
+/**
+ * macOS Input Driver
+ * Mouse: Swift/CGEvent (robotjs moveMouse broken on Sequoia)
+ * Keyboard: robotjs
+ */
+
+import type { InputDriver } from '../types.js';
+import type { ClickOptions, TypeOptions, KeyOptions, ScrollOptions, DragOptions } from '../../types/index.js';
+import { execFileAsync } from '../shell.js';
+import { robotType, robotKey } from '../robot.js';
+
+/**
+ * Execute a Swift snippet for mouse operations.
+ * Uses CGEvent API which works reliably on macOS Sequoia.
+ */
+async function swiftMouse(code: string): Promise<string> {
+  const script = `import CoreGraphics\n${code}`;
+  const { stdout } = await execFileAsync('swift', ['-e', script], { timeout: 10000 });
+  return stdout.trim();
+}
+
+export class MacInputDriver implements InputDriver {
+  async click(options: ClickOptions): Promise<void> {
+    const { coordinate, button = 'left', doubleClick = false } = options;
+    await this.clickMacOS(coordinate[0], coordinate[1], button, doubleClick);
+  }
+
+  async type(options: TypeOptions): Promise<void> {
+    await robotType(options);
+  }
+
+  async key(options: KeyOptions): Promise<void> {
+    await robotKey(options);
+  }
+
+  async drag(options: DragOptions): Promise<void> {
+    const [sx, sy] = options.startCoordinate;
+    const [ex, ey] = options.endCoordinate;
+    await this.dragMacOS(sx, sy, ex, ey);
+  }
+
+  async scroll(options: ScrollOptions): Promise<void> {
+    const { coordinate, direction, amount = 3 } = options;
+    await this.scrollMacOS(coordinate[0], coordinate[1], direction, amount);
+  }
+
+  private async clickMacOS(x: number, y: number, button: string, doubleClick: boolean): Promise<void> {
+    const mouseButton = button === 'right' ? '.right' : button === 'middle' ? '.center' : '.left';
+    const downType = button === 'right' ? '.rightMouseDown' : '.leftMouseDown';
+    const upType = button === 'right' ? '.rightMouseUp' : '.leftMouseUp';
+    const point = `CGPoint(x: ${x}, y: ${y})`;
+
+    let code = `
+CGWarpMouseCursorPosition(${point})
+// Small delay for cursor to settle
+usleep(10000)
+let down = CGEvent(mouseEventSource: nil, mouseType: ${downType}, mouseCursorPosition: ${point}, mouseButton: ${mouseButton})
+let up = CGEvent(mouseEventSource: nil, mouseType: ${upType}, mouseCursorPosition: ${point}, mouseButton: ${mouseButton})
+down?.post(tap: .cghidEventTap)
+up?.post(tap: .cghidEventTap)
+`;
+
+    if (doubleClick) {
+      code += `
+usleep(50000)
+let down2 = CGEvent(mouseEventSource: nil, mouseType: ${downType}, mouseCursorPosition: ${point}, mouseButton: ${mouseButton})
+let up2 = CGEvent(mouseEventSource: nil, mouseType: ${upType}, mouseCursorPosition: ${point}, mouseButton: ${mouseButton})
+down2?.setIntegerValueField(.mouseEventClickState, value: 2)
+up2?.setIntegerValueField(.mouseEventClickState, value: 2)
+down2?.post(tap: .cghidEventTap)
+up2?.post(tap: .cghidEventTap)
+`;
+    }
+
+    await swiftMouse(code);
+  }
+
+  private async dragMacOS(sx: number, sy: number, ex: number, ey: number): Promise<void> {
+    const code = `
+let startPoint = CGPoint(x: ${sx}, y: ${sy})
+let endPoint = CGPoint(x: ${ex}, y: ${ey})
+
+CGWarpMouseCursorPosition(startPoint)
+usleep(50000)
+
+let mouseDown = CGEvent(mouseEventSource: nil, mouseType: .leftMouseDown, mouseCursorPosition: startPoint, mouseButton: .left)
+mouseDown?.post(tap: .cghidEventTap)
+usleep(50000)
+
+// Smooth drag in steps
+let steps = 20
+for i in 1...steps {
+    let progress = Double(i) / Double(steps)
+    let currentX = Double(startPoint.x) + (Double(endPoint.x) - Double(startPoint.x)) * progress
+    let currentY = Double(startPoint.y) + (Double(endPoint.y) - Double(startPoint.y)) * progress
+    let currentPoint = CGPoint(x: currentX, y: currentY)
+    let drag = CGEvent(mouseEventSource: nil, mouseType: .leftMouseDragged, mouseCursorPosition: currentPoint, mouseButton: .left)
+    drag?.post(tap: .cghidEventTap)
+    usleep(10000)
+}
+
+let mouseUp = CGEvent(mouseEventSource: nil, mouseType: .leftMouseUp, mouseCursorPosition: endPoint, mouseButton: .left)
+mouseUp?.post(tap: .cghidEventTap)
+`;
+
+    await swiftMouse(code);
+  }
+
+  private async scrollMacOS(x: number, y: number, direction: string, amount: number): Promise<void> {
+    let dy = 0;
+    let dx = 0;
+    switch (direction) {
+      case 'up': dy = amount; break;
+      case 'down': dy = -amount; break;
+      case 'left': dx = -amount; break;
+      case 'right': dx = amount; break;
+    }
+
+    const code = `
+CGWarpMouseCursorPosition(CGPoint(x: ${x}, y: ${y}))
+usleep(10000)
+let scrollEvent = CGEvent(scrollWheelEvent2Source: nil, units: .line, wheelCount: 2, wheel1: Int32(${dy}), wheel2: Int32(${dx}), wheel3: 0)
+scrollEvent?.post(tap: CGEventTapLocation.cghidEventTap)
+`;
+
+    await swiftMouse(code);
+  }
+}
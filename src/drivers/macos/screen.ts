@@ -0,0 +1,97 @@
+/**
+ * macOS Screen Driver
+ * screenshot-desktop (screencapture); single windows via `screencapture -l <CGWindowID>`.
+ */
+
+import { readFile, unlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import screenshot from 'screenshot-desktop';
+import { execFileAsync } from '../shell.js';
+import type { ScreenDriver } from '../types.js';
+import type { DisplayInfo, WindowInfo } from '../../types/index.js';
+
+/** How long listed display geometry is reused */
+const DISPLAY_CACHE_MS = 5000;
+
+export class MacScreenDriver implements ScreenDriver {
+  /** Backing scale factor per display id */
+  private _pixelRatios = new Map<number, number>();
+  /** Display geometry is read with a Swift script; reuse it briefly (polling tools list displays per frame) */
+  private _displays: { list: DisplayInfo[]; at: number } | null = null;
+
+  async capture(screenId?: number): Promise<Buffer> {
+    const captureOpts: { format: 'png'; screen?: number } = { format: 'png' };
+    if (screenId != null) captureOpts.screen = screenId;
+    return await screenshot(captureOpts) as Buffer;
+  }
+
+  /**
+   * Capture one window by its CGWindowID, without shadow, even when covered by other windows.
+   */
+  async captureWindow(window: WindowInfo): Promise<Buffer> {
+    const file = join(tmpdir(), `codriver-window-${process.pid}-${Date.now()}.png`);
+    try {
+      await execFileAsync('screencapture', ['-x', '-o', '-l', String(window.id), file], { timeout: 10000 });
+      return await readFile(file);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to capture window "${window.title}": ${msg}`);
+    } finally {
+      await unlink(file).catch(() => {});
+    }
+  }
+
+  /**
+   * Retina factor of a display (NSScreen backing scale factor). Cached per display.
+   */
+  async pixelRatio(screenId?: number): Promise<number> {
+    const key = screenId ?? 0;
+    const cached = this._pixelRatios.get(key);
+    if (cached != null) return cached;
+
+    const displays = await this.listDisplays();
+    const display = displays.find((d) => d.id === key) ?? displays.find((d) => d.primary);
+    const ratio = display?.scaleFactor ?? 1;
+    this._pixelRatios.set(key, ratio);
+    return ratio;
+  }
+
+  /**
+   * Displays from NSScreen (primary first, matching screencapture's order), with frames
+   * converted from Cocoa's bottom-left origin to global top-left coordinates in points.
+   */
+  async listDisplays(): Promise<DisplayInfo[]> {
+    if (this._displays && Date.now() - this._displays.at < DISPLAY_CACHE_MS) {
+      return this._displays.list;
+    }
+    const swiftCode = `
+import AppKit
+import Foundation
+let screens = NSScreen.screens
+let primaryHeight = screens.first?.frame.height ?? 0
+func flip(_ r: NSRect) -> [Double] {
+    return [Double(r.origin.x), Double(primaryHeight - r.origin.y - r.height), Double(r.width), Double(r.height)]
+}
+var out: [[String: Any]] = []
+for (i, s) in screens.enumerated() {
+    var name = "Display \\(i)"
+    if #available(macOS 10.15, *) { name = s.localizedName }
+    out.append(["id": i, "name": name, "bounds": flip(s.frame), "workArea": flip(s.visibleFrame),
+                "scaleFactor": Double(s.backingScaleFactor), "primary": i == 0])
+}
+let data = try! JSONSerialization.data(withJSONObject: out)
+print(String(data: data, encoding: .utf8)!)
+`;
+    try {
+      const { stdout } = await execFileAsync('swift', ['-e', swiftCode], { timeout: 10000 });
+      const list = JSON.parse(stdout.trim()) as DisplayInfo[];
+      this._displays = { list, at: Date.now() };
+      return list;
+    } catch {
+      // Without Swift, fall back to names only (system_profiler)
+      const displays = await screenshot.listDisplays();
+      return displays.map((d) => ({ id: d.id as number, name: d.name, primary: d.primary }));
+    }
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * macOS Window Driver
+ * CoreGraphics (listing) + AppleScript (focus).
+ */
+
+import type { WindowDriver } from '../types.js';
+import type { WindowInfo } from '../../types/index.js';
+import { execFileAsync, escapeAppleScript } from '../shell.js';
+
+export class MacWindowDriver implements WindowDriver {
+  async listWindows(): Promise<WindowInfo[]> {
+    return this.listWindowsMacOS();
+  }
+
+  async focusWindow(titleOrId: string | number): Promise<void> {
+    return this.focusWindowMacOS(String(titleOrId));
+  }
+
+  private async listWindowsMacOS(): Promise<WindowInfo[]> {
+    const swiftCode = `
+import CoreGraphics
+import Foundation
+import AppKit
+
+let options: CGWindowListOption = [.optionOnScreenOnly]
+guard let windowList = CGWindowListCopyWindowInfo(options, kCGNullWindowID) as? [[String: Any]] else {
+    print("[]")
+    exit(0)
+}
+
+struct WindowEntry: Codable {
+    let processName: String
+    let title: String
+    let x: Int
+    let y: Int
+    let width: Int
+    let height: Int
+    let isFocused: Bool
+    let windowId: Int
+}
+
+var results: [WindowEntry] = []
+let frontApp = NSWorkspace.shared.frontmostApplication?.localizedName ?? ""
+
+for w in windowList {
+    let owner = w["kCGWindowOwnerName"] as? String ?? ""
+    let name = w["kCGWindowName"] as? String ?? ""
+    let layer = w["kCGWindowLayer"] as? Int ?? -1
+    let windowId = w["kCGWindowNumber"] as? Int ?? 0
+    let bounds = w["kCGWindowBounds"] as? [String: Any] ?? [:]
+
+    // Only include normal windows (layer 0) with a title
+    if layer == 0 && !name.isEmpty {
+        let entry = WindowEntry(
+            processName: owner,
+            title: name,
+            x: bounds["X"] as? Int ?? 0,
+            y: bounds["Y"] as? Int ?? 0,
+            width: Int(bounds["Width"] as? Double ?? 0),
+            height: Int(bounds["Height"] as? Double ?? 0),
+            isFocused: owner == frontApp,
+            windowId: windowId
+        )
+        results.append(entry)
+    }
+}
+
+let encoder = JSONEncoder()
+if let data = try? encoder.encode(results), let json = String(data: data, encoding: .utf8) {
+    print(json)
+}
+`;
+
+    try {
+      const { stdout } = await execFileAsync('swift', ['-e', swiftCode], {
+        timeout: 30000,
+      });
+
+      const trimmed = stdout.trim();
+      if (!trimmed || trimmed === '[]') return [];
+
+      const entries = JSON.parse(trimmed) as Array<{
+        processName: string;
+        title: string;
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+        isFocused: boolean;
+        windowId: number;
+      }>;
+
+      return entries.map((entry, index) => ({
+        id: entry.windowId || index,
+        processName: entry.processName,
+        title: entry.title,
+        x: entry.x,
+        y: entry.y,
+        width: entry.width,
+        height: entry.height,
+        isFocused: entry.isFocused,
+      }));
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes('not permitted') || msg.includes('permission denied')) {
+        throw new Error(
+          'Screen Recording permission not granted. ' +
+          'Go to System Settings > Privacy & Security > Screen Recording and enable your terminal app.'
+        );
+      }
+      throw new Error(`Failed to list windows: ${msg}`);
+    }
+  }
+
+  private async focusWindowMacOS(title: string): Promise<void> {
+    const escapedTitle = escapeAppleScript(title);
+
+    const script = `
+      tell application "System Events"
+        set allProcesses to every process whose visible is true
+        repeat with proc in allProcesses
+          try
+            set allWindows to every window of proc
+            repeat with win in allWindows
+              try
+                if name of win contains "${escapedTitle}" then
+                  set frontmost of proc to true
+                  perform action "AXRaise" of win
+                  return "focused"
+                end if
+              end try
+            end repeat
+          end try
+        end repeat
+      end tell
+      return "not found"
+    `;
+
+    try {
+      const { stdout } = await execFileAsync('osascript', ['-e', script]);
+      if (stdout.trim() === 'not found') {
+        throw new Error(`Window with title containing "${title}" not found`);
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes('not allowed') || msg.includes('Berechtigung') || msg.includes('-25211')) {
+        await this.focusByProcessName(title);
+      } else if (msg.includes('not found')) {
+        throw error;
+      } else {
+        throw new Error(`Failed to focus window: ${msg}`);
+      }
+    }
+  }
+
+  private async focusByProcessName(title: string): Promise<void> {
+    const swiftCode = `
+import AppKit
+let apps = NSWorkspace.shared.runningApplications.filter { $0.activationPolicy == .regular }
+let searchTerm = "${escapeAppleScript(title)}".lowercased()
+for app in apps {
+    let name = app.localizedName?.lowercased() ?? ""
+    if name.contains(searchTerm) {
+        app.activate()
+        print("focused")
+        exit(0)
+    }
+}
+print("not found")
+`;
+
+    const { stdout } = await execFileAsync('swift', ['-e', swiftCode], { timeout: 10000 });
+    if (stdout.trim() === 'not found') {
+      throw new Error(`No app matching "${title}" found. Accessibility permission may be needed for window-level focus.`);
+    }
+  }
+}
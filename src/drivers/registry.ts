@@ -0,0 +1,64 @@
+/**
+ * Driver Registry
+ * Holds all known platform drivers and resolves the active one.
+ * Without an explicit selection the first supported driver wins, re-evaluated on
+ * every lookup so the choice always reflects the current environment.
+ */
+
+import type { PlatformDriver } from './types.js';
+
+const drivers = new Map<string, PlatformDriver>();
+let selectedName: string | undefined;
+
+/**
+ * Register a driver. Re-registering a name replaces the previous driver.
+ */
+export function registerDriver(driver: PlatformDriver): void {
+  if (!driver.name) {
+    throw new Error('Driver must have a name.');
+  }
+  drivers.set(driver.name, driver);
+}
+
+/**
+ * List all registered drivers in registration order.
+ */
+export function listDrivers(): PlatformDriver[] {
+  return [...drivers.values()];
+}
+
+/**
+ * Look up a registered driver by name.
+ */
+export function getDriver(name: string): PlatformDriver | undefined {
+  return drivers.get(name);
+}
+
+/**
+ * Select the driver used by all modules. Pass undefined to return to auto-detection.
+ */
+export function setActiveDriver(name: string | undefined): void {
+  if (name != null && !drivers.has(name)) {
+    const known = [...drivers.keys()].join(', ');
+    throw new Error(`Unknown driver "${name}". Available drivers: ${known || 'none'}.`);
+  }
+  selectedName = name;
+}
+
+/**
+ * Resolve the active driver: the explicitly selected one, else the first supported one.
+ */
+export function getActiveDriver(): PlatformDriver {
+  if (selectedName) {
+    return drivers.get(selectedName)!;
+  }
+
+  for (const driver of drivers.values()) {
+    if (driver.isSupported()) return driver;
+  }
+
+  throw new Error(
+    `Platform ${process.platform} is not implemented by any registered driver. ` +
+    'Select one explicitly with --driver.'
+  );
+}
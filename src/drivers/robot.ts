@@ -0,0 +1,89 @@
+/**
+ * robotjs-based input shared by the macOS and Windows drivers.
+ * robotjs is loaded lazily so drivers that never touch it (Linux, virtual)
+ * do not require its native binding to be loadable.
+ */
+
+import type { ClickOptions, TypeOptions, KeyOptions, ScrollOptions, DragOptions } from '../types/index.js';
+import { parseKeyCombo } from './keys.js';
+import { sleep } from './shell.js';
+
+type Robot = typeof import('@jitsi/robotjs');
+
+let robotPromise: Promise<Robot> | undefined;
+
+function loadRobot(): Promise<Robot> {
+  robotPromise ??= import('@jitsi/robotjs').then((mod) => (mod as { default?: Robot }).default ?? mod);
+  return robotPromise;
+}
+
+export async function robotClick(options: ClickOptions): Promise<void> {
+  const robot = await loadRobot();
+  const { coordinate, button = 'left', doubleClick = false } = options;
+  robot.moveMouse(coordinate[0], coordinate[1]);
+  if (doubleClick) {
+    robot.mouseClick(button, true);
+  } else {
+    robot.mouseClick(button);
+  }
+}
+
+/**
+ * Type text at the current cursor position
+ */
+export async function robotType(options: TypeOptions): Promise<void> {
+  const robot = await loadRobot();
+  const { text, slowly = false } = options;
+
+  if (slowly) {
+    for (const char of text) {
+      robot.typeString(char);
+      await sleep(50);
+    }
+  } else {
+    robot.typeString(text);
+  }
+}
+
+/**
+ * Press a key or key combination (e.g. "ctrl+c", "enter", "alt+tab")
+ */
+export async function robotKey(options: KeyOptions): Promise<void> {
+  const robot = await loadRobot();
+  const { key, repeat = 1 } = options;
+  const { mainKey, modifiers } = parseKeyCombo(key);
+
+  for (let i = 0; i < repeat; i++) {
+    if (modifiers.length > 0) {
+      robot.keyTap(mainKey, modifiers);
+    } else {
+      robot.keyTap(mainKey);
+    }
+
+    if (repeat > 1 && i < repeat - 1) {
+      await sleep(50);
+    }
+  }
+}
+
+export async function robotScroll(options: ScrollOptions): Promise<void> {
+  const robot = await loadRobot();
+  const { coordinate, direction, amount = 3 } = options;
+  robot.moveMouse(coordinate[0], coordinate[1]);
+  switch (direction) {
+    case 'up': robot.scrollMouse(0, amount); break;
+    case 'down': robot.scrollMouse(0, -amount); break;
+    case 'left': robot.scrollMouse(-amount, 0); break;
+    case 'right': robot.scrollMouse(amount, 0); break;
+  }
+}
+
+export async function robotDrag(options: DragOptions): Promise<void> {
+  const robot = await loadRobot();
+  const [sx, sy] = options.startCoordinate;
+  const [ex, ey] = options.endCoordinate;
+  robot.moveMouse(sx, sy);
+  robot.mouseToggle('down');
+  robot.dragMouse(ex, ey);
+  robot.mouseToggle('up');
+}
@@ -0,0 +1,25 @@
+/**
+ * Shell helpers shared by the built-in drivers.
+ */
+
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+export const execFileAsync = promisify(execFile);
+
+/** PowerShell flags for safe, non-interactive execution */
+export const PS_FLAGS = ['-NoProfile', '-NonInteractive', '-ExecutionPolicy', 'Bypass', '-Command'];
+
+/** Escape a string for use inside PowerShell single-quoted strings */
+export function escapePowerShell(str: string): string {
+  return str.replace(/'/g, "''");
+}
+
+/** Escape a string for use inside AppleScript/Swift double-quoted strings */
+export function escapeAppleScript(str: string): string {
+  return str.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,92 @@
+/**
+ * Platform Driver Interfaces
+ * A driver bundles the platform-specific backends behind the core modules
+ * (InputController, WindowManager, AccessibilityReader, AppLauncher, ScreenCapture).
+ * Every backend is optional: modules report a clear error when the active driver lacks one.
+ */
+
+import type {
+  ClickOptions,
+  TypeOptions,
+  KeyOptions,
+  ScrollOptions,
+  DragOptions,
+  WindowInfo,
+  DisplayInfo,
+  RawUIElement,
+  ElementLocator,
+  ReadTreeLimits,
+} from '../types/index.js';
+
+/** Mouse and keyboard injection */
+export interface InputDriver {
+  click(options: ClickOptions): Promise<void>;
+  type(options: TypeOptions): Promise<void>;
+  key(options: KeyOptions): Promise<void>;
+  scroll(options: ScrollOptions): Promise<void>;
+  drag(options: DragOptions): Promise<void>;
+}
+
+/** Window enumeration and focus */
+export interface WindowDriver {
+  listWindows(): Promise<WindowInfo[]>;
+  focusWindow(titleOrId: string | number): Promise<void>;
+}
+
+/** Accessibility tree reading, native element actions and value writes */
+export interface AccessibilityDriver {
+  /**
+   * Read the raw tree of the window/app matching windowTitle, or the frontmost one.
+   * Children left out by limits.maxChildren or limits.skipOffscreen are counted in childCount.
+   * With limits.root, returns that element's subtree alone and throws when it is not found.
+   */
+  readTree(windowTitle: string | undefined, maxDepth: number, limits?: ReadTreeLimits): Promise<RawUIElement[]>;
+  /**
+   * Invoke an accessibility action on an element (optional; otherwise callers click its center).
+   * Without an action name the element's default action runs. Returns the action performed,
+   * or undefined when the element exposes no action. Throws when the element is not found
+   * or does not expose the requested action.
+   */
+  performAction?(element: ElementLocator, action?: string): Promise<string | undefined>;
+  /**
+   * Write an element's value through the platform value API (optional; text fields, sliders, spinners)
+   * and return the value read back afterwards, or null when it cannot be read.
+   * Throws when the element is not found or has no settable value.
+   */
+  setValue?(element: ElementLocator, value: string): Promise<string | null>;
+}
+
+/** Application lifecycle */
+export interface AppDriver {
+  launch(appName: string): Promise<string>;
+  quit(appName: string): Promise<string>;
+  isRunning(appName: string): Promise<boolean>;
+}
+
+/** Raw screen capture (post-processing with sharp happens in ScreenCapture) */
+export interface ScreenDriver {
+  /** Capture a display (or the main display) as a PNG buffer */
+  capture(screen?: number): Promise<Buffer>;
+  /** Global position of the top-left pixel of a capture without a display (optional; default (0,0)) */
+  captureOrigin?(): Promise<[number, number]>;
+  /** Native capture of a single window as a PNG buffer (optional; otherwise the display capture is cropped) */
+  captureWindow?(window: WindowInfo): Promise<Buffer>;
+  /** Captured pixels per screen coordinate unit on a display (HiDPI/Retina: 2). Default: 1 */
+  pixelRatio?(screen?: number): Promise<number>;
+  listDisplays(): Promise<DisplayInfo[]>;
+}
+
+/** A complete platform driver, registered by name */
+export interface PlatformDriver {
+  /** Unique name used with --driver (e.g. "macos", "windows", "linux-x11") */
+  name: string;
+  /** One-line description shown by --list-drivers */
+  description: string;
+  /** Whether the driver can run in the current environment (used for auto-detection) */
+  isSupported(): boolean;
+  input?: InputDriver;
+  windows?: WindowDriver;
+  accessibility?: AccessibilityDriver;
+  apps?: AppDriver;
+  screen?: ScreenDriver;
+}
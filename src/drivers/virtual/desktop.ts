@@ -0,0 +1,622 @@
+/**
+ * Virtual Desktop Model
+ * A scriptable, in-memory desktop: windows in z-order, an accessibility tree per
+ * window and an input event log. Input events mutate the model, so agent flows can
+ * be asserted deterministically without a real display.
+ */
+
+import type {
+  Region,
+  MouseButton,
+  ScrollDirection,
+  WindowInfo,
+  RawUIElement,
+  DisplayInfo,
+  ElementLocator,
+  ReadTreeLimits,
+} from '../../types/index.js';
+import { parseKeyCombo } from '../keys.js';
+
+/** Height of the title bar drawn at the top of every virtual window */
+export const TITLE_BAR_HEIGHT = 24;
+
+/** Declarative reaction to an input event (JSON-friendly for scenario files) */
+export type VirtualAction =
+  | { type: 'setValue'; target: string; value: string }
+  | { type: 'setEnabled'; target: string; enabled: boolean }
+  | { type: 'openWindow'; window: VirtualWindowSpec }
+  | { type: 'closeWindow'; title?: string };
+
+/** Element in a virtual window. Bounds are relative to the window's top-left corner. */
+export interface VirtualElementSpec {
+  /** Stable identifier used by actions and assertions */
+  id?: string;
+  /** Friendly role: window, button, textfield, checkbox, text, group, list, ... */
+  role: string;
+  name?: string;
+  description?: string;
+  value?: string;
+  enabled?: boolean;
+  bounds: Region;
+  /** Accessibility actions the element exposes (AT-SPI names). Default: by role, see DEFAULT_ACTIONS */
+  actions?: string[];
+  /** Value range of a slider or spinner; values written through accessibility are clamped to it */
+  range?: [number, number];
+  selected?: boolean;
+  /** Expandable elements (tree items, combo boxes) only */
+  expanded?: boolean;
+  shortcut?: string;
+  className?: string;
+  helpText?: string;
+  /** Actions run when the element is clicked */
+  onClick?: VirtualAction[];
+  /** Actions run when Enter is pressed while the element has focus */
+  onSubmit?: VirtualAction[];
+  children?: VirtualElementSpec[];
+}
+
+/** Window in the virtual desktop. Bounds are in screen coordinates. */
+export interface VirtualWindowSpec {
+  id?: number;
+  title: string;
+  processName?: string;
+  bounds: Region;
+  elements?: VirtualElementSpec[];
+}
+
+/** Monitor in the virtual desktop. Bounds are in screen coordinates. */
+export interface VirtualDisplaySpec {
+  name?: string;
+  bounds: Region;
+  /** Default: bounds */
+  workArea?: Region;
+  /** Default: the first display */
+  primary?: boolean;
+}
+
+/** Initial state of a virtual desktop */
+export interface VirtualScenario {
+  /** Screen size in screen coordinates (points), spanning all displays. Default: 1280x800 */
+  width?: number;
+  height?: number;
+  /** Framebuffer pixels per point, to simulate HiDPI/Retina displays. Default: 1 */
+  pixelRatio?: number;
+  /** Monitors laid out within the screen. Default: one display covering it */
+  displays?: VirtualDisplaySpec[];
+  windows?: VirtualWindowSpec[];
+  /** Window templates opened by desktop_launch, keyed by app name */
+  apps?: Record<string, VirtualWindowSpec>;
+}
+
+/** Recorded input event */
+export type VirtualEvent =
+  | { type: 'click'; x: number; y: number; button: MouseButton; doubleClick: boolean; target?: string }
+  | { type: 'type'; text: string; target?: string }
+  | { type: 'key'; key: string; repeat: number; target?: string }
+  | { type: 'action'; action: string; target?: string }
+  | { type: 'setValue'; value: string; target?: string }
+  | { type: 'scroll'; x: number; y: number; direction: ScrollDirection; amount: number }
+  | { type: 'drag'; from: [number, number]; to: [number, number] }
+  | { type: 'focus'; windowId: number }
+  | { type: 'launch'; appName: string }
+  | { type: 'quit'; appName: string };
+
+/** Live element state (spec plus mutable fields) */
+export interface VirtualElement extends VirtualElementSpec {
+  children: VirtualElement[];
+}
+
+/** Live window state */
+export interface VirtualWindow {
+  id: number;
+  title: string;
+  processName: string;
+  bounds: Region;
+  elements: VirtualElement[];
+}
+
+/** Roles that accept typed text */
+const EDITABLE_ROLES = new Set(['textfield', 'textarea', 'search', 'password', 'combobox']);
+/** Roles whose value "1"/"0" is a checked state */
+const CHECKABLE_ROLES = new Set(['checkbox', 'radio', 'togglebutton']);
+/** Roles with a numeric value */
+const RANGE_ROLES = new Set(['slider', 'spinner']);
+
+/**
+ * Friendly roles are emitted as AT-SPI role names so the AccessibilityReader's
+ * role mapping and interactive filter apply unchanged.
+ */
+const RAW_ROLES: Record<string, string> = {
+  window: 'frame',
+  dialog: 'dialog',
+  button: 'push button',
+  togglebutton: 'toggle button',
+  checkbox: 'check box',
+  radio: 'radio button',
+  textfield: 'text',
+  textarea: 'text',
+  password: 'password text',
+  text: 'label',
+  image: 'image',
+  group: 'panel',
+  toolbar: 'tool bar',
+  menubar: 'menu bar',
+  menu: 'menu',
+  menuitem: 'menu item',
+  combobox: 'combo box',
+  list: 'list',
+  listitem: 'list item',
+  table: 'table',
+  row: 'table row',
+  cell: 'table cell',
+  link: 'link',
+  tab: 'page tab',
+  tabgroup: 'page tab list',
+  slider: 'slider',
+  spinner: 'spin button',
+  statusbar: 'status bar',
+  heading: 'heading',
+};
+
+/**
+ * Accessibility actions exposed per friendly role when a spec does not list them:
+ * "click" does what a left click does, "activate" what Enter does.
+ */
+const DEFAULT_ACTIONS: Record<string, string[]> = {
+  button: ['click'],
+  togglebutton: ['click'],
+  checkbox: ['click'],
+  radio: ['click'],
+  link: ['click'],
+  menuitem: ['click'],
+  tab: ['click'],
+  listitem: ['click'],
+  textfield: ['activate'],
+  password: ['activate'],
+};
+
+function toElement(spec: VirtualElementSpec): VirtualElement {
+  return { ...spec, children: (spec.children ?? []).map(toElement) };
+}
+
+function contains([x, y, w, h]: Region, px: number, py: number): boolean {
+  return px >= x && px < x + w && py >= y && py < y + h;
+}
+
+export class VirtualDesktop {
+  readonly width: number;
+  readonly height: number;
+  readonly pixelRatio: number;
+  readonly displays: DisplayInfo[];
+  /** Windows in z-order, last is topmost and focused */
+  windows: VirtualWindow[] = [];
+  /** Every input event in order, for assertions */
+  readonly events: VirtualEvent[] = [];
+  /** Pointer position after the last mouse event */
+  pointer: [number, number] = [0, 0];
+  /** Element that receives typed text */
+  focusedElement: VirtualElement | undefined;
+
+  private readonly apps: Record<string, VirtualWindowSpec>;
+  private nextWindowId = 1;
+
+  constructor(scenario: VirtualScenario = {}) {
+    this.width = scenario.width ?? 1280;
+    this.height = scenario.height ?? 800;
+    this.pixelRatio = scenario.pixelRatio ?? 1;
+    const displays = scenario.displays ?? [{ name: 'Virtual Display', bounds: [0, 0, this.width, this.height] }];
+    const primary = Math.max(displays.findIndex((d) => d.primary), 0);
+    this.displays = displays.map((d, index) => ({
+      id: index,
+      name: d.name ?? `Virtual Display ${index + 1}`,
+      bounds: d.bounds,
+      workArea: d.workArea ?? d.bounds,
+      scaleFactor: this.pixelRatio,
+      primary: index === primary,
+    }));
+    this.apps = scenario.apps ?? {};
+    for (const spec of scenario.windows ?? []) {
+      this.openWindow(spec);
+    }
+  }
+
+  // --- Model queries ---
+
+  get focusedWindow(): VirtualWindow | undefined {
+    return this.windows[this.windows.length - 1];
+  }
+
+  /** Find a window by title or process name (case-insensitive substring). */
+  findWindow(titleOrProcess: string): VirtualWindow | undefined {
+    const needle = titleOrProcess.toLowerCase();
+    return [...this.windows].reverse().find(
+      (w) => w.title.toLowerCase().includes(needle) || w.processName.toLowerCase().includes(needle)
+    );
+  }
+
+  /** Find an element by id or exact name across all windows. */
+  findElement(idOrName: string): VirtualElement | undefined {
+    for (const win of [...this.windows].reverse()) {
+      const found = this.searchElements(win.elements, (el) => el.id === idOrName || el.name === idOrName);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  /** Screen-space bounds of an element. */
+  elementScreenBounds(element: VirtualElement): Region {
+    const win = this.windowOf(element);
+    const [wx, wy] = win?.bounds ?? [0, 0];
+    const [x, y, w, h] = element.bounds;
+    return [wx + x, wy + y, w, h];
+  }
+
+  /** Topmost element (deepest in the tree) under a screen coordinate. */
+  elementAt(x: number, y: number): { window: VirtualWindow; element?: VirtualElement } | undefined {
+    for (const win of [...this.windows].reverse()) {
+      if (!contains(win.bounds, x, y)) continue;
+      const rx = x - win.bounds[0];
+      const ry = y - win.bounds[1];
+      let hit: VirtualElement | undefined;
+      const descend = (els: VirtualElement[]) => {
+        for (const el of els) {
+          if (contains(el.bounds, rx, ry)) {
+            hit = el;
+            descend(el.children);
+          }
+        }
+      };
+      descend(win.elements);
+      return { window: win, element: hit };
+    }
+    return undefined;
+  }
+
+  // --- Window management ---
+
+  openWindow(spec: VirtualWindowSpec): VirtualWindow {
+    const win: VirtualWindow = {
+      id: spec.id ?? this.nextWindowId,
+      title: spec.title,
+      processName: spec.processName ?? spec.title,
+      bounds: [...spec.bounds] as Region,
+      elements: (spec.elements ?? []).map(toElement),
+    };
+    this.nextWindowId = Math.max(this.nextWindowId, win.id) + 1;
+    this.windows.push(win);
+    this.focusedElement = undefined;
+    return win;
+  }
+
+  closeWindow(win: VirtualWindow): void {
+    this.windows = this.windows.filter((w) => w !== win);
+    if (this.focusedElement && !this.windowOf(this.focusedElement)) {
+      this.focusedElement = undefined;
+    }
+  }
+
+  raiseWindow(win: VirtualWindow): void {
+    if (this.focusedWindow === win) return;
+    this.windows = [...this.windows.filter((w) => w !== win), win];
+    this.focusedElement = undefined;
+    this.events.push({ type: 'focus', windowId: win.id });
+  }
+
+  listWindows(): WindowInfo[] {
+    const focused = this.focusedWindow;
+    return this.windows.map((w) => ({
+      id: w.id,
+      title: w.title,
+      processName: w.processName,
+      x: w.bounds[0],
+      y: w.bounds[1],
+      width: w.bounds[2],
+      height: w.bounds[3],
+      isFocused: w === focused,
+    }));
+  }
+
+  // --- Apps ---
+
+  launch(appName: string): VirtualWindow {
+    this.events.push({ type: 'launch', appName });
+    const existing = this.findWindow(appName);
+    if (existing) {
+      this.raiseWindow(existing);
+      return existing;
+    }
+    const template = this.apps[appName] ?? { title: appName, bounds: [100, 100, 640, 480] as Region };
+    return this.openWindow({ ...template, processName: template.processName ?? appName });
+  }
+
+  quit(appName: string): boolean {
+    this.events.push({ type: 'quit', appName });
+    const needle = appName.toLowerCase();
+    const remaining = this.windows.filter((w) => w.processName.toLowerCase() !== needle);
+    const closed = remaining.length !== this.windows.length;
+    this.windows = remaining;
+    return closed;
+  }
+
+  isRunning(appName: string): boolean {
+    const needle = appName.toLowerCase();
+    return this.windows.some((w) => w.processName.toLowerCase() === needle);
+  }
+
+  // --- Input ---
+
+  click(x: number, y: number, button: MouseButton, doubleClick: boolean): void {
+    this.pointer = [x, y];
+    const hit = this.elementAt(x, y);
+    this.events.push({ type: 'click', x, y, button, doubleClick, target: hit?.element?.id ?? hit?.element?.name });
+    if (!hit) return;
+
+    this.raiseWindow(hit.window);
+    const el = hit.element;
+    if (!el || el.enabled === false || button !== 'left') return;
+    this.press(el, hit.window);
+  }
+
+  type(text: string): void {
+    const el = this.focusedElement;
+    this.events.push({ type: 'type', text, target: el?.id ?? el?.name });
+    if (el && el.enabled !== false) {
+      el.value = (el.value ?? '') + text;
+    }
+  }
+
+  key(key: string, repeat: number): void {
+    const el = this.focusedElement;
+    this.events.push({ type: 'key', key, repeat, target: el?.id ?? el?.name });
+    if (!el) return;
+
+    const { mainKey, modifiers } = parseKeyCombo(key);
+    if (modifiers.length > 0) return;
+
+    for (let i = 0; i < repeat; i++) {
+      if (mainKey === 'backspace') {
+        el.value = (el.value ?? '').slice(0, -1);
+      } else if (mainKey === 'enter') {
+        const win = this.windowOf(el);
+        if (win) this.runActions(el.onSubmit, win);
+      }
+    }
+  }
+
+  scroll(x: number, y: number, direction: ScrollDirection, amount: number): void {
+    this.pointer = [x, y];
+    this.events.push({ type: 'scroll', x, y, direction, amount });
+  }
+
+  drag(from: [number, number], to: [number, number]): void {
+    this.pointer = [...to];
+    this.events.push({ type: 'drag', from, to });
+
+    // Dragging a title bar moves the window
+    const hit = this.elementAt(from[0], from[1]);
+    if (hit && from[1] < hit.window.bounds[1] + TITLE_BAR_HEIGHT) {
+      hit.window.bounds[0] += to[0] - from[0];
+      hit.window.bounds[1] += to[1] - from[1];
+      this.raiseWindow(hit.window);
+    }
+  }
+
+  // --- Accessibility ---
+
+  /** Accessibility actions an element exposes */
+  actionsOf(element: VirtualElement): string[] {
+    return element.actions ?? DEFAULT_ACTIONS[element.role] ?? [];
+  }
+
+  /**
+   * Invoke an accessibility action on an element of an earlier readTree, without moving the pointer
+   * or raising its window. Returns the action performed, or undefined when the element exposes none.
+   */
+  performAction(locator: ElementLocator, action?: string): string | undefined {
+    const { element, window: win } = this.locate(locator);
+    const available = this.actionsOf(element);
+    if (available.length === 0) return undefined;
+    const name = action ? available.find((a) => a.toLowerCase() === action.toLowerCase()) : available[0];
+    if (!name) {
+      throw new Error(`Action "${action}" is not available. The element exposes: ${available.join(', ')}.`);
+    }
+
+    this.events.push({ type: 'action', action: name, target: element.id ?? element.name });
+    if (element.enabled === false) return name;
+    if (name === 'click') {
+      this.press(element, win);
+    } else if (name === 'activate') {
+      this.runActions(element.onSubmit, win);
+    }
+    return name;
+  }
+
+  /**
+   * Raw accessibility tree of the matching (or focused) window, or of limits.root, as a platform driver returns it.
+   */
+  readTree(windowTitle: string | undefined, maxDepth: number, limits: ReadTreeLimits = {}): RawUIElement[] {
+    const { root, maxElements = Infinity, maxChildren = Infinity, skipOffscreen = false } = limits;
+    let win: VirtualWindow | undefined;
+    let start: VirtualElement | undefined;
+    if (root && root.path.length > 1) {
+      ({ window: win, element: start } = this.locate(root));
+    } else if (root) {
+      win = root.windowTitle ? this.findWindow(root.windowTitle) : this.focusedWindow;
+      if (!win || root.path[0] !== 0 || root.role !== RAW_ROLES.window || root.title !== win.title) {
+        throw new Error('Element not found: the window changed since it was read.');
+      }
+    } else {
+      win = windowTitle ? this.findWindow(windowTitle) : this.focusedWindow;
+    }
+    if (!win) return [];
+
+    const [wx, wy, ww, wh] = win.bounds;
+    const visible = (x: number, y: number, w: number, h: number) =>
+      x < wx + ww && y < wy + wh && x + w > wx && y + h > wy && x < this.width && y < this.height && x + w > 0 && y + h > 0;
+    const offscreen = ({ bounds: [x, y, w, h] }: VirtualElement) => !visible(wx + x, wy + y, w, h);
+    let budget = maxElements;
+    const readChildren = (raw: RawUIElement, children: VirtualElement[], depth: number) => {
+      let read = 0;
+      for (const child of children) {
+        if (budget <= 0) break;
+        if (skipOffscreen && offscreen(child)) {
+          raw.children.push({ ...placeholder(child), skipped: true });
+        } else if (read === maxChildren) {
+          raw.childCount = children.length;
+          break;
+        } else {
+          read++;
+          raw.children.push(toRaw(child, depth + 1));
+        }
+      }
+    };
+    const placeholder = (el: VirtualElement): RawUIElement => ({
+      role: RAW_ROLES[el.role] ?? el.role,
+      title: el.name ?? null,
+      description: null,
+      value: null,
+      enabled: null,
+      position: null,
+      size: null,
+      runtimeId: el.id ? `${win.id}.${el.id}` : null,
+      children: [],
+    });
+    const toRaw = (el: VirtualElement, depth: number): RawUIElement => {
+      budget--;
+      const [x, y, w, h] = el.bounds;
+      const raw: RawUIElement = {
+        ...placeholder(el),
+        description: el.description ?? null,
+        value: el.value ?? null,
+        enabled: el.enabled ?? true,
+        position: [wx + x, wy + y],
+        size: [w, h],
+        focused: el === this.focusedElement,
+        selected: el.selected ?? null,
+        checked: CHECKABLE_ROLES.has(el.role) ? el.value === '1' : null,
+        expanded: el.expanded ?? null,
+        offscreen: offscreen(el),
+        shortcut: el.shortcut ?? null,
+        automationId: el.id ?? null,
+        className: el.className ?? null,
+        helpText: el.helpText ?? null,
+        actions: this.actionsOf(el),
+      };
+      if (depth < maxDepth) readChildren(raw, el.children, depth);
+      return raw;
+    };
+
+    if (start) return [toRaw(start, 0)];
+    budget--;
+    const windowRaw: RawUIElement = {
+      role: RAW_ROLES.window,
+      title: win.title,
+      description: null,
+      value: null,
+      enabled: true,
+      position: [wx, wy],
+      size: [ww, wh],
+      runtimeId: String(win.id),
+      children: [],
+    };
+    if (maxDepth > 0) readChildren(windowRaw, win.elements, 0);
+    return [windowRaw];
+  }
+
+  /**
+   * Write an element's value as a platform value API would, and return the value read back.
+   * Text roles take any text; sliders and spinners take numbers, clamped to their range.
+   */
+  setValue(locator: ElementLocator, value: string): string | null {
+    const { element } = this.locate(locator);
+    this.events.push({ type: 'setValue', value, target: element.id ?? element.name });
+
+    if (RANGE_ROLES.has(element.role)) {
+      const number = Number(value);
+      if (value.trim() === '' || Number.isNaN(number)) {
+        throw new Error(`The element takes a number, got "${value}".`);
+      }
+      const [min, max] = element.range ?? [-Infinity, Infinity];
+      if (element.enabled !== false) element.value = String(Math.min(max, Math.max(min, number)));
+    } else if (EDITABLE_ROLES.has(element.role)) {
+      if (element.enabled !== false) element.value = value;
+    } else {
+      throw new Error('The element has no settable value.');
+    }
+    return element.value ?? null;
+  }
+
+  // --- Internals ---
+
+  /** Element of an earlier readTree, checked against its recorded role and name */
+  private locate(locator: ElementLocator): { element: VirtualElement; window: VirtualWindow } {
+    const win = locator.windowTitle ? this.findWindow(locator.windowTitle) : this.focusedWindow;
+    const [rootIndex, ...childPath] = locator.path;
+    let element: VirtualElement | undefined;
+    let elements = win?.elements ?? [];
+    for (const index of childPath) {
+      element = elements[index];
+      elements = element?.children ?? [];
+    }
+    if (!win || rootIndex !== 0 || !element
+      || (RAW_ROLES[element.role] ?? element.role) !== locator.role || (element.name ?? null) !== locator.title) {
+      throw new Error('Element not found: the window changed since it was read.');
+    }
+    return { element, window: win };
+  }
+
+  /** Effect of a left click or "click" action on an enabled element */
+  private press(element: VirtualElement, win: VirtualWindow): void {
+    if (element.role === 'checkbox' || element.role === 'togglebutton') {
+      element.value = element.value === '1' ? '0' : '1';
+    }
+    if (element.expanded != null) {
+      element.expanded = !element.expanded;
+    }
+    if (EDITABLE_ROLES.has(element.role)) {
+      this.focusedElement = element;
+    }
+    this.runActions(element.onClick, win);
+  }
+
+  private windowOf(element: VirtualElement): VirtualWindow | undefined {
+    return this.windows.find((w) => this.searchElements(w.elements, (el) => el === element));
+  }
+
+  private searchElements(
+    elements: VirtualElement[],
+    predicate: (el: VirtualElement) => boolean
+  ): VirtualElement | undefined {
+    for (const el of elements) {
+      if (predicate(el)) return el;
+      const found = this.searchElements(el.children, predicate);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  private runActions(actions: VirtualAction[] | undefined, source: VirtualWindow): void {
+    for (const action of actions ?? []) {
+      switch (action.type) {
+        case 'setValue': {
+          const target = this.findElement(action.target);
+          if (target) target.value = action.value;
+          break;
+        }
+        case 'setEnabled': {
+          const target = this.findElement(action.target);
+          if (target) target.enabled = action.enabled;
+          break;
+        }
+        case 'openWindow':
+          this.openWindow(action.window);
+          break;
+        case 'closeWindow': {
+          const target = action.title ? this.findWindow(action.title) : source;
+          if (target) this.closeWindow(target);
+          break;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Virtual Driver
+ * Simulated in-memory desktop for deterministic end-to-end tests on any machine.
+ * Never auto-detected: select it with --driver virtual.
+ */
+
+import { readFileSync } from 'node:fs';
+import type { PlatformDriver } from '../types.js';
+import { VirtualDesktop } from './desktop.js';
+import type { VirtualScenario } from './desktop.js';
+import { renderDesktop, renderWindowImage } from './render.js';
+
+export { VirtualDesktop, TITLE_BAR_HEIGHT } from './desktop.js';
+export type {
+  VirtualScenario,
+  VirtualDisplaySpec,
+  VirtualWindowSpec,
+  VirtualElementSpec,
+  VirtualAction,
+  VirtualEvent,
+  VirtualWindow,
+  VirtualElement,
+} from './desktop.js';
+export { renderDesktop, renderWindowImage } from './render.js';
+
+/**
+ * Create a driver backed by the given desktop model.
+ */
+export function createVirtualDriver(desktop: VirtualDesktop, name = 'virtual'): PlatformDriver {
+  return {
+    name,
+    description: 'Simulated in-memory desktop (deterministic testing, no display needed)',
+    isSupported: () => false,
+    input: {
+      click: async ({ coordinate, button = 'left', doubleClick = false }) => {
+        desktop.click(coordinate[0], coordinate[1], button, doubleClick);
+      },
+      type: async ({ text }) => {
+        desktop.type(text);
+      },
+      key: async ({ key, repeat = 1 }) => {
+        desktop.key(key, repeat);
+      },
+      scroll: async ({ coordinate, direction, amount = 3 }) => {
+        desktop.scroll(coordinate[0], coordinate[1], direction, amount);
+      },
+      drag: async ({ startCoordinate, endCoordinate }) => {
+        desktop.drag(startCoordinate, endCoordinate);
+      },
+    },
+    windows: {
+      listWindows: async () => desktop.listWindows(),
+      focusWindow: async (titleOrId) => {
+        const win = typeof titleOrId === 'number'
+          ? desktop.windows.find((w) => w.id === titleOrId)
+          : desktop.findWindow(titleOrId);
+        if (!win) {
+          throw new Error(`Window with title containing "${titleOrId}" not found`);
+        }
+        desktop.raiseWindow(win);
+      },
+    },
+    accessibility: {
+      readTree: async (windowTitle, maxDepth, limits) => desktop.readTree(windowTitle, maxDepth, limits),
+      performAction: async (element, action) => desktop.performAction(element, action),
+      setValue: async (element, value) => desktop.setValue(element, value),
+    },
+    apps: {
+      launch: async (appName) => {
+        desktop.launch(appName);
+        return `Launched: ${appName}`;
+      },
+      quit: async (appName) => {
+        if (!desktop.quit(appName)) {
+          throw new Error(`Failed to quit "${appName}": not running`);
+        }
+        return `Quit: ${appName}`;
+      },
+      isRunning: async (appName) => desktop.isRunning(appName),
+    },
+    screen: {
+      capture: async (screenId) => {
+        if (screenId == null) return renderDesktop(desktop);
+        const display = desktop.displays.find((d) => d.id === screenId);
+        if (!display) {
+          throw new Error(`Display ${screenId} not found. Use desktop_displays to list available monitors.`);
+        }
+        return renderDesktop(desktop, display.bounds);
+      },
+      captureWindow: async (window) => {
+        const win = desktop.windows.find((w) => w.id === window.id);
+        if (!win) {
+          throw new Error(`Window "${window.title}" no longer exists`);
+        }
+        return renderWindowImage(desktop, win);
+      },
+      pixelRatio: async () => desktop.pixelRatio,
+      listDisplays: async () => desktop.displays,
+    },
+  };
+}
+
+/**
+ * Read a scenario JSON file (see VirtualScenario).
+ */
+export function loadVirtualScenario(path: string): VirtualScenario {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as VirtualScenario;
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load virtual scenario "${path}": ${msg}`);
+  }
+}
+
+/** Desktop behind the built-in "virtual" driver; replaced by --virtual-scenario */
+export let virtualDesktop = new VirtualDesktop();
+
+/**
+ * Reset the built-in virtual driver to a fresh desktop built from the scenario.
+ */
+export function resetVirtualDesktop(scenario: VirtualScenario = {}): VirtualDesktop {
+  virtualDesktop = new VirtualDesktop(scenario);
+  Object.assign(virtualDriver, createVirtualDriver(virtualDesktop));
+  return virtualDesktop;
+}
+
+export const virtualDriver: PlatformDriver = createVirtualDriver(virtualDesktop);
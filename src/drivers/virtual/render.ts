@@ -0,0 +1,119 @@
+/**
+ * Virtual Desktop Framebuffer
+ * Renders the model to a PNG with sharp (SVG rasterization), so screenshots,
+ * OCR and image-based tools operate on real pixels.
+ */
+
+import sharp from 'sharp';
+import { TITLE_BAR_HEIGHT } from './desktop.js';
+import type { VirtualDesktop, VirtualElement, VirtualWindow } from './desktop.js';
+import type { Region } from '../../types/index.js';
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function label(x: number, y: number, text: string, color = '#202020'): string {
+  return `<text x="${x}" y="${y}" font-family="sans-serif" font-size="13" fill="${color}">${escapeXml(text)}</text>`;
+}
+
+function renderElement(el: VirtualElement, ox: number, oy: number, focused: boolean): string {
+  const [ex, ey, w, h] = el.bounds;
+  const x = ox + ex;
+  const y = oy + ey;
+  const textY = y + Math.round(h / 2) + 5;
+  const disabled = el.enabled === false;
+  const parts: string[] = [];
+
+  switch (el.role) {
+    case 'button':
+    case 'togglebutton': {
+      const pressed = el.value === '1';
+      parts.push(`<rect x="${x}" y="${y}" width="${w}" height="${h}" rx="4" fill="${pressed ? '#b0c4de' : '#e6e6e6'}" stroke="#8a8a8a"/>`);
+      parts.push(label(x + 8, textY, el.name ?? '', disabled ? '#a0a0a0' : '#202020'));
+      break;
+    }
+    case 'textfield':
+    case 'textarea':
+    case 'search':
+    case 'password': {
+      const shown = el.role === 'password' ? '•'.repeat((el.value ?? '').length) : el.value ?? '';
+      parts.push(`<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="#ffffff" stroke="${focused ? '#3b82f6' : '#8a8a8a'}"/>`);
+      parts.push(label(x + 6, textY, shown));
+      break;
+    }
+    case 'checkbox':
+    case 'radio': {
+      const box = Math.min(14, h);
+      const by = y + Math.round((h - box) / 2);
+      parts.push(`<rect x="${x}" y="${by}" width="${box}" height="${box}" fill="#ffffff" stroke="#606060"/>`);
+      if (el.value === '1') {
+        parts.push(`<rect x="${x + 3}" y="${by + 3}" width="${box - 6}" height="${box - 6}" fill="#303030"/>`);
+      }
+      parts.push(label(x + box + 6, textY, el.name ?? ''));
+      break;
+    }
+    case 'text':
+    case 'heading':
+      parts.push(label(x, textY, el.value ?? el.name ?? ''));
+      break;
+    default:
+      parts.push(`<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="none" stroke="#d0d0d0"/>`);
+  }
+
+  for (const child of el.children) {
+    parts.push(renderElement(child, ox, oy, focused));
+  }
+  return parts.join('');
+}
+
+function renderWindow(win: VirtualWindow, focused: boolean, focusedElement: VirtualElement | undefined): string {
+  const [x, y, w, h] = win.bounds;
+  const parts = [
+    `<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="#fafafa" stroke="#606060"/>`,
+    `<rect x="${x}" y="${y}" width="${w}" height="${TITLE_BAR_HEIGHT}" fill="${focused ? '#4a5568' : '#a0aec0'}"/>`,
+    label(x + 8, y + 17, win.title, '#ffffff'),
+  ];
+  for (const el of win.elements) {
+    parts.push(renderElement(el, x, y, el === focusedElement));
+  }
+  return parts.join('');
+}
+
+/**
+ * Rasterize the desktop (or one area of it, e.g. a display's bounds) to a PNG buffer
+ * (pixelRatio framebuffer pixels per point).
+ */
+export async function renderDesktop(desktop: VirtualDesktop, area?: Region): Promise<Buffer> {
+  const focused = desktop.focusedWindow;
+  const windows = desktop.windows
+    .map((w) => renderWindow(w, w === focused, desktop.focusedElement))
+    .join('');
+
+  const { pixelRatio } = desktop;
+  const [x, y, width, height] = area ?? [0, 0, desktop.width, desktop.height];
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width * pixelRatio}" height="${height * pixelRatio}" viewBox="${x} ${y} ${width} ${height}">` +
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="#2d3748"/>${windows}</svg>`;
+
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+/**
+ * Rasterize a single window at its own size, as if nothing covered it.
+ */
+export async function renderWindowImage(desktop: VirtualDesktop, win: VirtualWindow): Promise<Buffer> {
+  const [x, y, w, h] = win.bounds;
+  const ratio = desktop.pixelRatio;
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${w * ratio}" height="${h * ratio}" viewBox="0 0 ${w} ${h}">` +
+    `<g transform="translate(${-x} ${-y})">` +
+    renderWindow(win, win === desktop.focusedWindow, desktop.focusedElement) +
+    '</g></svg>';
+
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
@@ -0,0 +1,433 @@
+/**
+ * Windows Accessibility Driver
+ * UI Automation via PowerShell + inline C# (System.Windows.Automation).
+ */
+
+import type { AccessibilityDriver } from '../types.js';
+import type { RawUIElement, ElementLocator, ReadTreeLimits } from '../../types/index.js';
+import { execFileAsync, PS_FLAGS, escapePowerShell } from '../shell.js';
+
+/**
+ * C# members shared by the UIA scripts: FindRoot returns the top-level window whose title contains
+ * windowTitle, or the foreground window.
+ */
+const FIND_ROOT_CS = `
+    [DllImport("user32.dll")]
+    static extern IntPtr GetForegroundWindow();
+
+    static AutomationElement FindRoot(string windowTitle) {
+        if (string.IsNullOrEmpty(windowTitle)) {
+            // Get foreground window
+            IntPtr hwnd = GetForegroundWindow();
+            return AutomationElement.FromHandle(hwnd);
+        }
+
+        // Find window by title substring
+        var desktop = AutomationElement.RootElement;
+        var windows = desktop.FindAll(TreeScope.Children, Condition.TrueCondition);
+        foreach (AutomationElement win in windows) {
+            try {
+                string name = win.Current.Name ?? "";
+                if (name.IndexOf(windowTitle, StringComparison.OrdinalIgnoreCase) >= 0) {
+                    return win;
+                }
+            } catch {}
+        }
+        return null;
+    }
+`;
+
+/**
+ * C# Locate: the element of an earlier read, by runtime ID or by child index path checked against its name.
+ */
+const LOCATE_CS = `
+    static AutomationElement Locate(string windowTitle, string runtimeId, int[] path, string title) {
+        AutomationElement root = FindRoot(windowTitle);
+        if (root == null) return null;
+        if (!string.IsNullOrEmpty(runtimeId)) {
+            var rid = Array.ConvertAll(runtimeId.Split('.'), int.Parse);
+            var cond = new PropertyCondition(AutomationElement.RuntimeIdProperty, rid);
+            return root.FindFirst(TreeScope.Subtree, cond);
+        }
+        AutomationElement elem = root;
+        for (int i = 1; i < path.Length; i++) {
+            var children = elem.FindAll(TreeScope.Children, Condition.TrueCondition);
+            if (path[i] >= children.Count) return null;
+            elem = children[path[i]];
+        }
+        return (elem.Current.Name ?? "") == title ? elem : null;
+    }
+`;
+
+/** PowerShell arguments identifying an element for Locate */
+function locateArgs(element: ElementLocator): string {
+  return `'${escapePowerShell(element.windowTitle ?? '')}', '${escapePowerShell(element.runtimeId ?? '')}', ` +
+    `@(${element.path.join(',')}), '${escapePowerShell(element.title ?? '')}'`;
+}
+
+export class WindowsAccessibilityDriver implements AccessibilityDriver {
+  async readTree(windowTitle: string | undefined, maxDepth: number, limits: ReadTreeLimits = {}): Promise<RawUIElement[]> {
+    return this.readTreeUIA(windowTitle, maxDepth, limits);
+  }
+
+  /**
+   * Run a UIA control pattern on an element: Invoke, Toggle, Select (SelectionItem) or Expand/Collapse
+   * (ExpandCollapse). Without a name the first supported one in that order runs.
+   */
+  async performAction(element: ElementLocator, action?: string): Promise<string | undefined> {
+    const script = `
+Add-Type -AssemblyName UIAutomationClient
+Add-Type -AssemblyName UIAutomationTypes
+Add-Type @'
+using System;
+using System.Collections.Generic;
+using System.Windows.Automation;
+using System.Runtime.InteropServices;
+
+public class UIAActor {
+${FIND_ROOT_CS}
+${LOCATE_CS}
+    public static string Perform(string windowTitle, string runtimeId, int[] path, string title, string action) {
+        AutomationElement elem = Locate(windowTitle, runtimeId, path, title);
+        if (elem == null) return "error:Element not found: the window changed since it was read.";
+
+        var available = new List<string>();
+        object pattern;
+        if (elem.TryGetCurrentPattern(InvokePattern.Pattern, out pattern)) available.Add("Invoke");
+        if (elem.TryGetCurrentPattern(TogglePattern.Pattern, out pattern)) available.Add("Toggle");
+        if (elem.TryGetCurrentPattern(SelectionItemPattern.Pattern, out pattern)) available.Add("Select");
+        if (elem.TryGetCurrentPattern(ExpandCollapsePattern.Pattern, out pattern)) {
+            var state = ((ExpandCollapsePattern)pattern).Current.ExpandCollapseState;
+            available.Add(state == ExpandCollapseState.Expanded ? "Collapse" : "Expand");
+            available.Add(state == ExpandCollapseState.Expanded ? "Expand" : "Collapse");
+        }
+        if (available.Count == 0) return "none";
+
+        string name = string.IsNullOrEmpty(action)
+            ? available[0]
+            : available.Find(a => string.Equals(a, action, StringComparison.OrdinalIgnoreCase));
+        if (name == null) {
+            return "error:Action '" + action + "' is not available. The element supports: " + string.Join(", ", available) + ".";
+        }
+
+        switch (name) {
+            case "Invoke": ((InvokePattern)elem.GetCurrentPattern(InvokePattern.Pattern)).Invoke(); break;
+            case "Toggle": ((TogglePattern)elem.GetCurrentPattern(TogglePattern.Pattern)).Toggle(); break;
+            case "Select": ((SelectionItemPattern)elem.GetCurrentPattern(SelectionItemPattern.Pattern)).Select(); break;
+            case "Expand": ((ExpandCollapsePattern)elem.GetCurrentPattern(ExpandCollapsePattern.Pattern)).Expand(); break;
+            case "Collapse": ((ExpandCollapsePattern)elem.GetCurrentPattern(ExpandCollapsePattern.Pattern)).Collapse(); break;
+        }
+        return "performed:" + name;
+    }
+}
+'@ -ReferencedAssemblies UIAutomationClient, UIAutomationTypes, WindowsBase
+Write-Output ([UIAActor]::Perform(${locateArgs(element)}, '${escapePowerShell(action ?? '')}'))
+`;
+
+    let output: string;
+    try {
+      const { stdout } = await execFileAsync('powershell', [...PS_FLAGS, script], {
+        maxBuffer: 1024 * 1024,
+        timeout: 60000,
+      });
+      output = stdout.trim();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to perform accessibility action: ${msg}`);
+    }
+
+    if (output.startsWith('error:')) throw new Error(output.slice('error:'.length));
+    return output.startsWith('performed:') ? output.slice('performed:'.length) : undefined;
+  }
+
+  /**
+   * Write a value with RangeValuePattern (numbers on sliders and spinners) or ValuePattern, and read it back.
+   */
+  async setValue(element: ElementLocator, value: string): Promise<string | null> {
+    const script = `
+Add-Type -AssemblyName UIAutomationClient
+Add-Type -AssemblyName UIAutomationTypes
+Add-Type @'
+using System;
+using System.Globalization;
+using System.Windows.Automation;
+using System.Runtime.InteropServices;
+
+public class UIAWriter {
+${FIND_ROOT_CS}
+${LOCATE_CS}
+    public static string SetValue(string windowTitle, string runtimeId, int[] path, string title, string value) {
+        AutomationElement elem = Locate(windowTitle, runtimeId, path, title);
+        if (elem == null) return "error:Element not found: the window changed since it was read.";
+
+        object pattern;
+        double number;
+        try {
+            if (double.TryParse(value, NumberStyles.Float, CultureInfo.InvariantCulture, out number)
+                && elem.TryGetCurrentPattern(RangeValuePattern.Pattern, out pattern)) {
+                var range = (RangeValuePattern)pattern;
+                if (range.Current.IsReadOnly) return "error:The element's value is read-only.";
+                range.SetValue(number);
+                return "value:" + range.Current.Value.ToString(CultureInfo.InvariantCulture);
+            }
+            if (elem.TryGetCurrentPattern(ValuePattern.Pattern, out pattern)) {
+                var valuePattern = (ValuePattern)pattern;
+                if (valuePattern.Current.IsReadOnly) return "error:The element's value is read-only.";
+                valuePattern.SetValue(value);
+                return "value:" + valuePattern.Current.Value;
+            }
+        } catch (Exception e) {
+            return "error:" + e.Message;
+        }
+        return "error:The element supports neither ValuePattern nor RangeValuePattern.";
+    }
+}
+'@ -ReferencedAssemblies UIAutomationClient, UIAutomationTypes, WindowsBase
+Write-Output ([UIAWriter]::SetValue(${locateArgs(element)}, '${escapePowerShell(value)}'))
+`;
+
+    let output: string;
+    try {
+      const { stdout } = await execFileAsync('powershell', [...PS_FLAGS, script], {
+        maxBuffer: 1024 * 1024,
+        timeout: 60000,
+      });
+      // Only the newline Write-Output appends: surrounding spaces are part of the value
+      output = stdout.replace(/\r?\n$/, '');
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to set element value: ${msg}`);
+    }
+
+    if (output.startsWith('error:')) throw new Error(output.slice('error:'.length).trim());
+    return output.startsWith('value:') ? output.slice('value:'.length) : null;
+  }
+
+  private async readTreeUIA(windowTitle: string | undefined, maxDepth: number, limits: ReadTreeLimits): Promise<RawUIElement[]> {
+    const safeTitle = windowTitle ? escapePowerShell(windowTitle) : '';
+    const limitArgs = `${maxDepth}, ${limits.maxElements ?? 0}, ${limits.maxChildren ?? 0}, $${limits.skipOffscreen ? 'true' : 'false'}`;
+
+    // PowerShell + inline C# using System.Windows.Automation
+    const script = `
+Add-Type -AssemblyName UIAutomationClient
+Add-Type -AssemblyName UIAutomationTypes
+Add-Type @'
+using System;
+using System.Collections.Generic;
+using System.Windows.Automation;
+using System.Runtime.InteropServices;
+
+public class UIAReader {
+${FIND_ROOT_CS}
+${LOCATE_CS}
+    // Limits of the current read
+    static int budget, maxChildren;
+    static bool skipOffscreen;
+
+    public static string ReadTree(string windowTitle, int maxDepth, int maxElements, int maxChildrenLimit, bool skipOffscreenLimit) {
+        AutomationElement root = FindRoot(windowTitle);
+        if (root == null) return "[]";
+        return Read(root, maxDepth, maxElements, maxChildrenLimit, skipOffscreenLimit);
+    }
+
+    public static string ReadSubtree(string windowTitle, string runtimeId, int[] path, string title,
+        int maxDepth, int maxElements, int maxChildrenLimit, bool skipOffscreenLimit) {
+        AutomationElement root = Locate(windowTitle, runtimeId, path, title);
+        if (root == null) return "error:Element not found: the window changed since it was read.";
+        return Read(root, maxDepth, maxElements, maxChildrenLimit, skipOffscreenLimit);
+    }
+
+    // maxElements and maxChildrenLimit of 0 mean no limit
+    static string Read(AutomationElement root, int maxDepth, int maxElements, int maxChildrenLimit, bool skipOffscreenLimit) {
+        budget = maxElements > 0 ? maxElements : int.MaxValue;
+        maxChildren = maxChildrenLimit > 0 ? maxChildrenLimit : int.MaxValue;
+        skipOffscreen = skipOffscreenLimit;
+
+        var results = new List<string>();
+        string json = ReadElement(root, 0, maxDepth);
+        if (json != null) results.Add(json);
+        return "[" + string.Join(",", results) + "]";
+    }
+
+    static string Str(string s) {
+        if (string.IsNullOrEmpty(s)) return "null";
+        var sb = new System.Text.StringBuilder("\\"");
+        foreach (char c in s) {
+            if (c == '"' || c == '\\\\') sb.Append('\\\\').Append(c);
+            else if (c < ' ') sb.AppendFormat("\\\\u{0:x4}", (int)c);
+            else sb.Append(c);
+        }
+        return sb.Append('"').ToString();
+    }
+
+    static string Bool(bool? b) { return b == null ? "null" : (b.Value ? "true" : "false"); }
+
+    // States, identifiers and supported patterns, as JSON members followed by a comma
+    static string ReadDetails(AutomationElement elem, AutomationElement.AutomationElementInformation current) {
+        bool? focused = null, selected = null, expanded = null, offscreen = null;
+        string checkedJson = "null";
+        object pattern;
+        try { focused = current.HasKeyboardFocus; } catch {}
+        try { offscreen = current.IsOffscreen; } catch {}
+        try {
+            if (elem.TryGetCurrentPattern(SelectionItemPattern.Pattern, out pattern))
+                selected = ((SelectionItemPattern)pattern).Current.IsSelected;
+        } catch {}
+        try {
+            if (elem.TryGetCurrentPattern(TogglePattern.Pattern, out pattern)) {
+                var toggle = ((TogglePattern)pattern).Current.ToggleState;
+                checkedJson = toggle == ToggleState.On ? "true" : toggle == ToggleState.Off ? "false" : "\\"mixed\\"";
+            }
+        } catch {}
+        try {
+            if (elem.TryGetCurrentPattern(ExpandCollapsePattern.Pattern, out pattern)) {
+                var state = ((ExpandCollapsePattern)pattern).Current.ExpandCollapseState;
+                if (state != ExpandCollapseState.LeafNode) expanded = state != ExpandCollapseState.Collapsed;
+            }
+        } catch {}
+        string shortcut = null, automationId = null, className = null, helpText = null;
+        try { shortcut = !string.IsNullOrEmpty(current.AcceleratorKey) ? current.AcceleratorKey : current.AccessKey; } catch {}
+        try { automationId = current.AutomationId; } catch {}
+        try { className = current.ClassName; } catch {}
+        try { helpText = current.HelpText; } catch {}
+        var patterns = new List<string>();
+        try {
+            foreach (AutomationPattern p in elem.GetSupportedPatterns())
+                patterns.Add(Str(p.ProgrammaticName.Replace("PatternIdentifiers.Pattern", "")));
+        } catch {}
+        return "\\"focused\\":" + Bool(focused) + ",\\"selected\\":" + Bool(selected)
+            + ",\\"checked\\":" + checkedJson + ",\\"expanded\\":" + Bool(expanded) + ",\\"offscreen\\":" + Bool(offscreen)
+            + ",\\"shortcut\\":" + Str(shortcut) + ",\\"automationId\\":" + Str(automationId)
+            + ",\\"className\\":" + Str(className) + ",\\"helpText\\":" + Str(helpText)
+            + ",\\"actions\\":[" + string.Join(",", patterns) + "],";
+    }
+
+    // Control type, name and runtime ID keep the identities of the siblings that are read
+    static string Placeholder(AutomationElement elem) {
+        string role = "Unknown", name = null, runtimeId = null;
+        try { role = elem.Current.ControlType.ProgrammaticName.Replace("ControlType.", ""); } catch {}
+        try { name = elem.Current.Name; } catch {}
+        try {
+            int[] rid = elem.GetRuntimeId();
+            if (rid != null) runtimeId = string.Join(".", rid);
+        } catch {}
+        return "{\\"role\\":" + Str(role) + ",\\"title\\":" + Str(name)
+            + ",\\"description\\":null,\\"value\\":null,\\"enabled\\":null,\\"position\\":null,\\"size\\":null"
+            + ",\\"runtimeId\\":" + Str(runtimeId) + ",\\"children\\":[],\\"skipped\\":true}";
+    }
+
+    static string ReadElement(AutomationElement elem, int depth, int maxDepth) {
+        if (elem == null || depth > maxDepth) return null;
+        budget--;
+
+        try {
+            var current = elem.Current;
+            string role = "Unknown";
+            if (current.ControlType != null && current.ControlType.ProgrammaticName != null)
+                role = current.ControlType.ProgrammaticName.Replace("ControlType.", "");
+            string title = (current.Name != null ? current.Name : "").Replace("\\\\", "\\\\\\\\").Replace("\\"", "\\\\\\"");
+            string desc = "";
+            try { string ht = current.HelpText; if (ht != null) desc = ht.Replace("\\\\", "\\\\\\\\").Replace("\\"", "\\\\\\""); } catch {}
+            bool enabled = current.IsEnabled;
+
+            string val = null;
+            try {
+                object pattern;
+                if (elem.TryGetCurrentPattern(ValuePattern.Pattern, out pattern)) {
+                    val = ((ValuePattern)pattern).Current.Value;
+                }
+            } catch {}
+            string valJson = val != null
+                ? "\\"" + val.Replace("\\\\", "\\\\\\\\").Replace("\\"", "\\\\\\"") + "\\""
+                : "null";
+
+            var rect = current.BoundingRectangle;
+            string posJson = !rect.IsEmpty
+                ? string.Format("[{0},{1}]", (int)rect.X, (int)rect.Y)
+                : "null";
+            string sizeJson = !rect.IsEmpty
+                ? string.Format("[{0},{1}]", (int)rect.Width, (int)rect.Height)
+                : "null";
+
+            string runtimeId = null;
+            try {
+                int[] rid = elem.GetRuntimeId();
+                if (rid != null) runtimeId = string.Join(".", rid);
+            } catch {}
+
+            string details = ReadDetails(elem, current);
+
+            // Read children
+            var childJsons = new List<string>();
+            string childCount = "null";
+            if (depth < maxDepth) {
+                try {
+                    var children = elem.FindAll(TreeScope.Children, Condition.TrueCondition);
+                    int read = 0, index = -1;
+                    foreach (AutomationElement child in children) {
+                        index++;
+                        if (budget <= 0) break;
+                        bool offscreen = false;
+                        if (skipOffscreen) {
+                            try { offscreen = child.Current.IsOffscreen; } catch {}
+                        }
+                        if (offscreen) {
+                            childJsons.Add(Placeholder(child));
+                            continue;
+                        }
+                        if (read >= maxChildren) {
+                            childCount = children.Count.ToString();
+                            break;
+                        }
+                        string childJson = ReadElement(child, depth + 1, maxDepth);
+                        if (childJson != null) {
+                            // After a child that failed to read, keep the platform index for the locator path
+                            if (childJsons.Count < index) childJson = "{\\"index\\":" + index + "," + childJson.Substring(1);
+                            childJsons.Add(childJson);
+                            read++;
+                        }
+                    }
+                } catch {}
+            }
+
+            return string.Format(
+                "{{\\"role\\":\\"{0}\\",\\"title\\":\\"{1}\\",\\"description\\":{2},\\"value\\":{3},\\"enabled\\":{4},\\"position\\":{5},\\"size\\":{6},\\"runtimeId\\":{8},{9}\\"children\\":[{7}],\\"childCount\\":{10}}}",
+                role, title,
+                string.IsNullOrEmpty(desc) ? "null" : "\\"" + desc + "\\"",
+                valJson,
+                enabled ? "true" : "false",
+                posJson, sizeJson,
+                string.Join(",", childJsons),
+                runtimeId != null ? "\\"" + runtimeId + "\\"" : "null",
+                details,
+                childCount
+            );
+        } catch {
+            return null;
+        }
+    }
+}
+'@ -ReferencedAssemblies UIAutomationClient, UIAutomationTypes, WindowsBase
+Write-Output (${limits.root
+    ? `[UIAReader]::ReadSubtree(${locateArgs(limits.root)}, ${limitArgs})`
+    : `[UIAReader]::ReadTree('${safeTitle}', ${limitArgs})`})
+`;
+
+    let output: string;
+    try {
+      const { stdout } = await execFileAsync('powershell', [...PS_FLAGS, script], {
+        maxBuffer: 10 * 1024 * 1024,
+        timeout: 60000,
+      });
+
+      output = stdout.trim();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read accessibility tree: ${msg}`);
+    }
+
+    if (output.startsWith('error:')) throw new Error(output.slice('error:'.length).trim());
+    if (!output || output === '[]') return [];
+    return JSON.parse(output) as RawUIElement[];
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Windows App Driver
+ * PowerShell (Start-Process, Stop-Process, Get-Process).
+ */
+
+import type { AppDriver } from '../types.js';
+import { execFileAsync, PS_FLAGS, escapePowerShell } from '../shell.js';
+
+export class WindowsAppDriver implements AppDriver {
+  async launch(appName: string): Promise<string> {
+    return this.launchWindows(appName);
+  }
+
+  async quit(appName: string): Promise<string> {
+    return this.quitWindows(appName);
+  }
+
+  async isRunning(appName: string): Promise<boolean> {
+    return this.isRunningWindows(appName);
+  }
+
+  private async launchWindows(appName: string): Promise<string> {
+    const safe = escapePowerShell(appName);
+    // Try Start-Process first, then fallback to Start Menu shortcut search
+    const script = `
+try {
+  Start-Process '${safe}'
+  Write-Output 'ok'
+} catch {
+  $shortcut = Get-ChildItem "$env:ProgramData\\Microsoft\\Windows\\Start Menu" -Recurse -Filter '*.lnk' | Where-Object { $_.BaseName -like '*${safe}*' } | Select-Object -First 1
+  if ($shortcut) {
+    Start-Process $shortcut.FullName
+    Write-Output 'ok'
+  } else {
+    throw "Application '${safe}' not found"
+  }
+}`;
+
+    try {
+      await execFileAsync('powershell', [...PS_FLAGS, script], { timeout: 15000 });
+      return `Launched: ${appName}`;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to launch "${appName}": ${msg}`);
+    }
+  }
+
+  private async quitWindows(appName: string): Promise<string> {
+    const safe = escapePowerShell(appName);
+    const script = `Stop-Process -Name '${safe}' -ErrorAction Stop`;
+
+    try {
+      await execFileAsync('powershell', [...PS_FLAGS, script], { timeout: 10000 });
+      return `Quit: ${appName}`;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to quit "${appName}": ${msg}`);
+    }
+  }
+
+  private async isRunningWindows(appName: string): Promise<boolean> {
+    const safe = escapePowerShell(appName);
+    const script = `if (Get-Process -Name '${safe}' -ErrorAction SilentlyContinue) { Write-Output 'true' } else { Write-Output 'false' }`;
+
+    try {
+      const { stdout } = await execFileAsync('powershell', [...PS_FLAGS, script], { timeout: 5000 });
+      return stdout.trim() === 'true';
+    } catch {
+      return false;
+    }
+  }
+}
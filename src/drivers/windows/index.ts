@@ -0,0 +1,22 @@
+/**
+ * Windows Driver
+ * robotjs input, PowerShell + Win32 windows, UI Automation accessibility.
+ */
+
+import type { PlatformDriver } from '../types.js';
+import { WindowsInputDriver } from './input.js';
+import { WindowsWindowDriver } from './windows.js';
+import { WindowsAccessibilityDriver } from './accessibility.js';
+import { WindowsAppDriver } from './apps.js';
+import { WindowsScreenDriver } from './screen.js';
+
+export const windowsDriver: PlatformDriver = {
+  name: 'windows',
+  description: 'Windows 10/11: robotjs input, PowerShell + Win32 windows, UI Automation accessibility',
+  isSupported: () => process.platform === 'win32',
+  input: new WindowsInputDriver(),
+  windows: new WindowsWindowDriver(),
+  accessibility: new WindowsAccessibilityDriver(),
+  apps: new WindowsAppDriver(),
+  screen: new WindowsScreenDriver(),
+};
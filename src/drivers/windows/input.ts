@@ -0,0 +1,30 @@
+/**
+ * Windows Input Driver
+ * robotjs for mouse and keyboard.
+ */
+
+import type { InputDriver } from '../types.js';
+import type { ClickOptions, TypeOptions, KeyOptions, ScrollOptions, DragOptions } from '../../types/index.js';
+import { robotClick, robotType, robotKey, robotScroll, robotDrag } from '../robot.js';
+
+export class WindowsInputDriver implements InputDriver {
+  async click(options: ClickOptions): Promise<void> {
+    await robotClick(options);
+  }
+
+  async type(options: TypeOptions): Promise<void> {
+    await robotType(options);
+  }
+
+  async key(options: KeyOptions): Promise<void> {
+    await robotKey(options);
+  }
+
+  async drag(options: DragOptions): Promise<void> {
+    await robotDrag(options);
+  }
+
+  async scroll(options: ScrollOptions): Promise<void> {
+    await robotScroll(options);
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Windows Screen Driver
+ * Calls the screenCapture exe shipped by screenshot-desktop directly
+ * to work around bat path issues.
+ */
+
+import screenshot from 'screenshot-desktop';
+import { existsSync, readFileSync, writeFileSync, mkdirSync, unlinkSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { execFile, execFileSync } from 'node:child_process';
+import { createRequire } from 'node:module';
+import type { ScreenDriver } from '../types.js';
+import type { DisplayInfo, Region } from '../../types/index.js';
+import { execFileAsync, PS_FLAGS } from '../shell.js';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Ensure the screenCapture exe exists in temp on Windows.
+ * screenshot-desktop ships a polyglot bat/C# file that self-compiles via .NET csc.exe.
+ * We ensure compilation happened, then call the exe directly (bypassing bat path issues).
+ */
+function ensureWindowsExe(): string {
+  const tmpDir = join(tmpdir(), 'screenCapture');
+  const exePath = join(tmpDir, 'screenCapture_1.3.2.exe');
+
+  if (existsSync(exePath)) return exePath;
+
+  // Copy bat + manifest from screenshot-desktop to temp for self-compilation
+  if (!existsSync(tmpDir)) mkdirSync(tmpDir, { recursive: true });
+
+  const pkgDir = dirname(require.resolve('screenshot-desktop'));
+  const srcBat = join(pkgDir, 'lib', 'win32', 'screenCapture_1.3.2.bat');
+  const srcManifest = join(pkgDir, 'lib', 'win32', 'app.manifest');
+
+  const dstBat = join(tmpDir, 'screenCapture_1.3.2.bat');
+  const dstManifest = join(tmpDir, 'app.manifest');
+
+  if (!existsSync(dstBat)) writeFileSync(dstBat, readFileSync(srcBat));
+  if (!existsSync(dstManifest)) writeFileSync(dstManifest, readFileSync(srcManifest));
+
+  // Find .NET Framework csc.exe and compile the C# code directly
+  const cscPaths = [
+    join(process.env.SystemRoot ?? 'C:\\Windows', 'Microsoft.NET', 'Framework', 'v4.0.30319', 'csc.exe'),
+    join(process.env.SystemRoot ?? 'C:\\Windows', 'Microsoft.NET', 'Framework', 'v3.5', 'csc.exe'),
+  ];
+  const csc = cscPaths.find(p => existsSync(p));
+  if (csc) {
+    execFileSync(csc, [
+      '/nologo',
+      '/r:Microsoft.VisualBasic.dll',
+      `/win32manifest:${dstManifest}`,
+      `/out:${exePath}`,
+      dstBat,
+    ], { cwd: tmpDir, windowsHide: true, stdio: 'ignore' });
+  }
+
+  return exePath;
+}
+
+/**
+ * Capture screenshot on Windows by calling the exe directly.
+ * With a device name (e.g. \\.\DISPLAY2) only that monitor is captured, else the whole virtual screen.
+ */
+function captureWindows(imgPath: string, deviceName?: string): Promise<void> {
+  const exePath = ensureWindowsExe();
+  const args = deviceName ? [imgPath, '/d', deviceName] : [imgPath];
+  return new Promise((resolve, reject) => {
+    execFile(exePath, args, {
+      cwd: join(tmpdir(), 'screenCapture'),
+      windowsHide: true,
+      timeout: 30000,
+    }, (err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
+export class WindowsScreenDriver implements ScreenDriver {
+  /**
+   * Capture the whole virtual screen (all monitors), or one monitor by its listDisplays index.
+   */
+  async capture(screenId?: number): Promise<Buffer> {
+    let deviceName: string | undefined;
+    if (screenId != null) {
+      const display = (await this.listDisplays()).find((d) => d.id === screenId);
+      if (!display) {
+        throw new Error(`Display ${screenId} not found. Use desktop_displays to list available monitors.`);
+      }
+      deviceName = display.name;
+    }
+
+    // Direct exe call - bypasses bat path resolution issues
+    const imgPath = join(tmpdir(), `codriver_screenshot_${Date.now()}.png`);
+    await captureWindows(imgPath, deviceName);
+    const buffer = readFileSync(imgPath);
+    unlinkSync(imgPath);
+    return buffer;
+  }
+
+  /**
+   * Top-left corner of the virtual screen, where a capture without a monitor starts.
+   * Negative when a monitor sits left of or above the primary one.
+   */
+  async captureOrigin(): Promise<[number, number]> {
+    const script = `
+Add-Type -AssemblyName System.Windows.Forms
+$v = [System.Windows.Forms.SystemInformation]::VirtualScreen
+ConvertTo-Json -InputObject @($v.X, $v.Y) -Compress
+`;
+    try {
+      const { stdout } = await execFileAsync('powershell', [...PS_FLAGS, script], { timeout: 15000 });
+      const [x, y] = JSON.parse(stdout.trim()) as [number, number];
+      return [x, y];
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read the virtual screen bounds: ${msg}`);
+    }
+  }
+
+  /**
+   * Monitors from System.Windows.Forms.Screen (virtual-screen pixels), with the DPI scale
+   * reported by screenshot-desktop for the same device.
+   */
+  async listDisplays(): Promise<DisplayInfo[]> {
+    const script = `
+Add-Type -AssemblyName System.Windows.Forms
+$screens = @([System.Windows.Forms.Screen]::AllScreens | ForEach-Object {
+  @{
+    name = $_.DeviceName
+    primary = $_.Primary
+    bounds = @($_.Bounds.X, $_.Bounds.Y, $_.Bounds.Width, $_.Bounds.Height)
+    workArea = @($_.WorkingArea.X, $_.WorkingArea.Y, $_.WorkingArea.Width, $_.WorkingArea.Height)
+  }
+})
+ConvertTo-Json -InputObject $screens -Depth 3 -Compress
+`;
+    const dpiScales = new Map<string, number>();
+    try {
+      for (const d of await screenshot.listDisplays()) {
+        if (d.dpiScale != null) dpiScales.set(d.name, d.dpiScale);
+      }
+    } catch {
+      // DPI scale is optional
+    }
+
+    try {
+      const { stdout } = await execFileAsync('powershell', [...PS_FLAGS, script], { timeout: 15000 });
+      const screens = JSON.parse(stdout.trim()) as Array<{
+        name: string;
+        primary: boolean;
+        bounds: Region;
+        workArea: Region;
+      }>;
+      return screens.map((d, index) => ({
+        id: index,
+        name: d.name,
+        bounds: d.bounds,
+        workArea: d.workArea,
+        scaleFactor: dpiScales.get(d.name) ?? 1,
+        primary: d.primary,
+      }));
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to list displays: ${msg}`);
+    }
+  }
+}
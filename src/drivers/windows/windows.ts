@@ -0,0 +1,176 @@
+/**
+ * Windows Window Driver
+ * PowerShell + inline C# (Win32 P/Invoke).
+ */
+
+import type { WindowDriver } from '../types.js';
+import type { WindowInfo } from '../../types/index.js';
+import { execFileAsync, PS_FLAGS, escapePowerShell } from '../shell.js';
+
+export class WindowsWindowDriver implements WindowDriver {
+  async listWindows(): Promise<WindowInfo[]> {
+    return this.listWindowsWindows();
+  }
+
+  async focusWindow(titleOrId: string | number): Promise<void> {
+    return this.focusWindowWindows(String(titleOrId));
+  }
+
+  private async listWindowsWindows(): Promise<WindowInfo[]> {
+    // PowerShell + inline C# using P/Invoke for window enumeration
+    const script = `
+Add-Type @'
+using System;
+using System.Collections.Generic;
+using System.Diagnostics;
+using System.Runtime.InteropServices;
+using System.Text;
+
+public class WindowEnum {
+    [DllImport("user32.dll")]
+    static extern bool EnumWindows(EnumWindowsProc lpEnumFunc, IntPtr lParam);
+
+    [DllImport("user32.dll", CharSet = CharSet.Unicode)]
+    static extern int GetWindowText(IntPtr hWnd, StringBuilder lpString, int nMaxCount);
+
+    [DllImport("user32.dll")]
+    static extern bool GetWindowRect(IntPtr hWnd, out RECT lpRect);
+
+    [DllImport("user32.dll")]
+    static extern IntPtr GetForegroundWindow();
+
+    [DllImport("user32.dll")]
+    static extern uint GetWindowThreadProcessId(IntPtr hWnd, out uint lpdwProcessId);
+
+    [DllImport("user32.dll")]
+    static extern bool IsWindowVisible(IntPtr hWnd);
+
+    delegate bool EnumWindowsProc(IntPtr hWnd, IntPtr lParam);
+
+    [StructLayout(LayoutKind.Sequential)]
+    struct RECT { public int Left, Top, Right, Bottom; }
+
+    public static string ListWindows() {
+        var results = new List<string>();
+        IntPtr fg = GetForegroundWindow();
+
+        EnumWindows((hWnd, lParam) => {
+            if (!IsWindowVisible(hWnd)) return true;
+
+            var sb = new StringBuilder(256);
+            GetWindowText(hWnd, sb, sb.Capacity);
+            string title = sb.ToString();
+            if (string.IsNullOrEmpty(title)) return true;
+
+            RECT rect;
+            GetWindowRect(hWnd, out rect);
+
+            uint pid;
+            GetWindowThreadProcessId(hWnd, out pid);
+            string procName = "";
+            try { procName = Process.GetProcessById((int)pid).ProcessName; } catch {}
+
+            bool focused = hWnd == fg;
+            int w = rect.Right - rect.Left;
+            int h = rect.Bottom - rect.Top;
+
+            results.Add(string.Format(
+                "{{\\"processName\\":\\"{0}\\",\\"title\\":\\"{1}\\",\\"x\\":{2},\\"y\\":{3},\\"width\\":{4},\\"height\\":{5},\\"isFocused\\":{6},\\"windowId\\":{7}}}",
+                procName.Replace("\\\\","\\\\\\\\").Replace("\\"","\\\\\\""),
+                title.Replace("\\\\","\\\\\\\\").Replace("\\"","\\\\\\""),
+                rect.Left, rect.Top, w, h,
+                focused.ToString().ToLower(),
+                (int)hWnd
+            ));
+
+            return true;
+        }, IntPtr.Zero);
+
+        return "[" + string.Join(",", results) + "]";
+    }
+}
+'@
+Write-Output ([WindowEnum]::ListWindows())
+`;
+
+    try {
+      const { stdout } = await execFileAsync('powershell', [...PS_FLAGS, script], {
+        timeout: 30000,
+      });
+
+      const trimmed = stdout.trim();
+      if (!trimmed || trimmed === '[]') return [];
+
+      const entries = JSON.parse(trimmed) as Array<{
+        processName: string;
+        title: string;
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+        isFocused: boolean;
+        windowId: number;
+      }>;
+
+      return entries.map((entry, index) => ({
+        id: entry.windowId || index,
+        processName: entry.processName,
+        title: entry.title,
+        x: entry.x,
+        y: entry.y,
+        width: entry.width,
+        height: entry.height,
+        isFocused: entry.isFocused,
+      }));
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to list windows: ${msg}`);
+    }
+  }
+
+  private async focusWindowWindows(title: string): Promise<void> {
+    const safe = escapePowerShell(title);
+
+    const script = `
+Add-Type @'
+using System;
+using System.Runtime.InteropServices;
+
+public class WindowFocus {
+    [DllImport("user32.dll")]
+    public static extern bool SetForegroundWindow(IntPtr hWnd);
+
+    [DllImport("user32.dll")]
+    public static extern bool ShowWindow(IntPtr hWnd, int nCmdShow);
+
+    public const int SW_RESTORE = 9;
+}
+'@
+
+$proc = Get-Process | Where-Object { $_.MainWindowTitle -like '*${safe}*' -and $_.MainWindowHandle -ne 0 } | Select-Object -First 1
+if ($proc) {
+    [WindowFocus]::ShowWindow($proc.MainWindowHandle, [WindowFocus]::SW_RESTORE)
+    [WindowFocus]::SetForegroundWindow($proc.MainWindowHandle)
+    Write-Output 'focused'
+} else {
+    Write-Output 'not found'
+}
+`;
+
+    try {
+      const { stdout } = await execFileAsync('powershell', [...PS_FLAGS, script], {
+        timeout: 10000,
+      });
+
+      if (stdout.trim() === 'not found') {
+        throw new Error(`Window with title containing "${title}" not found`);
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes('not found')) {
+        throw error;
+      }
+      throw new Error(`Failed to focus window: ${msg}`);
+    }
+  }
+}
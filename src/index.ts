@@ -10,12 +10,25 @@
  * Usage:
  *   codriver-mcp              Start with stdio transport (default)
  *   codriver-mcp --http       Start with HTTP transport (remote)
+ *   codriver-mcp --driver X   Use platform driver X instead of auto-detection
+ *   codriver-mcp replay FILE  Replay a recorded macro and exit
  *   codriver-mcp --help       Show help
  */
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
 import { createServer } from './server.js';
+import { ocrEngine } from './modules/ocr-engine.js';
 import { startHttpTransport } from './transport/streamable-http.js';
+import {
+  listDrivers,
+  loadDriverModule,
+  setActiveDriver,
+  getActiveDriver,
+  loadVirtualScenario,
+  resetVirtualDesktop,
+} from './drivers/index.js';
 
 interface CliArgs {
   help: boolean;
@@ -24,6 +37,15 @@ interface CliArgs {
   port: number;
   host: string;
   apiKey?: string;
+  driver?: string;
+  driverModules: string[];
+  listDrivers: boolean;
+  virtualScenario?: string;
+  ocrLangPath?: string;
+  ocrWorkers?: number;
+  ocrWarmup: string[];
+  recordMacro?: string;
+  replay?: string;
 }
 
 function parseArgs(argv: string[]): CliArgs {
@@ -33,10 +55,22 @@ function parseArgs(argv: string[]): CliArgs {
     http: false,
     port: 3100,
     host: '127.0.0.1',
+    driverModules: [],
+    listDrivers: false,
+    ocrWarmup: ['eng'],
   };
 
   for (let i = 0; i < argv.length; i++) {
     const arg = argv[i];
+    // Read the value that follows a flag, e.g. the file after --record-macro
+    const value = (): string => {
+      const next = argv[++i];
+      if (next === undefined) {
+        console.error(`Missing value for ${arg}. Run codriver-mcp --help for usage.`);
+        process.exit(1);
+      }
+      return next;
+    };
     switch (arg) {
       case '--help':
       case '-h':
@@ -50,14 +84,43 @@ function parseArgs(argv: string[]): CliArgs {
         args.http = true;
         break;
       case '--port':
-        args.port = parseInt(argv[++i], 10);
+        args.port = parseInt(value(), 10);
         break;
       case '--host':
-        args.host = argv[++i];
+        args.host = value();
         break;
       case '--api-key':
-        args.apiKey = argv[++i];
+        args.apiKey = value();
+        break;
+      case '--driver':
+        args.driver = value();
+        break;
+      case '--driver-module':
+        args.driverModules.push(value());
+        break;
+      case '--list-drivers':
+        args.listDrivers = true;
+        break;
+      case '--virtual-scenario':
+        args.virtualScenario = value();
+        break;
+      case '--ocr-lang-path':
+        args.ocrLangPath = value();
+        break;
+      case '--ocr-workers':
+        args.ocrWorkers = parseInt(value(), 10);
+        break;
+      case '--record-macro':
+        args.recordMacro = value();
+        break;
+      case 'replay':
+        args.replay = value();
+        break;
+      case '--ocr-warmup': {
+        const langs = value();
+        args.ocrWarmup = langs === 'none' ? [] : langs.split(',').map((l) => l.trim()).filter(Boolean);
         break;
+      }
     }
   }
 
@@ -66,6 +129,14 @@ function parseArgs(argv: string[]): CliArgs {
     args.apiKey = process.env.CODRIVER_API_KEY;
   }
 
+  if (!args.driver && process.env.CODRIVER_DRIVER) {
+    args.driver = process.env.CODRIVER_DRIVER;
+  }
+
+  if (!args.ocrLangPath && process.env.CODRIVER_OCR_LANG_PATH) {
+    args.ocrLangPath = process.env.CODRIVER_OCR_LANG_PATH;
+  }
+
   return args;
 }
 
@@ -82,17 +153,39 @@ Usage:
   codriver-mcp --http --port 8080     Custom port (default: 3100)
   codriver-mcp --http --host 0.0.0.0  Bind to all interfaces
   codriver-mcp --http --api-key KEY   Require API key authentication
+  codriver-mcp --driver linux-x11     Use a specific platform driver
+  codriver-mcp --list-drivers         List available platform drivers
+  codriver-mcp --driver virtual --virtual-scenario desktop.json
+                                      Simulated desktop for testing
+  codriver-mcp --record-macro flow.yaml
+                                      Record every tool call to a macro
+  codriver-mcp replay flow.yaml       Replay a macro, exit 1 if a step fails
 
 Options:
   --http              Use HTTP/SSE transport instead of stdio
   --port <number>     Port for HTTP transport (default: 3100)
   --host <address>    Host to bind to (default: 127.0.0.1)
   --api-key <key>     API key for authentication (or set CODRIVER_API_KEY env var)
+  --driver <name>     Platform driver to use (default: auto-detect, or CODRIVER_DRIVER env var)
+  --driver-module <m> Load a third-party driver module (path or package, repeatable)
+  --list-drivers      List registered platform drivers and exit
+  --virtual-scenario <file>
+                      Initial windows/elements for the virtual driver (JSON)
+  --ocr-lang-path <dir>
+                      Load OCR traineddata from a local directory (offline) or URL
+  --ocr-workers <n>   OCR workers per language (default: 2)
+  --ocr-warmup <langs>
+                      Languages to load at startup, comma-separated or "none" (default: eng)
+  --record-macro <file>
+                      Record successful desktop_* calls as a replayable macro (JSON, or YAML for .yaml/.yml)
   --version, -v       Show version
   --help, -h          Show this help
 
 Environment Variables:
   CODRIVER_API_KEY    API key for HTTP transport authentication
+  CODRIVER_DRIVER     Platform driver to use (same as --driver)
+  CODRIVER_OCR_LANG_PATH
+                      OCR traineddata directory (same as --ocr-lang-path)
 
 Configuration in Claude Code (~/.claude/settings.json):
   {
@@ -124,8 +217,44 @@ Remote Configuration (HTTP transport):
     process.exit(0);
   }
 
+  // Register third-party drivers before selecting one
+  for (const specifier of args.driverModules) {
+    await loadDriverModule(specifier);
+  }
+
+  if (args.listDrivers) {
+    for (const driver of listDrivers()) {
+      const marker = driver.isSupported() ? '*' : ' ';
+      console.log(`[${marker}] ${driver.name.padEnd(12)} ${driver.description}`);
+    }
+    process.exit(0);
+  }
+
+  if (args.virtualScenario) {
+    resetVirtualDesktop(loadVirtualScenario(args.virtualScenario));
+  }
+
+  setActiveDriver(args.driver);
+  console.error(`CoDriver platform driver: ${getActiveDriver().name}`);
+
+  await ocrEngine.configure({ langPath: args.ocrLangPath, maxWorkers: args.ocrWorkers });
+  if (args.replay) {
+    process.exit(await replay(args.replay));
+  }
+
+  if (args.ocrWarmup.length > 0) {
+    // Load language data in the background; OCR tools retry (and report errors) on first use
+    ocrEngine.warmUp(args.ocrWarmup).catch((error: unknown) => {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.error(`OCR warm-up failed: ${msg}`);
+    });
+  }
+
   // Create MCP server with all tools
-  const server = createServer();
+  const server = createServer({ recordMacro: args.recordMacro });
+  if (args.recordMacro) {
+    console.error(`Recording tool calls to ${args.recordMacro}`);
+  }
 
   if (args.http) {
     // HTTP/SSE transport for remote access
@@ -142,6 +271,31 @@ Remote Configuration (HTTP transport):
   }
 }
 
+/**
+ * Run a macro through an in-process MCP client, printing the step log. Returns the exit code.
+ */
+async function replay(file: string): Promise<number> {
+  const server = createServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'codriver-replay', version: '0.5.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  const result = await client.callTool({ name: 'desktop_run_macro', arguments: { file } }, undefined, {
+    // Long macros (waits, OCR) outlast the default request timeout
+    timeout: 24 * 60 * 60_000,
+  });
+  const content = result.content as Array<{ type: string; text?: string }>;
+  const text = content.map((c) => c.text ?? '').join('\n');
+  if (result.isError) {
+    console.error(text);
+  } else {
+    console.log(text);
+  }
+  await ocrEngine.shutdown();
+  await client.close();
+  return result.isError ? 1 : 0;
+}
+
 main().catch((error: unknown) => {
   console.error('Fatal error:', error);
   process.exit(1);
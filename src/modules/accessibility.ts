@@ -1,25 +1,26 @@
 /**
  * Accessibility Module
- * macOS: JXA (JavaScript for Automation) via osascript
- * Windows: UI Automation via PowerShell + inline C# (System.Windows.Automation)
+ * Raw trees come from the active platform driver:
+ * JXA/osascript (macOS), UI Automation via PowerShell (Windows), AT-SPI2 (Linux).
  * Provides UI element enumeration with ref IDs for programmatic interaction.
+ * Refs are hashes of element identity (runtime ID, or role/name/ancestry path) and stay valid across reads.
  */
 
-import { execFile } from 'node:child_process';
-import { promisify } from 'node:util';
-import type { UIElement, ReadUIOptions, RawUIElement, Region } from '../types/index.js';
-
-const execFileAsync = promisify(execFile);
-
-/** PowerShell flags for safe, non-interactive execution */
-const PS_FLAGS = ['-NoProfile', '-NonInteractive', '-ExecutionPolicy', 'Bypass', '-Command'];
-
-/** Escape a string for use inside PowerShell single-quoted strings */
-function escapePowerShell(str: string): string {
-  return str.replace(/'/g, "''");
-}
-
-/** Interactive roles that are typically actionable (macOS AX + Windows UIA) */
+import { createHash } from 'node:crypto';
+import { getActiveDriver } from '../drivers/index.js';
+import { querySelector } from './selector.js';
+import type {
+  UIElement,
+  ReadUIOptions,
+  RawUIElement,
+  Region,
+  ElementLocator,
+  UIElementDelta,
+  UITreeDiff,
+  UITreePage,
+} from '../types/index.js';
+
+/** Interactive roles that are typically actionable (macOS AX + Windows UIA + Linux AT-SPI) */
 const INTERACTIVE_ROLES = new Set([
   // macOS AX roles
   'AXButton', 'AXCheckBox', 'AXRadioButton', 'AXTextField', 'AXTextArea',
@@ -32,341 +33,505 @@ const INTERACTIVE_ROLES = new Set([
   'Hyperlink', 'Tab', 'TabItem', 'MenuItem', 'Menu', 'MenuBar',
   'ToolBar', 'List', 'ListItem', 'Table', 'Tree', 'TreeItem',
   'DataGrid', 'DataItem', 'ScrollBar', 'Spinner',
+  // Linux AT-SPI role names (Atspi.Accessible.get_role_name)
+  'push button', 'toggle button', 'check box', 'radio button', 'text', 'entry',
+  'password text', 'combo box', 'slider', 'spin button', 'link', 'page tab',
+  'page tab list', 'menu item', 'check menu item', 'radio menu item', 'menu',
+  'menu bar', 'tool bar', 'list', 'list item', 'table', 'tree', 'tree table',
+  'tree item', 'table cell', 'scroll bar', 'split button',
 ]);
 
+/** Windows whose elements stay cached: the most recently read ones */
+const MAX_CACHED_WINDOWS = 20;
+/** Reads after which the ref of a removed element is forgotten (and reported as not found instead of gone) */
+const GONE_REF_READS = 50;
+
+/** Element of a tree snapshot, stored without its children */
+interface SnapshotEntry {
+  element: UIElement;
+  parent?: string;
+}
+
+/** Flatten a window's tree into snapshot entries by ref, in reading order (parents first) */
+function snapshotOf(root: UIElement): Map<string, SnapshotEntry> {
+  const entries = new Map<string, SnapshotEntry>();
+  const visit = (el: UIElement, parent?: string) => {
+    const { children, ...element } = el;
+    entries.set(el.ref, { element, parent });
+    children?.forEach((child) => visit(child, el.ref));
+  };
+  visit(root);
+  return entries;
+}
+
+/** Entries of one snapshot missing from another, one delta per missing subtree */
+function deltas(from: Map<string, SnapshotEntry>, to: Map<string, SnapshotEntry>): UIElementDelta[] {
+  const result: UIElementDelta[] = [];
+  const owners = new Map<string, UIElementDelta>();
+  for (const [ref, entry] of from) {
+    if (to.has(ref)) continue;
+    const owner = entry.parent ? owners.get(entry.parent) : undefined;
+    if (owner) {
+      owner.descendants++;
+      owners.set(ref, owner);
+    } else {
+      const delta = { element: entry.element, descendants: 0 };
+      result.push(delta);
+      owners.set(ref, delta);
+    }
+  }
+  return result;
+}
+
+function formatBounds([x, y, w, h]: Region): string {
+  return `(${x},${y}) ${w}x${h}`;
+}
+
+/** True if a value read back equals the value written, numerically for numbers ("50" and "50.0") */
+function sameValue(written: string, read: string): boolean {
+  if (written === read) return true;
+  const a = Number(written);
+  const b = Number(read);
+  return written.trim() !== '' && read.trim() !== '' && !Number.isNaN(a) && !Number.isNaN(b)
+    && Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a));
+}
+
+/** Raw elements of a read in reading order (parents before children), as drivers count them */
+function flattenRaw(elements: RawUIElement[]): RawUIElement[] {
+  return elements.flatMap((el) => (el && !el.skipped ? [el, ...flattenRaw(el.children ?? [])] : []));
+}
+
+/** Opaque cursor for the page of a read that starts at offset */
+function encodeCursor(options: ReadUIOptions, offset: number): string {
+  return Buffer.from(JSON.stringify({ ...options, offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { options: ReadUIOptions; offset: number } {
+  try {
+    const { offset, ...options } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(offset) && offset >= 0) return { options, offset };
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor "${cursor}". Pass the cursor of an earlier desktop_read_ui result unchanged.`);
+}
+
+/** Short, stable ref ID for an element identity */
+function refFor(identity: string): string {
+  return `ref_${createHash('sha1').update(identity).digest('hex').slice(0, 8)}`;
+}
+
 export class AccessibilityReader {
-  /** Cache of last-read elements by ref ID for click/type interactions */
-  private _elementCache = new Map<string, UIElement>();
-  private _refCounter = 0;
+  /** Elements of the latest read, per root (top-level window) identity, for click/type interactions */
+  private _rootCaches = new Map<string, Map<string, UIElement>>();
+  /** Refs handed out, mapped to their root and the read that last returned them, to tell "gone" from "never existed" */
+  private _issuedRefs = new Map<string, { root: string; read: number }>();
+  /** Reads so far */
+  private _reads = 0;
+  /** Roots returned by the latest read of each windowTitle query */
+  private _queryRoots = new Map<string, string[]>();
+  /** Refs of elements with an actionable platform role */
+  private _interactiveRefs = new Set<string>();
+  /** Where the driver finds each element again, for native actions */
+  private _locators = new Map<string, ElementLocator>();
+  /** Identity of each ref, to derive the same refs when a subtree is read on its own */
+  private _identities = new Map<string, string>();
+  /** Trees of the latest readUISnapshot per root ref, depth and filter: the baseline of the next diff */
+  private _snapshots = new Map<string, Map<string, SnapshotEntry>>();
+  /** Snapshot keys of the roots returned by the latest readUISnapshot of each windowTitle query */
+  private _snapshotRoots = new Map<string, string[]>();
 
   /**
-   * Read the accessibility tree of a window or the frontmost app.
+   * Read the accessibility tree of a window or the frontmost app (the first page with maxElements).
+   * Refs are derived from each element's identity, so the same control keeps its ref across reads.
    */
   async readUI(options: ReadUIOptions = {}): Promise<UIElement[]> {
-    const { windowTitle, depth = 10, filter = 'all' } = options;
+    return (await this.readUIPage(options)).elements;
+  }
+
+  /**
+   * Read one page of a tree: the maxElements elements from the cursor's position in reading order
+   * (from the start without a cursor), under the ancestors they need. A cursor carries the options of
+   * its read, so a continued read takes no others. The driver stops walking after the requested page.
+   */
+  async readUIPage(options: ReadUIOptions = {}, cursor?: string): Promise<UITreePage> {
+    let offset = 0;
+    if (cursor) ({ options, offset } = decodeCursor(cursor));
+    const { windowTitle, depth = 10, filter = 'all', rootRef, maxElements, maxChildren, skipOffscreen } = options;
+
+    const driver = getActiveDriver();
+    if (!driver.accessibility) {
+      throw new Error(`Accessibility reading not implemented by driver "${driver.name}".`);
+    }
+    const read = ++this._reads;
+    const locator = rootRef ? this._locators.get(rootRef) : undefined;
+    const identity = rootRef ? this._identities.get(rootRef) : undefined;
+    if (rootRef && (!this.getElementByRef(rootRef) || !locator || !identity)) {
+      throw new Error(this.describeMissingRef(rootRef));
+    }
 
-    let rawTree: RawUIElement[];
-    if (process.platform === 'darwin') {
-      rawTree = await this.readTreeJXA(windowTitle, depth);
-    } else if (process.platform === 'win32') {
-      rawTree = await this.readTreeUIA(windowTitle, depth);
+    // One element past the page tells whether another page follows
+    const queryTitle = locator ? locator.windowTitle : windowTitle;
+    const rawTree: RawUIElement[] = await driver.accessibility.readTree(queryTitle, depth, {
+      ...(locator ? { root: locator } : {}),
+      ...(maxElements != null ? { maxElements: offset + maxElements + 1 } : {}),
+      ...(maxChildren != null ? { maxChildren } : {}),
+      ...(skipOffscreen ? { skipOffscreen } : {}),
+    });
+
+    const ordered = flattenRaw(rawTree);
+    const end = maxElements != null ? offset + maxElements : ordered.length;
+    const page = maxElements != null ? new Set(ordered.slice(offset, end)) : undefined;
+    const more = ordered.length > end;
+
+    let elements: UIElement[];
+    if (rootRef && locator && identity) {
+      // The subtree's elements join the cache of its window
+      const rootKey = this._issuedRefs.get(rootRef)!.root;
+      const cache = this._rootCaches.get(rootKey)!;
+      const element = rawTree[0]
+        ? this.processElement(rawTree[0], identity, filter, cache, { windowTitle: locator.windowTitle, path: locator.path }, page)
+        : null;
+      for (const ref of cache.keys()) {
+        this._issuedRefs.set(ref, { root: rootKey, read });
+      }
+      elements = element ? [element] : [];
     } else {
-      throw new Error(`Accessibility reading not implemented for ${process.platform}.`);
+      // A read cut short by maxElements does not show which elements are gone
+      const assigned = this.assignRefs(rawTree, filter, windowTitle, read, page, more);
+      elements = assigned.elements;
+
+      // A window that a titled read no longer returns has closed: drop its elements
+      if (windowTitle) {
+        for (const root of this._queryRoots.get(windowTitle) ?? []) {
+          if (!assigned.roots.includes(root)) this._rootCaches.delete(root);
+        }
+        this._queryRoots.set(windowTitle, assigned.roots);
+      }
+    }
+    this.prune(read);
+
+    return {
+      elements,
+      offset,
+      count: Math.max(0, Math.min(end, ordered.length) - offset),
+      ...(more ? { cursor: encodeCursor(options, end) } : {}),
+    };
+  }
+
+  /**
+   * Read like readUI, compare every window with its tree from the previous readUISnapshot and keep
+   * this read as the new baseline. Other reads (desktop_find, waits) leave the baseline alone, so a diff
+   * covers everything since the agent last looked. Reads of another depth or filter keep their own baseline.
+   */
+  async readUISnapshot(options: ReadUIOptions = {}): Promise<{ elements: UIElement[]; diff: UITreeDiff }> {
+    const elements = await this.readUI(options);
+    return { elements, diff: this.updateSnapshot(elements, options) };
+  }
+
+  /**
+   * Compare the elements of a complete read with the previous snapshot and keep them as the new one.
+   */
+  updateSnapshot(elements: UIElement[], options: ReadUIOptions): UITreeDiff {
+    const diff: UITreeDiff = { added: [], removed: [], changed: [], unseen: [] };
+    // Root elements carry their root key (or rootRef) as ref
+    const { depth = 10, filter = 'all', maxChildren = '', skipOffscreen = false } = options;
+    const keyOf = (root: string) => `${root}@${depth}/${filter}/${maxChildren}/${skipOffscreen}`;
+
+    for (const root of elements) {
+      const current = snapshotOf(root);
+      const previous = this._snapshots.get(keyOf(root.ref));
+      // Re-inserted, so the most recent snapshots come last
+      this._snapshots.delete(keyOf(root.ref));
+      this._snapshots.set(keyOf(root.ref), current);
+      if (!previous) {
+        diff.unseen.push(root);
+        continue;
+      }
+
+      diff.added.push(...deltas(current, previous));
+      diff.removed.push(...deltas(previous, current));
+      for (const [ref, { element }] of current) {
+        const before = previous.get(ref)?.element;
+        const changes = before ? this.changesOf(before, element) : [];
+        if (changes.length > 0) diff.changed.push({ element, changes });
+      }
     }
 
-    // Reset ref counter and cache for each read
-    this._refCounter = 0;
-    this._elementCache.clear();
+    // A window that a titled read no longer returns has closed
+    if (options.windowTitle && !options.rootRef) {
+      const roots = elements.map((el) => keyOf(el.ref));
+      const query = keyOf(options.windowTitle);
+      for (const root of this._snapshotRoots.get(query) ?? []) {
+        const previous = this._snapshots.get(root);
+        if (roots.includes(root) || !previous) continue;
+        diff.removed.push(...deltas(previous, new Map()));
+        this._snapshots.delete(root);
+      }
+      this._snapshotRoots.set(query, roots);
+    }
+
+    this.pruneSnapshots();
+    return diff;
+  }
 
-    const elements = this.assignRefs(rawTree, filter);
-    return elements;
+  /**
+   * Drop the snapshots of roots no longer cached (evicted windows, vanished rootRef elements) and all but the
+   * MAX_CACHED_WINDOWS most recent ones, which also bounds the baselines kept per depth, filter and limits.
+   */
+  private pruneSnapshots(): void {
+    const keys = [...this._snapshots.keys()];
+    for (const [index, key] of keys.entries()) {
+      if (index < keys.length - MAX_CACHED_WINDOWS || !this.getElementByRef(key.slice(0, key.indexOf('@')))) {
+        this._snapshots.delete(key);
+      }
+    }
+    for (const [query, roots] of this._snapshotRoots) {
+      if (!roots.some((root) => this._snapshots.has(root))) this._snapshotRoots.delete(query);
+    }
   }
 
   /**
    * Look up a cached element by its ref ID.
    */
   getElementByRef(ref: string): UIElement | undefined {
-    return this._elementCache.get(ref);
+    const root = this._issuedRefs.get(ref)?.root;
+    return root ? this._rootCaches.get(root)?.get(ref) : undefined;
   }
 
   /**
    * Get the center coordinate of an element by ref.
    */
   getElementCenter(ref: string): [number, number] | undefined {
-    const el = this._elementCache.get(ref);
+    const el = this.getElementByRef(ref);
     if (!el) return undefined;
     const [x, y, w, h] = el.bounds;
     return [Math.round(x + w / 2), Math.round(y + h / 2)];
   }
 
-  // --- macOS JXA Implementation ---
-
-  private async readTreeJXA(windowTitle: string | undefined, maxDepth: number): Promise<RawUIElement[]> {
-    const safeTitle = windowTitle?.replace(/'/g, "\\'") ?? '';
-
-    const script = `
-      ObjC.import('stdlib');
-
-      const systemEvents = Application('System Events');
-      var targetProcess = null;
-      ${windowTitle ? `
-      // First try matching by process name
-      var byName = systemEvents.processes.whose({ name: { _contains: '${safeTitle}' } });
-      if (byName.length > 0) {
-        targetProcess = byName[0];
-      } else {
-        // Fallback: search window titles across all processes
-        var allProcs = systemEvents.processes();
-        for (var pi = 0; pi < allProcs.length; pi++) {
-          try {
-            var wins = allProcs[pi].windows();
-            for (var wi = 0; wi < wins.length; wi++) {
-              try {
-                var wTitle = wins[wi].name();
-                if (wTitle && wTitle.indexOf('${safeTitle}') !== -1) {
-                  targetProcess = allProcs[pi];
-                  break;
-                }
-              } catch(e) {}
-            }
-            if (targetProcess) break;
-          } catch(e) {}
-        }
-      }
-      ` : `
-      targetProcess = systemEvents.processes.whose({ frontmost: true })[0];
-      `}
-
-      function readElement(elem, depth, maxDepth) {
-        if (depth > maxDepth) return null;
-        try {
-          var role = null, title = null, desc = null, val = null, enabled = null;
-          var pos = null, sz = null;
-
-          try { role = elem.role(); } catch(e) {}
-          try { title = elem.title(); } catch(e) {}
-          try { desc = elem.description(); } catch(e) {}
-          try { val = elem.value(); if (typeof val === 'object') val = String(val); } catch(e) {}
-          try { enabled = elem.enabled(); } catch(e) {}
-          try { pos = elem.position(); } catch(e) {}
-          try { sz = elem.size(); } catch(e) {}
-
-          var children = [];
-          if (depth < maxDepth) {
-            try {
-              var uiElems = elem.uiElements();
-              for (var i = 0; i < uiElems.length; i++) {
-                var child = readElement(uiElems[i], depth + 1, maxDepth);
-                if (child) children.push(child);
-              }
-            } catch(e) {}
-          }
-
-          return {
-            role: role,
-            title: title,
-            description: desc,
-            value: val,
-            enabled: enabled,
-            position: pos ? [pos[0], pos[1]] : null,
-            size: sz ? [sz[0], sz[1]] : null,
-            children: children
-          };
-        } catch(e) {
-          return null;
-        }
-      }
+  /**
+   * True if the ref was handed out by an earlier read but its window has since been
+   * re-read without it (the control was removed or the window closed).
+   */
+  isElementGone(ref: string): boolean {
+    return this._issuedRefs.has(ref) && !this.getElementByRef(ref);
+  }
 
-      var results = [];
-      if (targetProcess) {
-        try {
-          var windows = targetProcess.windows();
-          for (var w = 0; w < windows.length; w++) {
-            var winElem = readElement(windows[w], 0, ${maxDepth});
-            if (winElem) results.push(winElem);
-          }
-        } catch(e) {
-          // If window access fails, try UI elements directly
-          try {
-            var uiElems = targetProcess.uiElements();
-            for (var u = 0; u < uiElems.length; u++) {
-              var elem = readElement(uiElems[u], 0, ${maxDepth});
-              if (elem) results.push(elem);
-            }
-          } catch(e2) {}
-        }
-      }
+  /**
+   * Error text for a ref that does not resolve, distinguishing stale refs from unknown ones.
+   */
+  describeMissingRef(ref: string): string {
+    return this.isElementGone(ref)
+      ? `Element "${ref}" is gone: it was not present in the latest read of its window. Run desktop_read_ui again.`
+      : `Element "${ref}" not found. Run desktop_read_ui first.`;
+  }
 
-      JSON.stringify(results);
-    `;
-
-    try {
-      const { stdout } = await execFileAsync('osascript', ['-l', 'JavaScript', '-e', script], {
-        maxBuffer: 10 * 1024 * 1024,
-        timeout: 60000,
-      });
-
-      const trimmed = stdout.trim();
-      if (!trimmed) return [];
-      return JSON.parse(trimmed) as RawUIElement[];
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      if (msg.includes('not allowed assistive access') || msg.includes('accessibility')) {
-        throw new Error(
-          'Accessibility permissions not granted. ' +
-          'Go to System Settings > Privacy & Security > Accessibility and enable your terminal app.'
-        );
+  /**
+   * Invoke a native accessibility action on a cached element (AXPress, UIA Invoke/Toggle/..., AT-SPI actions),
+   * the element's default one unless an action is named. Returns the action performed, or undefined when
+   * the element exposes none (or the driver cannot invoke actions), so the caller can click it instead.
+   */
+  async performAction(ref: string, action?: string): Promise<string | undefined> {
+    const element = this.getElementByRef(ref);
+    const locator = this._locators.get(ref);
+    if (!element || !locator) {
+      throw new Error(this.describeMissingRef(ref));
+    }
+    if (element.enabled === false) {
+      throw new Error(`Element "${ref}" (${element.role} "${element.name}") is disabled.`);
+    }
+
+    const driver = getActiveDriver();
+    if (!driver.accessibility?.performAction) {
+      if (action) {
+        throw new Error(`Accessibility actions not implemented by driver "${driver.name}".`);
       }
-      throw new Error(`Failed to read accessibility tree: ${msg}`);
+      return undefined;
     }
+    return driver.accessibility.performAction(locator, action);
   }
 
-  // --- Windows UIA Implementation ---
-
-  private async readTreeUIA(windowTitle: string | undefined, maxDepth: number): Promise<RawUIElement[]> {
-    const safeTitle = windowTitle ? escapePowerShell(windowTitle) : '';
-
-    // PowerShell + inline C# using System.Windows.Automation
-    const script = `
-Add-Type -AssemblyName UIAutomationClient
-Add-Type -AssemblyName UIAutomationTypes
-Add-Type @'
-using System;
-using System.Collections.Generic;
-using System.Windows.Automation;
-using System.Runtime.InteropServices;
-
-public class UIAReader {
-    [DllImport("user32.dll")]
-    static extern IntPtr GetForegroundWindow();
-
-    public static string ReadTree(string windowTitle, int maxDepth) {
-        AutomationElement root;
-
-        if (string.IsNullOrEmpty(windowTitle)) {
-            // Get foreground window
-            IntPtr hwnd = GetForegroundWindow();
-            root = AutomationElement.FromHandle(hwnd);
-        } else {
-            // Find window by title substring
-            var desktop = AutomationElement.RootElement;
-            root = null;
-
-            var windows = desktop.FindAll(TreeScope.Children, Condition.TrueCondition);
-            foreach (AutomationElement win in windows) {
-                try {
-                    string name = win.Current.Name ?? "";
-                    if (name.IndexOf(windowTitle, StringComparison.OrdinalIgnoreCase) >= 0) {
-                        root = win;
-                        break;
-                    }
-                } catch {}
-            }
-
-            if (root == null) return "[]";
-        }
-
-        var results = new List<string>();
-        string json = ReadElement(root, 0, maxDepth);
-        if (json != null) results.Add(json);
-        return "[" + string.Join(",", results) + "]";
+  /**
+   * Write a cached element's value through the platform value API (AXValue, UIA ValuePattern/RangeValuePattern,
+   * AT-SPI EditableText/Value) instead of typing it, then re-read the element to verify it.
+   * The cached element takes the value read back.
+   */
+  async setValue(ref: string, value: string): Promise<{ value?: string; verified: boolean }> {
+    const element = this.getElementByRef(ref);
+    const locator = this._locators.get(ref);
+    if (!element || !locator) {
+      throw new Error(this.describeMissingRef(ref));
+    }
+    if (element.enabled === false) {
+      throw new Error(`Element "${ref}" (${element.role} "${element.name}") is disabled.`);
     }
 
-    static string ReadElement(AutomationElement elem, int depth, int maxDepth) {
-        if (elem == null || depth > maxDepth) return null;
-
-        try {
-            var current = elem.Current;
-            string role = "Unknown";
-            if (current.ControlType != null && current.ControlType.ProgrammaticName != null)
-                role = current.ControlType.ProgrammaticName.Replace("ControlType.", "");
-            string title = (current.Name != null ? current.Name : "").Replace("\\\\", "\\\\\\\\").Replace("\\"", "\\\\\\"");
-            string desc = "";
-            try { string ht = current.HelpText; if (ht != null) desc = ht.Replace("\\\\", "\\\\\\\\").Replace("\\"", "\\\\\\""); } catch {}
-            bool enabled = current.IsEnabled;
-
-            string val = null;
-            try {
-                object pattern;
-                if (elem.TryGetCurrentPattern(ValuePattern.Pattern, out pattern)) {
-                    val = ((ValuePattern)pattern).Current.Value;
-                }
-            } catch {}
-            string valJson = val != null
-                ? "\\"" + val.Replace("\\\\", "\\\\\\\\").Replace("\\"", "\\\\\\"") + "\\""
-                : "null";
-
-            var rect = current.BoundingRectangle;
-            string posJson = !rect.IsEmpty
-                ? string.Format("[{0},{1}]", (int)rect.X, (int)rect.Y)
-                : "null";
-            string sizeJson = !rect.IsEmpty
-                ? string.Format("[{0},{1}]", (int)rect.Width, (int)rect.Height)
-                : "null";
-
-            // Read children
-            var childJsons = new List<string>();
-            if (depth < maxDepth) {
-                try {
-                    var children = elem.FindAll(TreeScope.Children, Condition.TrueCondition);
-                    foreach (AutomationElement child in children) {
-                        string childJson = ReadElement(child, depth + 1, maxDepth);
-                        if (childJson != null) childJsons.Add(childJson);
-                    }
-                } catch {}
-            }
-
-            return string.Format(
-                "{{\\"role\\":\\"{0}\\",\\"title\\":\\"{1}\\",\\"description\\":{2},\\"value\\":{3},\\"enabled\\":{4},\\"position\\":{5},\\"size\\":{6},\\"children\\":[{7}]}}",
-                role, title,
-                string.IsNullOrEmpty(desc) ? "null" : "\\"" + desc + "\\"",
-                valJson,
-                enabled ? "true" : "false",
-                posJson, sizeJson,
-                string.Join(",", childJsons)
-            );
-        } catch {
-            return null;
-        }
+    const driver = getActiveDriver();
+    if (!driver.accessibility?.setValue) {
+      throw new Error(`Setting values not implemented by driver "${driver.name}".`);
     }
-}
-'@ -ReferencedAssemblies UIAutomationClient, UIAutomationTypes, WindowsBase
-Write-Output ([UIAReader]::ReadTree('${safeTitle}', ${maxDepth}))
-`;
-
-    try {
-      const { stdout } = await execFileAsync('powershell', [...PS_FLAGS, script], {
-        maxBuffer: 10 * 1024 * 1024,
-        timeout: 60000,
-      });
-
-      const trimmed = stdout.trim();
-      if (!trimmed || trimmed === '[]') return [];
-      return JSON.parse(trimmed) as RawUIElement[];
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to read accessibility tree: ${msg}`);
+    const current = await driver.accessibility.setValue(locator, value);
+    if (current == null) {
+      return { verified: false };
+    }
+    element.value = current;
+    return { value: current, verified: sameValue(value, current) };
+  }
+
+  /**
+   * A selector that finds a cached element again in a later read (another session, after a restart):
+   * role and exact name, scoped to its window, with nth=N when that is ambiguous.
+   * Returns the selector with the window title to read, or undefined for an unknown ref.
+   */
+  selectorFor(ref: string): { selector: string; windowTitle?: string } | undefined {
+    const rootKey = this._issuedRefs.get(ref)?.root;
+    const cache = rootKey ? this._rootCaches.get(rootKey) : undefined;
+    const element = cache?.get(ref);
+    const root = rootKey ? cache?.get(rootKey) : undefined;
+    if (!element || !root) return undefined;
+
+    const compound = (el: UIElement) =>
+      el.name ? `${el.role}[name="${el.name.replace(/["\\]/g, '\\$&')}"]` : el.role;
+    if (element === root) {
+      return { selector: compound(root), windowTitle: root.name || undefined };
     }
+
+    const selector = `${compound(root)} ${compound(element)}`;
+    const matches = querySelector([root], selector);
+    const nth = matches.findIndex((el) => el.ref === ref) + 1;
+    return {
+      selector: matches.length > 1 && nth > 0 ? `${selector} nth=${nth}` : selector,
+      windowTitle: root.name || undefined,
+    };
+  }
+
+  /**
+   * Elements of a tree with an actionable role (buttons, fields, links, ...) and a non-empty
+   * size, flattened in reading order.
+   */
+  interactiveElements(elements: UIElement[]): UIElement[] {
+    const result: UIElement[] = [];
+    const collect = (els: UIElement[]) => {
+      for (const el of els) {
+        if (this._interactiveRefs.has(el.ref) && el.bounds[2] > 0 && el.bounds[3] > 0) {
+          result.push(el);
+        }
+        if (el.children) collect(el.children);
+      }
+    };
+    collect(elements);
+    return result;
   }
 
   /**
-   * Recursively assign ref IDs to raw elements and build the cache.
+   * Assign identity-derived ref IDs to raw elements and replace the cache of every root that was read
+   * (add to it, for a partial read). Roots not covered by this read (other windows) keep their cached elements.
+   * Returns the root keys alongside the elements.
    */
-  private assignRefs(rawElements: RawUIElement[], filter: 'interactive' | 'all'): UIElement[] {
+  private assignRefs(
+    rawElements: RawUIElement[],
+    filter: 'interactive' | 'all',
+    windowTitle: string | undefined,
+    read: number,
+    page?: Set<RawUIElement>,
+    partial = false,
+  ): { elements: UIElement[]; roots: string[] } {
     const result: UIElement[] = [];
+    const roots: string[] = [];
+    const siblings = new Map<string, number>();
+
+    for (const [index, raw] of rawElements.entries()) {
+      if (!raw) continue;
+      const identity = this.identityOf(raw, '', siblings);
+      const rootKey = refFor(identity);
+      const cache = (partial && this._rootCaches.get(rootKey)) || new Map<string, UIElement>();
+      const element = this.processElement(raw, identity, filter, cache, { windowTitle, path: [raw.index ?? index] }, page);
+
+      // Re-inserted, so the most recently read windows come last
+      this._rootCaches.delete(rootKey);
+      this._rootCaches.set(rootKey, cache);
+      roots.push(rootKey);
+      for (const ref of cache.keys()) {
+        this._issuedRefs.set(ref, { root: rootKey, read });
+      }
 
-    for (const raw of rawElements) {
-      const element = this.processElement(raw, filter);
       if (element) {
         result.push(element);
       }
     }
 
-    return result;
+    return { elements: result, roots };
+  }
+
+  /**
+   * Drop the caches of all but the MAX_CACHED_WINDOWS most recently read windows and the locators of
+   * elements no longer cached. Their refs are reported as gone until GONE_REF_READS reads later.
+   */
+  private prune(read: number): void {
+    for (const root of [...this._rootCaches.keys()].slice(0, -MAX_CACHED_WINDOWS)) {
+      this._rootCaches.delete(root);
+    }
+    for (const [ref, issued] of this._issuedRefs) {
+      if (this.getElementByRef(ref)) continue;
+      this._locators.delete(ref);
+      this._identities.delete(ref);
+      this._interactiveRefs.delete(ref);
+      if (read - issued.read >= GONE_REF_READS) this._issuedRefs.delete(ref);
+    }
   }
 
-  private processElement(raw: RawUIElement, filter: 'interactive' | 'all'): UIElement | null {
-    if (!raw) return null;
+  /**
+   * Stable identity of an element: its platform runtime ID when available, otherwise
+   * role + name + occurrence among identical siblings, appended to the parent's identity.
+   */
+  private identityOf(raw: RawUIElement, parentIdentity: string, siblings: Map<string, number>): string {
+    if (raw.runtimeId) {
+      return `rt:${raw.runtimeId}`;
+    }
+    const step = `${raw.role ?? ''}:${raw.title || raw.description || ''}`;
+    const nth = siblings.get(step) ?? 0;
+    siblings.set(step, nth + 1);
+    return `${parentIdentity}/${step}#${nth}`;
+  }
 
+  private processElement(
+    raw: RawUIElement,
+    identity: string,
+    filter: 'interactive' | 'all',
+    cache: Map<string, UIElement>,
+    location: { windowTitle: string | undefined; path: number[] },
+    page?: Set<RawUIElement>,
+  ): UIElement | null {
     const role = raw.role ?? 'AXUnknown';
     const isInteractive = INTERACTIVE_ROLES.has(role);
 
     // Process children first (depth-first)
     const children: UIElement[] = [];
+    // Children not read: offscreen ones (skipped) and those past maxChildren
+    let moreChildren = raw.childCount != null ? Math.max(0, raw.childCount - (raw.children?.length ?? 0)) : 0;
     if (raw.children) {
-      for (const child of raw.children) {
-        const processed = this.processElement(child, filter);
+      const siblings = new Map<string, number>();
+      for (const [index, child] of raw.children.entries()) {
+        if (!child) continue;
+        const childIdentity = this.identityOf(child, identity, siblings);
+        if (child.skipped) {
+          moreChildren++;
+          continue;
+        }
+        const processed = this.processElement(
+          child,
+          childIdentity,
+          filter,
+          cache,
+          { windowTitle: location.windowTitle, path: [...location.path, child.index ?? index] },
+          page,
+        );
         if (processed) {
           children.push(processed);
         }
       }
     }
 
-    // If filtering for interactive only, skip non-interactive elements without interactive children
-    if (filter === 'interactive' && !isInteractive && children.length === 0) {
-      return null;
-    }
-
     // Build bounds from position + size
     const bounds: Region = [
       raw.position?.[0] ?? 0,
@@ -375,29 +540,54 @@ Write-Output ([UIAReader]::ReadTree('${safeTitle}', ${maxDepth}))
       raw.size?.[1] ?? 0,
     ];
 
-    this._refCounter++;
-    const ref = `ref_${this._refCounter}`;
+    const ref = refFor(identity);
 
+    const name = raw.title || raw.description || '';
     const element: UIElement = {
       ref,
       role: this.friendlyRole(role),
-      name: raw.title || raw.description || '',
-      ...(raw.description && raw.title !== raw.description ? { description: raw.description } : {}),
+      name,
+      ...(raw.description && raw.title !== raw.description && raw.helpText !== raw.description
+        ? { description: raw.description }
+        : {}),
       ...(raw.value != null ? { value: String(raw.value) } : {}),
       ...(raw.enabled != null ? { enabled: raw.enabled } : {}),
+      ...(raw.focused != null ? { focused: raw.focused } : {}),
+      ...(raw.selected != null ? { selected: raw.selected } : {}),
+      ...(raw.checked != null ? { checked: raw.checked } : {}),
+      ...(raw.expanded != null ? { expanded: raw.expanded } : {}),
+      ...(raw.offscreen != null ? { offscreen: raw.offscreen } : {}),
+      ...(raw.shortcut ? { shortcut: raw.shortcut } : {}),
+      ...(raw.automationId ? { automationId: raw.automationId } : {}),
+      ...(raw.className ? { className: raw.className } : {}),
+      ...(raw.helpText && raw.helpText !== name ? { helpText: raw.helpText } : {}),
+      ...(raw.actions?.length ? { actions: raw.actions } : {}),
       bounds,
       ...(children.length > 0 ? { children } : {}),
+      ...(moreChildren > 0 ? { moreChildren } : {}),
     };
 
-    // Cache for ref-based interactions
-    this._elementCache.set(ref, element);
+    // Cache for ref-based interactions (also when filtered out, so the ref is not reported as gone)
+    cache.set(ref, element);
+    if (isInteractive) this._interactiveRefs.add(ref);
+    this._locators.set(ref, { ...location, role: raw.role, title: raw.title, runtimeId: raw.runtimeId });
+    this._identities.set(ref, identity);
+
+    // If filtering for interactive only, skip non-interactive elements without interactive children
+    if (filter === 'interactive' && !isInteractive && children.length === 0) {
+      return null;
+    }
+    // Outside the page, elements only appear as ancestors of the page's elements
+    if (page && !page.has(raw) && children.length === 0) {
+      return null;
+    }
 
     return element;
   }
 
   /**
    * Convert role names to human-friendly names.
-   * Supports both macOS AX roles and Windows UIA ControlType names.
+   * Supports macOS AX roles, Windows UIA ControlType names and Linux AT-SPI role names.
    */
   private friendlyRole(role: string): string {
     const map: Record<string, string> = {
@@ -485,6 +675,64 @@ Write-Output ([UIAReader]::ReadTree('${safeTitle}', ${maxDepth}))
       Calendar: 'datefield',
       Custom: 'custom',
       Unknown: 'unknown',
+      // Linux AT-SPI role names
+      frame: 'window',
+      window: 'window',
+      dialog: 'dialog',
+      alert: 'dialog',
+      'file chooser': 'dialog',
+      'push button': 'button',
+      'split button': 'button',
+      'toggle button': 'togglebutton',
+      'check box': 'checkbox',
+      'radio button': 'radio',
+      text: 'textfield',
+      entry: 'textfield',
+      'password text': 'password',
+      label: 'text',
+      static: 'text',
+      icon: 'image',
+      image: 'image',
+      panel: 'group',
+      filler: 'group',
+      section: 'group',
+      'scroll pane': 'scroll-area',
+      viewport: 'scroll-area',
+      'scroll bar': 'scrollbar',
+      'tool bar': 'toolbar',
+      'menu bar': 'menubar',
+      menu: 'menu',
+      'menu item': 'menuitem',
+      'check menu item': 'menuitem',
+      'radio menu item': 'menuitem',
+      'combo box': 'combobox',
+      list: 'list',
+      'list box': 'list',
+      'list item': 'listitem',
+      table: 'table',
+      tree: 'outline',
+      'tree table': 'outline',
+      'tree item': 'treeitem',
+      'table row': 'row',
+      'table cell': 'cell',
+      'column header': 'heading',
+      'row header': 'heading',
+      heading: 'heading',
+      link: 'link',
+      'page tab list': 'tabgroup',
+      'page tab': 'tab',
+      slider: 'slider',
+      'spin button': 'spinner',
+      'split pane': 'splitgroup',
+      separator: 'splitter',
+      'status bar': 'statusbar',
+      'progress bar': 'progress',
+      'tool tip': 'tooltip',
+      'document frame': 'webarea',
+      'document web': 'webarea',
+      paragraph: 'text',
+      application: 'application',
+      unknown: 'unknown',
     };
     return map[role] ?? role.replace(/^AX/, '').toLowerCase();
   }
@@ -496,25 +744,87 @@ Write-Output ([UIAReader]::ReadTree('${safeTitle}', ${maxDepth}))
     const lines: string[] = [];
 
     for (const el of elements) {
-      const prefix = '  '.repeat(indent);
-      const parts: string[] = [`[${el.ref}]`, el.role];
-
-      if (el.name) parts.push(`"${el.name}"`);
-      if (el.value) parts.push(`value="${el.value}"`);
-      if (el.enabled === false) parts.push('(disabled)');
-
-      lines.push(`${prefix}${parts.join(' ')}`);
+      lines.push(`${'  '.repeat(indent)}${this.formatElement(el)}`);
 
       if (el.children) {
         lines.push(this.formatTree(el.children, indent + 1));
       }
+      if (el.moreChildren) {
+        lines.push(`${'  '.repeat(indent + 1)}(${el.moreChildren} more child${el.moreChildren === 1 ? '' : 'ren'})`);
+      }
     }
 
     return lines.join('\n');
   }
 
   /**
-   * Find elements matching a search query (name, role, or value).
+   * One element as a line of formatTree, e.g. '[ref_1a2b3c4d] checkbox "Remember me" (checked) id="remember"'.
+   */
+  formatElement(el: UIElement): string {
+    const parts: string[] = [`[${el.ref}]`, el.role];
+
+    if (el.name) parts.push(`"${el.name}"`);
+    if (el.value) parts.push(`value="${el.value}"`);
+    parts.push(...this.statesOf(el).map((state) => `(${state})`));
+    if (el.shortcut) parts.push(`shortcut="${el.shortcut}"`);
+    if (el.automationId) parts.push(`id="${el.automationId}"`);
+    if (el.className) parts.push(`class="${el.className}"`);
+    if (el.helpText) parts.push(`help="${el.helpText}"`);
+    if (el.actions) parts.push(`actions=${el.actions.join(',')}`);
+
+    return parts.join(' ');
+  }
+
+  /**
+   * State words of an element as shown by formatTree: checked/unchecked/mixed, expanded/collapsed,
+   * selected, focused, offscreen, disabled.
+   */
+  statesOf(el: UIElement): string[] {
+    const states: string[] = [];
+    if (el.checked != null) states.push(el.checked === 'mixed' ? 'mixed' : el.checked ? 'checked' : 'unchecked');
+    if (el.expanded != null) states.push(el.expanded ? 'expanded' : 'collapsed');
+    if (el.selected) states.push('selected');
+    if (el.focused) states.push('focused');
+    if (el.offscreen) states.push('offscreen');
+    if (el.enabled === false) states.push('disabled');
+    return states;
+  }
+
+  /**
+   * Format a diff as text: "+" added, "-" removed and "~" changed elements, one per line.
+   * Returns an empty string when nothing changed.
+   */
+  formatDiff(diff: UITreeDiff): string {
+    const subtree = (n: number) => (n > 0 ? ` (+${n} descendant${n === 1 ? '' : 's'})` : '');
+    return [
+      ...diff.added.map((d) => `+ ${this.formatElement(d.element)}${subtree(d.descendants)}`),
+      ...diff.removed.map((d) => `- ${this.formatElement(d.element)}${subtree(d.descendants)}`),
+      ...diff.changed.map(({ element: el, changes }) =>
+        `~ [${el.ref}] ${el.role}${el.name ? ` "${el.name}"` : ''}: ${changes.join(', ')}`),
+    ].join('\n');
+  }
+
+  /**
+   * Differences in name, value, states and bounds between two reads of one element.
+   */
+  private changesOf(before: UIElement, after: UIElement): string[] {
+    const changes: string[] = [];
+    if (before.name !== after.name) changes.push(`name "${before.name}" -> "${after.name}"`);
+    if ((before.value ?? '') !== (after.value ?? '')) changes.push(`value "${before.value ?? ''}" -> "${after.value ?? ''}"`);
+
+    const statesBefore = this.statesOf(before).join(' ');
+    const statesAfter = this.statesOf(after).join(' ');
+    if (statesBefore !== statesAfter) changes.push(`states ${statesBefore || '(none)'} -> ${statesAfter || '(none)'}`);
+
+    if (before.bounds.join() !== after.bounds.join()) {
+      changes.push(`bounds ${formatBounds(before.bounds)} -> ${formatBounds(after.bounds)}`);
+    }
+    return changes;
+  }
+
+  /**
+   * Find elements matching a search query: a substring of the name, role, value, description, help text,
+   * shortcut, identifier, class name or an action, or exactly a state word ("checked", "focused", ...).
    */
   findElements(elements: UIElement[], query: string): UIElement[] {
     const matches: UIElement[] = [];
@@ -526,8 +836,11 @@ Write-Output ([UIAReader]::ReadTree('${safeTitle}', ${maxDepth}))
         const roleMatch = el.role.toLowerCase().includes(lowerQuery);
         const valueMatch = el.value?.toLowerCase().includes(lowerQuery) ?? false;
         const descMatch = el.description?.toLowerCase().includes(lowerQuery) ?? false;
+        const detailMatch = [el.helpText, el.shortcut, el.automationId, el.className, ...(el.actions ?? [])]
+          .some((detail) => detail?.toLowerCase().includes(lowerQuery));
+        const stateMatch = this.statesOf(el).includes(lowerQuery);
 
-        if (nameMatch || roleMatch || valueMatch || descMatch) {
+        if (nameMatch || roleMatch || valueMatch || descMatch || detailMatch || stateMatch) {
           matches.push(el);
         }
 
@@ -540,6 +853,32 @@ Write-Output ([UIAReader]::ReadTree('${safeTitle}', ${maxDepth}))
     search(elements);
     return matches;
   }
+
+  /**
+   * Find elements matching a structured selector (see selector.ts for the syntax).
+   */
+  querySelector(elements: UIElement[], selector: string): UIElement[] {
+    return querySelector(elements, selector);
+  }
+
+  /**
+   * Read the tree and resolve a selector to exactly one element.
+   * Throws when nothing or more than one element matches.
+   */
+  async resolveSelector(selector: string, windowTitle?: string): Promise<UIElement> {
+    const matches = this.querySelector(await this.readUI({ windowTitle }), selector);
+    if (matches.length === 0) {
+      throw new Error(`No element matches selector "${selector}".`);
+    }
+    if (matches.length > 1) {
+      const listed = matches.slice(0, 5).map((el) => `[${el.ref}] ${el.role} "${el.name}"`).join(', ');
+      throw new Error(
+        `Selector "${selector}" matches ${matches.length} elements (${listed}${matches.length > 5 ? ', ...' : ''}). ` +
+        'Refine it or pick one with nth=N.'
+      );
+    }
+    return matches[0];
+  }
 }
 
 export const accessibilityReader = new AccessibilityReader();
@@ -0,0 +1,306 @@
+/**
+ * ImageMatcher Module
+ * Locates a template image on screen by normalized cross-correlation (NCC), for canvas-based
+ * apps and games where neither the accessibility tree nor OCR sees icons.
+ * Search runs coarse-to-fine: candidates from a downscaled pass are refined at full resolution.
+ */
+
+import { createHash } from 'node:crypto';
+import sharp from 'sharp';
+import { screenCapture } from './screen-capture.js';
+import type { ImageMatch, ImageMatchOptions, Region } from '../types/index.js';
+
+/** Number of matches kept addressable by pseudo-ref */
+const MAX_IMAGE_MATCHES = 200;
+/** Template side length (pixels) the coarse pass aims for */
+const COARSE_TEMPLATE_SIZE = 8;
+/** Maximum downscale factor of the coarse pass */
+const MAX_COARSE_FACTOR = 8;
+/** Coarse candidates may score this much below the threshold (downscaling blurs detail) */
+const COARSE_SLACK = 0.2;
+/** Coarse candidates refined per template scale */
+const MAX_CANDIDATES = 50;
+/** Matches overlapping more than this (intersection over union) are duplicates */
+const MAX_OVERLAP = 0.3;
+
+/** Single-channel image with luminance values */
+interface GrayImage {
+  data: Float64Array;
+  width: number;
+  height: number;
+}
+
+/** Template with its mean removed, ready for correlation */
+interface PreparedTemplate extends GrayImage {
+  /** sqrt(sum of squared deviations from the mean) */
+  norm: number;
+}
+
+/** Match in capture pixels */
+interface PixelMatch {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+  scale: number;
+}
+
+function imageRefFor(identity: string): string {
+  return `img_${createHash('sha1').update(identity).digest('hex').slice(0, 8)}`;
+}
+
+/**
+ * Decode an image to luminance, optionally resized.
+ */
+async function toGray(png: Buffer, width?: number, height?: number): Promise<GrayImage> {
+  let image = sharp(png).flatten({ background: '#ffffff' }).grayscale();
+  if (width != null && height != null) {
+    image = image.resize(Math.max(1, width), Math.max(1, height), { fit: 'fill' });
+  }
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+  const pixels = new Float64Array(info.width * info.height);
+  for (let i = 0; i < pixels.length; i++) pixels[i] = data[i * info.channels];
+  return { data: pixels, width: info.width, height: info.height };
+}
+
+function prepareTemplate(template: GrayImage): PreparedTemplate {
+  const n = template.data.length;
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += template.data[i];
+  mean /= n;
+  const data = new Float64Array(n);
+  let sumSq = 0;
+  for (let i = 0; i < n; i++) {
+    data[i] = template.data[i] - mean;
+    sumSq += data[i] * data[i];
+  }
+  return { data, width: template.width, height: template.height, norm: Math.sqrt(sumSq) };
+}
+
+/**
+ * Summed-area tables of values and squared values ((width+1) x (height+1)).
+ */
+function integrals(image: GrayImage): { sum: Float64Array; sumSq: Float64Array } {
+  const w = image.width + 1;
+  const sum = new Float64Array(w * (image.height + 1));
+  const sumSq = new Float64Array(w * (image.height + 1));
+  for (let y = 0; y < image.height; y++) {
+    let rowSum = 0;
+    let rowSumSq = 0;
+    for (let x = 0; x < image.width; x++) {
+      const v = image.data[y * image.width + x];
+      rowSum += v;
+      rowSumSq += v * v;
+      sum[(y + 1) * w + x + 1] = sum[y * w + x + 1] + rowSum;
+      sumSq[(y + 1) * w + x + 1] = sumSq[y * w + x + 1] + rowSumSq;
+    }
+  }
+  return { sum, sumSq };
+}
+
+/**
+ * NCC scores of a template against an image, at every position or within a window.
+ */
+class Correlator {
+  private readonly sum: Float64Array;
+  private readonly sumSq: Float64Array;
+
+  constructor(private readonly image: GrayImage) {
+    ({ sum: this.sum, sumSq: this.sumSq } = integrals(image));
+  }
+
+  /** Score of the template placed with its top-left at (x, y) */
+  score(template: PreparedTemplate, x: number, y: number): number {
+    const { image } = this;
+    const { width: tw, height: th } = template;
+    const n = tw * th;
+    const w = image.width + 1;
+    const windowSum = this.sum[(y + th) * w + x + tw] - this.sum[y * w + x + tw] - this.sum[(y + th) * w + x] + this.sum[y * w + x];
+    const windowSumSq = this.sumSq[(y + th) * w + x + tw] - this.sumSq[y * w + x + tw] - this.sumSq[(y + th) * w + x] + this.sumSq[y * w + x];
+    const variance = windowSumSq - (windowSum * windowSum) / n;
+    if (variance <= 1e-6 || template.norm <= 1e-6) {
+      // Flat window or template: only a flat-on-flat pair of equal brightness is a match
+      return variance <= 1e-6 && template.norm <= 1e-6 ? 1 : 0;
+    }
+
+    // The template has zero mean, so the image mean drops out of the cross term
+    let cross = 0;
+    for (let ty = 0; ty < th; ty++) {
+      const row = (y + ty) * image.width + x;
+      const trow = ty * tw;
+      for (let tx = 0; tx < tw; tx++) {
+        cross += image.data[row + tx] * template.data[trow + tx];
+      }
+    }
+    return cross / (Math.sqrt(variance) * template.norm);
+  }
+
+  /** Best position within [x0, x1] x [y0, y1] (clamped to valid placements) */
+  best(template: PreparedTemplate, x0: number, y0: number, x1: number, y1: number): { x: number; y: number; score: number } {
+    const maxX = this.image.width - template.width;
+    const maxY = this.image.height - template.height;
+    let best = { x: 0, y: 0, score: -Infinity };
+    for (let y = Math.max(0, y0); y <= Math.min(maxY, y1); y++) {
+      for (let x = Math.max(0, x0); x <= Math.min(maxX, x1); x++) {
+        const score = this.score(template, x, y);
+        if (score > best.score) best = { x, y, score };
+      }
+    }
+    return best;
+  }
+
+  /** Local maxima scoring at least minScore, best first */
+  peaks(template: PreparedTemplate, minScore: number, limit: number): Array<{ x: number; y: number; score: number }> {
+    const cols = this.image.width - template.width + 1;
+    const rows = this.image.height - template.height + 1;
+    if (cols <= 0 || rows <= 0) return [];
+    const scores = new Float64Array(cols * rows);
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        scores[y * cols + x] = this.score(template, x, y);
+      }
+    }
+
+    const peaks: Array<{ x: number; y: number; score: number }> = [];
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        const score = scores[y * cols + x];
+        if (score < minScore) continue;
+        let isPeak = true;
+        for (let dy = -1; dy <= 1 && isPeak; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if ((dx || dy) && nx >= 0 && ny >= 0 && nx < cols && ny < rows && scores[ny * cols + nx] > score) {
+              isPeak = false;
+              break;
+            }
+          }
+        }
+        if (isPeak) peaks.push({ x, y, score });
+      }
+    }
+    return peaks.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+function overlap(a: PixelMatch, b: PixelMatch): number {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (w <= 0 || h <= 0) return 0;
+  const intersection = w * h;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+/** Template scales to try for a tolerance: 1, then 1 +/- 0.1, 1 +/- 0.2, ... */
+function templateScales(tolerance: number): number[] {
+  const scales = [1];
+  for (let step = 1; step * 0.1 <= tolerance + 1e-9; step++) {
+    scales.push(1 - step * 0.1, 1 + step * 0.1);
+  }
+  return scales.map((s) => Math.round(s * 100) / 100);
+}
+
+export class ImageMatcher {
+  /** Matches by pseudo-ref, oldest first */
+  private _matches = new Map<string, ImageMatch>();
+
+  /**
+   * Find a template (PNG) on screen. Matches are best first and get pseudo-refs usable
+   * wherever element refs are accepted for clicking and typing.
+   */
+  async find(template: Buffer, options: ImageMatchOptions = {}): Promise<ImageMatch[]> {
+    const { region, screen, threshold = 0.8, scaleTolerance = 0, maxResults = 5 } = options;
+
+    const capture = await screenCapture.capture({ region, screen, format: 'png' }, false);
+    const screenPng = Buffer.from(capture.data, 'base64');
+    const { width: templateWidth = 0, height: templateHeight = 0 } = await sharp(template).metadata();
+    if (templateWidth === 0 || templateHeight === 0) {
+      throw new Error('Template image is empty or not a valid image.');
+    }
+
+    const full = new Correlator(await toGray(screenPng));
+    const coarseImages = new Map<number, Correlator>();
+    const found: PixelMatch[] = [];
+
+    for (const scale of templateScales(scaleTolerance)) {
+      const tw = Math.round(templateWidth * scale);
+      const th = Math.round(templateHeight * scale);
+      if (tw < 1 || th < 1 || tw > capture.width || th > capture.height) continue;
+      const prepared = prepareTemplate(await toGray(template, tw, th));
+
+      // Coarse pass on a downscaled screen, then refine each candidate within one coarse cell
+      const factor = Math.min(MAX_COARSE_FACTOR, Math.max(1, Math.floor(Math.min(tw, th) / COARSE_TEMPLATE_SIZE)));
+      let candidates: Array<{ x: number; y: number }>;
+      if (factor > 1) {
+        let coarse = coarseImages.get(factor);
+        if (!coarse) {
+          coarse = new Correlator(await toGray(
+            screenPng,
+            Math.round(capture.width / factor),
+            Math.round(capture.height / factor),
+          ));
+          coarseImages.set(factor, coarse);
+        }
+        const coarseTemplate = prepareTemplate(await toGray(template, Math.round(tw / factor), Math.round(th / factor)));
+        candidates = coarse
+          .peaks(coarseTemplate, threshold - COARSE_SLACK, MAX_CANDIDATES)
+          .map(({ x, y }) => ({ x: x * factor, y: y * factor }));
+      } else {
+        candidates = full.peaks(prepared, threshold, MAX_CANDIDATES);
+      }
+
+      for (const { x, y } of candidates) {
+        const best = full.best(prepared, x - factor, y - factor, x + factor, y + factor);
+        if (best.score >= threshold) {
+          found.push({ x: best.x, y: best.y, width: tw, height: th, score: best.score, scale });
+        }
+      }
+    }
+
+    // Best first, dropping overlapping duplicates (refined candidates, neighbouring scales)
+    const kept: PixelMatch[] = [];
+    for (const match of found.sort((a, b) => b.score - a.score)) {
+      if (kept.length >= maxResults) break;
+      if (kept.every((k) => overlap(k, match) <= MAX_OVERLAP)) kept.push(match);
+    }
+
+    const { originX = 0, originY = 0, scaleX = 1, scaleY = 1 } = capture.transform ?? {};
+    return kept.map((m) => {
+      const left = Math.round(originX + m.x / scaleX);
+      const top = Math.round(originY + m.y / scaleY);
+      const bounds: Region = [
+        left,
+        top,
+        Math.round(originX + (m.x + m.width) / scaleX) - left,
+        Math.round(originY + (m.y + m.height) / scaleY) - top,
+      ];
+      const match: ImageMatch = {
+        ref: imageRefFor(bounds.join(',')),
+        bounds,
+        score: Math.round(m.score * 1000) / 1000,
+        scale: m.scale,
+      };
+      this.rememberMatch(match);
+      return match;
+    });
+  }
+
+  /**
+   * A match from a previous find, by pseudo-ref.
+   */
+  getMatch(ref: string): ImageMatch | undefined {
+    return this._matches.get(ref);
+  }
+
+  private rememberMatch(match: ImageMatch): void {
+    this._matches.delete(match.ref);
+    this._matches.set(match.ref, match);
+    if (this._matches.size > MAX_IMAGE_MATCHES) {
+      this._matches.delete(this._matches.keys().next().value!);
+    }
+  }
+}
+
+export const imageMatcher = new ImageMatcher();
@@ -0,0 +1,239 @@
+/**
+ * Macro Module
+ * Records desktop_* tool calls into a portable JSON or YAML script and replays it.
+ * Refs only live as long as the accessibility cache of one session, so every recorded ref argument
+ * keeps what it resolved to (a selector, OCR text) and is looked up again on replay.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { setTimeout as delay } from 'node:timers/promises';
+import yaml from 'js-yaml';
+import { accessibilityReader } from './accessibility.js';
+import { ocrEngine } from './ocr-engine.js';
+import { imageMatcher } from './image-matcher.js';
+import { screenCapture } from './screen-capture.js';
+import type { MacroRunResult, MacroScript, MacroStep, MacroTarget } from '../types/index.js';
+
+/** Arguments that hold an element ref or pseudo-ref */
+const REF_ARGS = ['ref', 'startRef', 'endRef'];
+/** Coordinate argument pairs that may be given in screenshot coordinates */
+const POINT_ARGS: Array<[string, string]> = [['x', 'y'], ['startX', 'startY'], ['endX', 'endY']];
+/** How long a replay waits for a recorded target to appear */
+const TARGET_TIMEOUT = 5000;
+const TARGET_INTERVAL = 250;
+
+/** Tool result as returned by MCP tool handlers */
+export interface ToolCallResult {
+  content: Array<{ type: string; text?: string }>;
+  isError?: boolean;
+}
+
+/** Runs one tool by name, as the MCP server would for a client call */
+export type ToolCaller = (tool: string, args: Record<string, unknown>) => Promise<ToolCallResult>;
+
+function isYamlFile(file: string | undefined): boolean {
+  return file != null && ['.yaml', '.yml'].includes(extname(file).toLowerCase());
+}
+
+function resultText(result: ToolCallResult): string {
+  return result.content.filter((c) => c.type === 'text').map((c) => c.text ?? '').join('\n');
+}
+
+/**
+ * Parse and validate a macro script. YAML is a superset of JSON, so one parser reads both.
+ */
+export function parseMacro(source: string, file?: string): MacroScript {
+  let data: unknown;
+  try {
+    data = yaml.load(source, { filename: file });
+  } catch (error) {
+    throw new Error(`Invalid macro${file ? ` ${file}` : ''}: ${(error as Error).message.split('\n')[0]}`);
+  }
+
+  const steps = (data as { steps?: unknown } | null)?.steps;
+  if (!Array.isArray(steps)) {
+    throw new Error(`Invalid macro${file ? ` ${file}` : ''}: expected an object with a "steps" list.`);
+  }
+  steps.forEach((step: Partial<MacroStep> | null, i) => {
+    if (typeof step?.tool !== 'string' || !step.tool.startsWith('desktop_')) {
+      throw new Error(`Invalid macro step ${i + 1}: "tool" must name a desktop_* tool.`);
+    }
+    if (step.args != null && (typeof step.args !== 'object' || Array.isArray(step.args))) {
+      throw new Error(`Invalid macro step ${i + 1}: "args" must be an object.`);
+    }
+  });
+
+  const script = data as MacroScript;
+  return { ...script, version: 1, steps: script.steps.map((step) => ({ ...step, args: step.args ?? {} })) };
+}
+
+/**
+ * Serialize a macro script, as YAML for .yaml/.yml files and JSON otherwise.
+ */
+export function serializeMacro(script: MacroScript, file?: string): string {
+  return isYamlFile(file)
+    ? yaml.dump(script, { lineWidth: -1, noRefs: true })
+    : `${JSON.stringify(script, null, 2)}\n`;
+}
+
+/**
+ * Read a macro script from a JSON or YAML file.
+ */
+export async function loadMacro(file: string): Promise<MacroScript> {
+  return parseMacro(await readFile(file, 'utf8'), file);
+}
+
+/**
+ * Appends tool calls to a macro file. The file is rewritten after every step,
+ * so a session that ends abruptly still leaves a usable script.
+ */
+export class MacroRecorder {
+  private _script: MacroScript = { version: 1, recordedAt: new Date().toISOString(), steps: [] };
+
+  constructor(readonly file: string) {}
+
+  /** Number of recorded steps */
+  get steps(): number {
+    return this._script.steps.length;
+  }
+
+  /**
+   * Turn a tool call into a portable step. Must run before the call itself:
+   * the call may remove the element a ref points at (closing a dialog, for instance).
+   * Screenshot coordinates are converted to screen coordinates, as capture ids do not outlive the session.
+   */
+  prepare(tool: string, args: Record<string, unknown>): MacroStep {
+    const recorded: Record<string, unknown> = { ...args };
+    const targets: Record<string, MacroTarget> = {};
+
+    for (const name of REF_ARGS) {
+      const ref = args[name];
+      if (typeof ref !== 'string') continue;
+      const target = this.targetOf(ref);
+      if (target) targets[name] = target;
+    }
+
+    if (args.coordinateSpace === 'screenshot') {
+      try {
+        for (const [xName, yName] of POINT_ARGS) {
+          const x = args[xName];
+          const y = args[yName];
+          if (typeof x !== 'number' || typeof y !== 'number') continue;
+          [recorded[xName], recorded[yName]] = screenCapture.toScreenCoordinate([x, y], args.captureId as string | undefined);
+        }
+        delete recorded.coordinateSpace;
+        delete recorded.captureId;
+      } catch {
+        // Unknown capture: record the call unchanged, it fails the same way on replay
+      }
+    }
+
+    return { tool, args: recorded, ...(Object.keys(targets).length > 0 ? { targets } : {}) };
+  }
+
+  /**
+   * Add a step (of a call that succeeded) and save the script.
+   */
+  async append(step: MacroStep): Promise<void> {
+    this._script.steps.push(step);
+    await writeFile(this.file, serializeMacro(this._script, this.file));
+  }
+
+  private targetOf(ref: string): MacroTarget | undefined {
+    const textMatch = ref.startsWith('ocr_') ? ocrEngine.getTextMatch(ref) : undefined;
+    if (textMatch) return { kind: 'text', text: textMatch.text, bounds: textMatch.bounds };
+
+    const imageMatch = ref.startsWith('img_') ? imageMatcher.getMatch(ref) : undefined;
+    if (imageMatch) return { kind: 'image', bounds: imageMatch.bounds };
+
+    const element = accessibilityReader.getElementByRef(ref);
+    const found = element ? accessibilityReader.selectorFor(ref) : undefined;
+    if (element && found) {
+      return {
+        kind: 'element',
+        selector: found.selector,
+        ...(found.windowTitle ? { windowTitle: found.windowTitle } : {}),
+        bounds: element.bounds,
+      };
+    }
+    return undefined;
+  }
+}
+
+export class MacroPlayer {
+  /**
+   * Run the steps in order, re-resolving recorded targets, and stop at the first step whose
+   * target cannot be found, whose tool reports an error or whose result lacks the expected text.
+   */
+  async run(
+    script: MacroScript,
+    callTool: ToolCaller,
+    onStep?: (index: number, total: number, step: MacroStep) => Promise<void> | void,
+  ): Promise<MacroRunResult> {
+    const total = script.steps.length;
+    const log: string[] = [];
+
+    for (const [index, step] of script.steps.entries()) {
+      await onStep?.(index, total, step);
+      const fail = (message: string): MacroRunResult => {
+        log.push(`${index + 1}. ${step.tool} FAILED: ${message}`);
+        return { completed: index, total, failure: { step: index + 1, tool: step.tool, message }, log };
+      };
+
+      const args = { ...step.args };
+      try {
+        for (const [name, target] of Object.entries(step.targets ?? {})) {
+          const ref = await this.resolveTarget(target);
+          if (ref) args[name] = ref;
+        }
+      } catch (error) {
+        return fail((error as Error).message);
+      }
+
+      let result: ToolCallResult;
+      try {
+        result = await callTool(step.tool, args);
+      } catch (error) {
+        return fail((error as Error).message);
+      }
+      const text = resultText(result);
+      if (result.isError) {
+        return fail(text.replace(/^Error: /, ''));
+      }
+      if (step.expect != null && !text.includes(step.expect)) {
+        return fail(`expected the result to contain "${step.expect}", got: ${text.split('\n')[0]}`);
+      }
+      log.push(`${index + 1}. ${step.tool} ok: ${text.split('\n')[0]}`);
+    }
+
+    return { completed: total, total, log };
+  }
+
+  /**
+   * A current ref for a recorded target, waiting briefly for it to appear (menus, dialogs).
+   * Image matches keep their recorded ref: the preceding desktop_find_image step finds them again.
+   */
+  private async resolveTarget(target: MacroTarget): Promise<string | undefined> {
+    if (target.kind === 'image') return undefined;
+
+    const deadline = Date.now() + TARGET_TIMEOUT;
+    for (;;) {
+      let lastError: string;
+      try {
+        if (target.kind === 'element') {
+          return (await accessibilityReader.resolveSelector(target.selector, target.windowTitle)).ref;
+        }
+        const [match] = await ocrEngine.findText(target.text);
+        if (match) return match.ref;
+        lastError = `Text "${target.text}" not found on screen.`;
+      } catch (error) {
+        lastError = (error as Error).message;
+      }
+      if (Date.now() >= deadline) throw new Error(lastError);
+      await delay(TARGET_INTERVAL);
+    }
+  }
+}
+
+export const macroPlayer = new MacroPlayer();
@@ -1,31 +1,472 @@
 /**
  * OCR Engine Module
  * Text recognition using tesseract.js for apps without accessibility support.
+ * Words and lines carry screen-space bounds, so recognized text can be targeted
+ * like an accessibility element (pseudo-refs from findText).
+ * Initialized workers are pooled per language, so language data loads once, not per call.
  */
 
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import sharp from 'sharp';
 import Tesseract from 'tesseract.js';
 import { screenCapture } from './screen-capture.js';
-import type { Region, OcrResult } from '../types/index.js';
+import type {
+  Region,
+  OcrResult,
+  OcrLine,
+  OcrWord,
+  OcrTextMatch,
+  CaptureTransform,
+  OcrPoolOptions,
+  OcrOptions,
+  OcrPreprocessStep,
+  OcrPageSegMode,
+} from '../types/index.js';
+
+/** Number of text matches kept addressable by pseudo-ref */
+const MAX_TEXT_MATCHES = 200;
+/** Default workers per language */
+const DEFAULT_MAX_WORKERS = 2;
+/** Default time an idle worker is kept before it is terminated */
+const DEFAULT_IDLE_TIMEOUT = 5 * 60_000;
+
+/** Upscale factor of the "upscale" preprocessing step */
+const UPSCALE_FACTOR = 2;
+/** Canonical order of preprocessing steps */
+const PREPROCESS_ORDER: OcrPreprocessStep[] = ['upscale', 'grayscale', 'invert', 'sharpen', 'threshold'];
+
+const PAGE_SEG_MODES: Record<OcrPageSegMode, Tesseract.PSM> = {
+  auto: Tesseract.PSM.AUTO,
+  single_column: Tesseract.PSM.SINGLE_COLUMN,
+  single_block: Tesseract.PSM.SINGLE_BLOCK,
+  single_line: Tesseract.PSM.SINGLE_LINE,
+  single_word: Tesseract.PSM.SINGLE_WORD,
+  single_char: Tesseract.PSM.SINGLE_CHAR,
+  sparse_text: Tesseract.PSM.SPARSE_TEXT,
+  raw_line: Tesseract.PSM.RAW_LINE,
+};
+
+/**
+ * Initialized Tesseract workers for one language. At most `maxWorkers` recognize at once;
+ * further jobs queue until a worker is released. Idle workers are terminated after `idleTimeout`.
+ */
+class OcrWorkerPool {
+  private _idle: Array<{ worker: Tesseract.Worker; timer: NodeJS.Timeout }> = [];
+  /** Workers alive (idle or busy) or starting */
+  private _size = 0;
+  private _queue: Array<{ resolve: (worker: Tesseract.Worker) => void; reject: (error: Error) => void }> = [];
+  private _terminated = false;
+  /** Called once the last worker of a terminated pool has exited */
+  private _onEmpty?: () => void;
+
+  constructor(
+    private readonly language: string,
+    private readonly options: Required<Pick<OcrPoolOptions, 'maxWorkers' | 'idleTimeout'>> & OcrPoolOptions,
+  ) {}
+
+  /** Workers alive (idle or busy) */
+  get size(): number {
+    return this._size;
+  }
+
+  /** Idle workers */
+  get idle(): number {
+    return this._idle.length;
+  }
+
+  /**
+   * Run a job on a pooled worker. A worker whose job throws is discarded, as it may be unusable.
+   */
+  async run<T>(job: (worker: Tesseract.Worker) => Promise<T>): Promise<T> {
+    const worker = await this.acquire();
+    let result: T;
+    try {
+      result = await job(worker);
+    } catch (error) {
+      this.discard(worker);
+      throw error;
+    }
+    this.release(worker);
+    return result;
+  }
+
+  /**
+   * Start one worker ahead of time (no-op if the pool already has one).
+   */
+  async warmUp(): Promise<void> {
+    if (this._size > 0) return;
+    this.release(await this.spawn());
+  }
+
+  /**
+   * Terminate every worker. Queued jobs are rejected; running jobs finish first and their
+   * workers are terminated when released.
+   */
+  async terminate(): Promise<void> {
+    this._terminated = true;
+    for (const waiter of this._queue.splice(0)) {
+      waiter.reject(new Error('OCR engine shut down'));
+    }
+    if (this._size === 0) return;
+    const empty = new Promise<void>((resolve) => {
+      this._onEmpty = resolve;
+    });
+    for (const { worker, timer } of this._idle.splice(0)) {
+      clearTimeout(timer);
+      this.retire(worker);
+    }
+    await empty;
+  }
+
+  private async acquire(): Promise<Tesseract.Worker> {
+    const idle = this._idle.pop();
+    if (idle) {
+      clearTimeout(idle.timer);
+      return idle.worker;
+    }
+    if (this._size < this.options.maxWorkers) {
+      return this.spawn();
+    }
+    return new Promise((resolve, reject) => this._queue.push({ resolve, reject }));
+  }
+
+  private release(worker: Tesseract.Worker): void {
+    if (this._terminated) {
+      this.retire(worker);
+      return;
+    }
+    const waiter = this._queue.shift();
+    if (waiter) {
+      waiter.resolve(worker);
+      return;
+    }
+    const timer = setTimeout(() => {
+      this._idle = this._idle.filter((entry) => entry.worker !== worker);
+      this.retire(worker);
+    }, this.options.idleTimeout);
+    timer.unref();
+    this._idle.push({ worker, timer });
+  }
+
+  private discard(worker: Tesseract.Worker): void {
+    this.retire(worker);
+    // A queued job can now get a fresh worker
+    const waiter = this._queue.shift();
+    if (waiter) {
+      this.spawn().then(waiter.resolve, waiter.reject);
+    }
+  }
+
+  /** Terminate a worker and remove it from the pool */
+  private retire(worker: Tesseract.Worker): void {
+    const exited = worker.terminate().then(() => {}, () => {});
+    this.shrink(exited);
+  }
+
+  private shrink(exited: Promise<void> = Promise.resolve()): void {
+    this._size--;
+    if (this._terminated && this._size === 0) {
+      const onEmpty = this._onEmpty;
+      void exited.then(() => onEmpty?.());
+    }
+  }
+
+  private async spawn(): Promise<Tesseract.Worker> {
+    this._size++;
+    try {
+      return await Tesseract.createWorker(this.language, undefined, workerOptions(this.language, this.options.langPath));
+    } catch (error) {
+      this.shrink();
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load OCR language "${this.language}": ${msg}`);
+    }
+  }
+}
+
+/**
+ * Worker options for a language. A local langPath is read directly (plain or gzipped
+ * .traineddata) without caching copies, so OCR works offline.
+ */
+function workerOptions(language: string, langPath: string | undefined): Partial<Tesseract.WorkerOptions> | undefined {
+  if (!langPath) return undefined;
+  if (/^[a-z]+:\/\//i.test(langPath)) return { langPath };
+  // Multi-language specs like "eng+deu" need every file; prefer plain files when all exist
+  const plain = language.split('+').every((lang) => existsSync(join(langPath, `${lang}.traineddata`)));
+  return { langPath, gzip: !plain, cacheMethod: 'none' };
+}
+
+function textRefFor(identity: string): string {
+  return `ocr_${createHash('sha1').update(identity).digest('hex').slice(0, 8)}`;
+}
+
+/** Map a Tesseract bounding box in (possibly upscaled) image pixels to screen coordinates */
+function toScreenBounds(bbox: Tesseract.Bbox, transform: CaptureTransform | undefined, upscale: number): Region {
+  const { originX = 0, originY = 0 } = transform ?? {};
+  const scaleX = (transform?.scaleX ?? 1) * upscale;
+  const scaleY = (transform?.scaleY ?? 1) * upscale;
+  const left = Math.round(originX + bbox.x0 / scaleX);
+  const top = Math.round(originY + bbox.y0 / scaleY);
+  const right = Math.round(originX + bbox.x1 / scaleX);
+  const bottom = Math.round(originY + bbox.y1 / scaleY);
+  return [left, top, right - left, bottom - top];
+}
+
+/**
+ * Steps to run for a preprocess option. "auto" skips upscaling for captures that are already HiDPI.
+ */
+function preprocessSteps(preprocess: OcrOptions['preprocess'], transform: CaptureTransform | undefined): OcrPreprocessStep[] {
+  if (!preprocess || preprocess === 'none') return [];
+  const steps: OcrPreprocessStep[] = preprocess === 'auto'
+    ? ['upscale', 'grayscale', 'invert', 'sharpen'].filter((step) => step !== 'upscale' || (transform?.scaleX ?? 1) < 1.5) as OcrPreprocessStep[]
+    : preprocess;
+  return PREPROCESS_ORDER.filter((step) => steps.includes(step));
+}
+
+/**
+ * Apply preprocessing steps with sharp. Returns the image and its upscale factor.
+ */
+async function preprocessImage(buffer: Buffer, steps: OcrPreprocessStep[]): Promise<{ image: Buffer; upscale: number }> {
+  let image = buffer;
+  let upscale = 1;
+  for (const step of steps) {
+    switch (step) {
+      case 'upscale': {
+        const { width = 0, height = 0 } = await sharp(image).metadata();
+        image = await sharp(image)
+          .resize(width * UPSCALE_FACTOR, height * UPSCALE_FACTOR, { kernel: 'lanczos3' })
+          .png()
+          .toBuffer();
+        upscale = UPSCALE_FACTOR;
+        break;
+      }
+      case 'grayscale':
+        image = await sharp(image).grayscale().png().toBuffer();
+        break;
+      case 'invert': {
+        // Tesseract expects dark text on a light background
+        if (await meanLuminance(image) < 128) {
+          image = await sharp(image).negate({ alpha: false }).png().toBuffer();
+        }
+        break;
+      }
+      case 'sharpen':
+        image = await sharp(image).sharpen().png().toBuffer();
+        break;
+      case 'threshold': {
+        const level = Math.round(await meanLuminance(image));
+        image = await sharp(image).threshold(Math.min(Math.max(level, 1), 254)).png().toBuffer();
+        break;
+      }
+    }
+  }
+  return { image, upscale };
+}
+
+/** Mean luminance (0-255) of an image */
+async function meanLuminance(image: Buffer): Promise<number> {
+  const { channels } = await sharp(image).grayscale().stats();
+  return channels[0].mean;
+}
+
+/** Smallest region containing all of the given regions */
+function unionBounds(regions: Region[]): Region {
+  const left = Math.min(...regions.map((r) => r[0]));
+  const top = Math.min(...regions.map((r) => r[1]));
+  const right = Math.max(...regions.map((r) => r[0] + r[2]));
+  const bottom = Math.max(...regions.map((r) => r[1] + r[3]));
+  return [left, top, right - left, bottom - top];
+}
 
 export class OcrEngine {
+  /** Matches from findText by pseudo-ref, oldest first */
+  private _textMatches = new Map<string, OcrTextMatch>();
+  private _pools = new Map<string, OcrWorkerPool>();
+  private _options: OcrPoolOptions = {};
+
+  /**
+   * Set worker pool options. Existing workers are shut down, so the next job uses them;
+   * jobs still running on them finish first.
+   */
+  async configure(options: OcrPoolOptions): Promise<void> {
+    this._options = { ...options };
+    await this.shutdown();
+  }
+
+  /**
+   * Initialize one worker per language ahead of the first OCR call.
+   */
+  async warmUp(languages: string[] = ['eng']): Promise<void> {
+    await Promise.all(languages.map((language) => this.pool(language).warmUp()));
+  }
+
+  /**
+   * Terminate all pooled workers, busy ones once their job finishes.
+   */
+  async shutdown(): Promise<void> {
+    const pools = [...this._pools.values()];
+    this._pools.clear();
+    await Promise.all(pools.map((pool) => pool.terminate()));
+  }
+
+  /**
+   * Workers alive and idle per language.
+   */
+  poolStats(): Record<string, { workers: number; idle: number }> {
+    const stats: Record<string, { workers: number; idle: number }> = {};
+    for (const [language, pool] of this._pools) {
+      stats[language] = { workers: pool.size, idle: pool.idle };
+    }
+    return stats;
+  }
+
   /**
    * Extract text from a screen region using OCR.
    * Takes a screenshot of the region and runs Tesseract on it.
    */
-  async recognize(options: { region?: Region; language?: string } = {}): Promise<OcrResult> {
-    const { region, language = 'eng' } = options;
+  async recognize(options: OcrOptions = {}): Promise<OcrResult> {
+    const { region, language = 'eng', preprocess, psm = 'auto', whitelist = '' } = options;
 
     // Capture screenshot (optionally cropped to region)
-    const screenshot = await screenCapture.capture({ region, format: 'png' });
-    const imageBuffer = Buffer.from(screenshot.data, 'base64');
+    const screenshot = await screenCapture.capture({ region, format: 'png' }, false);
+    const steps = preprocessSteps(preprocess, screenshot.transform);
+    const { image: imageBuffer, upscale } = steps.length > 0
+      ? await preprocessImage(Buffer.from(screenshot.data, 'base64'), steps)
+      : { image: Buffer.from(screenshot.data, 'base64'), upscale: 1 };
+
+    // Tesseract.recognize() only returns text; a worker can also return the block layout.
+    // Parameters are set on every job because pooled workers keep them.
+    const result = await this.pool(language).run(async (worker) => {
+      await worker.setParameters({
+        tessedit_pageseg_mode: PAGE_SEG_MODES[psm],
+        tessedit_char_whitelist: whitelist,
+      });
+      return worker.recognize(imageBuffer, {}, { text: true, blocks: true });
+    });
 
-    const result = await Tesseract.recognize(imageBuffer, language);
+    const lines: OcrLine[] = [];
+    for (const block of result.data.blocks ?? []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          const words: OcrWord[] = line.words
+            .filter((w) => w.text.trim())
+            .map((w) => ({
+              text: w.text.trim(),
+              confidence: w.confidence,
+              bounds: toScreenBounds(w.bbox, screenshot.transform, upscale),
+            }));
+          if (words.length === 0) continue;
+          lines.push({
+            text: words.map((w) => w.text).join(' '),
+            confidence: line.confidence,
+            bounds: toScreenBounds(line.bbox, screenshot.transform, upscale),
+            words,
+          });
+        }
+      }
+    }
 
     return {
       text: result.data.text.trim(),
       confidence: result.data.confidence,
+      words: lines.flatMap((l) => l.words),
+      lines,
     };
   }
+
+  /**
+   * Find on-screen text (case-insensitive, may span several words of a line).
+   * Each match gets a pseudo-ref usable wherever element refs are accepted for clicking and typing.
+   */
+  async findText(
+    query: string,
+    options: OcrOptions = {},
+  ): Promise<OcrTextMatch[]> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+
+    const { lines } = await this.recognize(options);
+    const matches: OcrTextMatch[] = [];
+    for (const line of lines) {
+      // Shortest runs of consecutive words containing the query
+      const runs: Array<[number, number]> = [];
+      for (let start = 0; start < line.words.length; start++) {
+        let joined = '';
+        for (let end = start; end < line.words.length; end++) {
+          joined = end === start ? line.words[end].text : `${joined} ${line.words[end].text}`;
+          if (joined.toLowerCase().includes(needle)) {
+            runs.push([start, end]);
+            break;
+          }
+        }
+      }
+      const minimal = runs.filter(([s, e]) => !runs.some(([s2, e2]) => (s2 > s && e2 <= e) || (s2 >= s && e2 < e)));
+
+      for (const [start, end] of minimal) {
+        const words = line.words.slice(start, end + 1);
+        const bounds = unionBounds(words.map((w) => w.bounds));
+        const text = words.map((w) => w.text).join(' ');
+        const match: OcrTextMatch = {
+          ref: textRefFor(`${text}@${bounds.join(',')}`),
+          text,
+          confidence: Math.min(...words.map((w) => w.confidence)),
+          bounds,
+          line: line.text,
+        };
+        matches.push(match);
+        this.rememberMatch(match);
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Every recognized word as a text match, each with a pseudo-ref like those of findText.
+   */
+  async findWords(options: OcrOptions = {}): Promise<OcrTextMatch[]> {
+    const { lines } = await this.recognize(options);
+    return lines.flatMap((line) => line.words.map((word) => {
+      const match: OcrTextMatch = {
+        ref: textRefFor(`${word.text}@${word.bounds.join(',')}`),
+        text: word.text,
+        confidence: word.confidence,
+        bounds: word.bounds,
+        line: line.text,
+      };
+      this.rememberMatch(match);
+      return match;
+    }));
+  }
+
+  /**
+   * A text match from a previous findText or findWords, by pseudo-ref.
+   */
+  getTextMatch(ref: string): OcrTextMatch | undefined {
+    return this._textMatches.get(ref);
+  }
+
+  private pool(language: string): OcrWorkerPool {
+    let pool = this._pools.get(language);
+    if (!pool) {
+      const { maxWorkers } = this._options;
+      pool = new OcrWorkerPool(language, {
+        ...this._options,
+        maxWorkers: maxWorkers != null && maxWorkers >= 1 ? Math.floor(maxWorkers) : DEFAULT_MAX_WORKERS,
+        idleTimeout: this._options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT,
+      });
+      this._pools.set(language, pool);
+    }
+    return pool;
+  }
+
+  private rememberMatch(match: OcrTextMatch): void {
+    this._textMatches.delete(match.ref);
+    this._textMatches.set(match.ref, match);
+    if (this._textMatches.size > MAX_TEXT_MATCHES) {
+      this._textMatches.delete(this._textMatches.keys().next().value!);
+    }
+  }
 }
 
 export const ocrEngine = new OcrEngine();
@@ -0,0 +1,339 @@
+/**
+ * Recorder Module
+ * Samples frames from ScreenCapture while the agent works and logs the input performed through
+ * InputController. On stop, the session is encoded with sharp as an animated GIF or WebP with
+ * click and keystroke markers, next to a JSON action log.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, join } from 'node:path';
+import { setTimeout as delay } from 'node:timers/promises';
+import sharp from 'sharp';
+import { screenCapture } from './screen-capture.js';
+import { inputController } from './input-controller.js';
+import type { Coordinate, RecordedAction, RecordingOptions, RecordingResult } from '../types/index.js';
+
+/** Frames kept per recording; sampling stops at this count */
+const MAX_FRAMES = 300;
+/** PNG bytes of the frames kept per recording; sampling stops once they reach it */
+const MAX_FRAME_BYTES = 256 * 1024 * 1024;
+/** Pixels of all frames together at encode time, when they are held raw (4 bytes each); larger recordings are encoded smaller */
+const MAX_ENCODE_PIXELS = 40_000_000;
+/** Default sampling rate */
+const DEFAULT_FPS = 2;
+/** Default time after which sampling stops */
+const DEFAULT_MAX_DURATION = 2 * 60_000;
+/** How long a click or keystroke marker stays visible (at least one frame interval) */
+const MARKER_DURATION = 1000;
+/** Keystroke actions shown at once in the caption */
+const MAX_CAPTIONS = 3;
+/** Characters of typed text shown in a caption */
+const MAX_CAPTION_TEXT = 40;
+
+/** Sampled frame, downscaled and PNG-encoded */
+interface RecordedFrame {
+  /** ms from the recording start */
+  time: number;
+  png: Buffer;
+  width: number;
+  height: number;
+  /** Global screen position of the frame's top-left pixel */
+  origin: [number, number];
+  /** Frame pixels per screen coordinate unit */
+  ratio: number;
+}
+
+interface RecordingSession {
+  options: Required<Pick<RecordingOptions, 'fps' | 'format' | 'scale' | 'maxDuration'>> & RecordingOptions;
+  startedAt: number;
+  frames: RecordedFrame[];
+  /** PNG bytes of the frames */
+  bytes: number;
+  actions: RecordedAction[];
+  controller: AbortController;
+  sampling: Promise<void>;
+  unsubscribe: () => void;
+}
+
+/**
+ * A 1x1 GIF with the given number of frames. sharp (0.33) cannot assemble an animation from
+ * separate images, but it resizes every page of a multi-page input: the resized carrier supplies
+ * the page layout and the recorded frames are composited over it as one vertical strip.
+ */
+function carrierGif(pages: number): Buffer {
+  const header = Buffer.from([
+    ...Buffer.from('GIF89a'),
+    1, 0, 1, 0, 0x80, 0, 0, // 1x1, global color table of 2 entries
+    0, 0, 0, 255, 255, 255,
+  ]);
+  const frame = Buffer.from([
+    0x2c, 0, 0, 0, 0, 1, 0, 1, 0, 0, // image descriptor at (0,0), 1x1
+    2, 2, 0x44, 0x01, 0, // LZW minimum code size 2, one data sub-block, terminator
+  ]);
+  return Buffer.concat([header, ...Array<Buffer>(pages).fill(frame), Buffer.from([0x3b])]);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/** Caption of a keystroke action, e.g. 'type "hello"' or 'key ctrl+c' */
+function caption(action: RecordedAction): string | undefined {
+  if (action.type === 'type') {
+    const text = action.text.length > MAX_CAPTION_TEXT ? `${action.text.slice(0, MAX_CAPTION_TEXT)}...` : action.text;
+    return `type "${text}"`;
+  }
+  if (action.type === 'key') {
+    return `key ${action.key}${action.repeat && action.repeat > 1 ? ` x${action.repeat}` : ''}`;
+  }
+  return undefined;
+}
+
+/**
+ * SVG overlay with the markers of the actions visible in a frame:
+ * rings for clicks, a line for drags, an arrow label for scrolls, a caption for keystrokes.
+ */
+function markerSvg(frame: RecordedFrame, actions: RecordedAction[]): string {
+  const toImage = ([x, y]: Coordinate): Coordinate => [
+    Math.round((x - frame.origin[0]) * frame.ratio),
+    Math.round((y - frame.origin[1]) * frame.ratio),
+  ];
+  const shapes: string[] = [];
+  const captions: string[] = [];
+
+  for (const action of actions) {
+    switch (action.type) {
+      case 'click': {
+        const [x, y] = toImage(action.coordinate);
+        const color = action.button === 'right' ? '#1a73e8' : '#e53935';
+        shapes.push(
+          `<circle cx="${x}" cy="${y}" r="12" fill="none" stroke="${color}" stroke-width="3"/>`,
+          `<circle cx="${x}" cy="${y}" r="3" fill="${color}"/>`,
+        );
+        if (action.doubleClick) {
+          shapes.push(`<circle cx="${x}" cy="${y}" r="18" fill="none" stroke="${color}" stroke-width="2"/>`);
+        }
+        break;
+      }
+      case 'drag': {
+        const [x1, y1] = toImage(action.startCoordinate);
+        const [x2, y2] = toImage(action.endCoordinate);
+        shapes.push(
+          `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#e53935" stroke-width="3" stroke-dasharray="6,4"/>`,
+          `<circle cx="${x1}" cy="${y1}" r="6" fill="none" stroke="#e53935" stroke-width="3"/>`,
+          `<circle cx="${x2}" cy="${y2}" r="6" fill="#e53935"/>`,
+        );
+        break;
+      }
+      case 'scroll': {
+        const [x, y] = toImage(action.coordinate);
+        shapes.push(
+          `<circle cx="${x}" cy="${y}" r="8" fill="none" stroke="#fb8c00" stroke-width="3"/>`,
+          `<text x="${x + 12}" y="${y + 4}" font-family="sans-serif" font-size="12" font-weight="bold" fill="#fb8c00">scroll ${action.direction}</text>`,
+        );
+        break;
+      }
+      default: {
+        const text = caption(action);
+        if (text) captions.push(text);
+      }
+    }
+  }
+
+  const shown = captions.slice(-MAX_CAPTIONS);
+  shown.forEach((text, i) => {
+    const y = frame.height - (shown.length - i) * 20;
+    shapes.push(
+      `<rect x="0" y="${y}" width="${frame.width}" height="20" fill="#000000" fill-opacity="0.65"/>`,
+      `<text x="6" y="${y + 15}" font-family="monospace" font-size="13" fill="#ffffff">${escapeXml(text)}</text>`,
+    );
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${frame.width}" height="${frame.height}">${shapes.join('')}</svg>`;
+}
+
+export class Recorder {
+  private _session: RecordingSession | null = null;
+
+  /**
+   * True while a recording is running.
+   */
+  get recording(): boolean {
+    return this._session !== null;
+  }
+
+  /**
+   * Start sampling frames and logging input actions. The first frame is captured before returning,
+   * so capture problems surface here rather than at stop.
+   */
+  async start(options: RecordingOptions = {}): Promise<void> {
+    if (this._session) {
+      throw new Error('A recording is already running. Stop it with desktop_record_stop first.');
+    }
+
+    const session: RecordingSession = {
+      options: {
+        ...options,
+        fps: options.fps ?? DEFAULT_FPS,
+        format: options.format ?? 'gif',
+        scale: options.scale ?? 0.5,
+        maxDuration: options.maxDuration ?? DEFAULT_MAX_DURATION,
+      },
+      startedAt: Date.now(),
+      frames: [],
+      bytes: 0,
+      actions: [],
+      controller: new AbortController(),
+      sampling: Promise.resolve(),
+      unsubscribe: () => {},
+    };
+    this._session = session;
+    try {
+      this.addFrame(session, await this.sampleFrame(session));
+    } catch (error) {
+      this._session = null;
+      throw error;
+    }
+
+    session.unsubscribe = inputController.onAction((action) => {
+      session.actions.push({ ...action, time: Date.now() - session.startedAt });
+    });
+    session.sampling = this.sample(session);
+  }
+
+  /**
+   * Stop the recording, capture a final frame and write the animation and action log.
+   */
+  async stop(): Promise<RecordingResult> {
+    const session = this._session;
+    if (!session) {
+      throw new Error('No recording is running. Start one with desktop_record_start.');
+    }
+    this._session = null;
+    session.controller.abort();
+    await session.sampling;
+    session.unsubscribe();
+
+    // The final frame shows the state after the last action
+    try {
+      if (session.frames.length < MAX_FRAMES) this.addFrame(session, await this.sampleFrame(session));
+    } catch {
+      // Keep what was recorded
+    }
+    const duration = Date.now() - session.startedAt;
+
+    const { format, outputDir = join(tmpdir(), 'codriver-recordings') } = session.options;
+    await mkdir(outputDir, { recursive: true });
+    const stamp = new Date(session.startedAt).toISOString().replace(/[:.]/g, '-');
+    const file = join(outputDir, `recording-${stamp}.${format}`);
+    const logFile = join(outputDir, `recording-${stamp}.json`);
+
+    const { data, width, height } = await this.encode(session);
+    await writeFile(file, data);
+    await writeFile(logFile, JSON.stringify({
+      startedAt: new Date(session.startedAt).toISOString(),
+      duration,
+      fps: session.options.fps,
+      file: basename(file),
+      frames: session.frames.length,
+      width,
+      height,
+      origin: session.frames[0].origin,
+      scale: session.frames[0].ratio * (width / session.frames[0].width),
+      actions: session.actions,
+    }, null, 2));
+
+    return { file, logFile, frames: session.frames.length, duration, width, height, actions: session.actions };
+  }
+
+  /**
+   * Capture frames at the configured rate until aborted, the time limit or the frame or byte limit.
+   * A failed capture (e.g. mid display change) skips that frame.
+   */
+  private async sample(session: RecordingSession): Promise<void> {
+    const { fps, maxDuration } = session.options;
+    const interval = 1000 / fps;
+    const { signal } = session.controller;
+
+    while (!signal.aborted) {
+      const started = Date.now();
+      if (started - session.startedAt >= maxDuration || session.frames.length >= MAX_FRAMES - 1) return;
+      if (session.bytes >= MAX_FRAME_BYTES) return;
+      try {
+        this.addFrame(session, await this.sampleFrame(session));
+      } catch {
+        // Skip this frame
+      }
+      await delay(Math.max(0, interval - (Date.now() - started)), undefined, { signal, ref: false }).catch(() => {});
+    }
+  }
+
+  private addFrame(session: RecordingSession, frame: RecordedFrame): void {
+    session.frames.push(frame);
+    session.bytes += frame.png.length;
+  }
+
+  private async sampleFrame(session: RecordingSession): Promise<RecordedFrame> {
+    const { screen, region, scale } = session.options;
+    const time = Date.now() - session.startedAt;
+    // Not a diff baseline: background sampling must not change what desktop_screenshot_diff compares against
+    const frame = await screenCapture.captureFrame(screen, region, false);
+    const width = Math.max(1, Math.round(frame.width * scale));
+    const height = Math.max(1, Math.round(frame.height * scale));
+    const png = await sharp(frame.pixels, { raw: { width: frame.width, height: frame.height, channels: 4 } })
+      .resize(width, height, { fit: 'fill' })
+      .png()
+      .toBuffer();
+    return {
+      time,
+      png,
+      width,
+      height,
+      origin: frame.origin ?? [0, 0],
+      ratio: (frame.pixelRatio ?? 1) * (width / frame.width),
+    };
+  }
+
+  /**
+   * Draw the markers onto every frame and encode them as one animation.
+   * Frames of a different size (display change mid-recording) are stretched to the first frame's size,
+   * shrunk further when all frames together exceed MAX_ENCODE_PIXELS.
+   */
+  private async encode(session: RecordingSession): Promise<{ data: Buffer; width: number; height: number }> {
+    const { frames, actions } = session;
+    const { format, fps } = session.options;
+    const shrink = Math.min(1, Math.sqrt(MAX_ENCODE_PIXELS / (frames.length * frames[0].width * frames[0].height)));
+    const width = Math.max(1, Math.floor(frames[0].width * shrink));
+    const height = Math.max(1, Math.floor(frames[0].height * shrink));
+    const visibleFor = Math.max(MARKER_DURATION, 1000 / fps);
+
+    // Pages are decoded straight into the strip, so the raw frames are held once
+    const pageSize = width * height * 4;
+    const strip = Buffer.alloc(pageSize * frames.length);
+    for (const [index, frame] of frames.entries()) {
+      const visible = actions.filter((a) => a.time <= frame.time && frame.time - a.time < visibleFor);
+      let image = sharp(frame.png);
+      if (visible.length > 0) {
+        image = sharp(await image.composite([{ input: Buffer.from(markerSvg(frame, visible)) }]).png().toBuffer());
+      }
+      const page = await image.resize(width, height, { fit: 'fill' }).ensureAlpha().raw().toBuffer();
+      page.copy(strip, index * pageSize);
+    }
+
+    // Each frame is shown until the next one was sampled
+    const delays = frames.map((frame, i) =>
+      Math.min(65535, Math.max(20, Math.round((frames[i + 1]?.time ?? frame.time + 1000 / fps) - frame.time))),
+    );
+
+    const animation = sharp(carrierGif(frames.length), { pages: -1 })
+      .resize(width, height, { fit: 'fill' })
+      .composite([{ input: strip, raw: { width, height: height * frames.length, channels: 4 }, top: 0, left: 0 }]);
+    const data = format === 'webp'
+      ? await animation.webp({ delay: delays, loop: 0, quality: 80 }).toBuffer()
+      : await animation.gif({ delay: delays, loop: 0 }).toBuffer();
+    return { data, width, height };
+  }
+}
+
+export const recorder = new Recorder();
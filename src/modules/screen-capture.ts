@@ -1,100 +1,145 @@
 /**
  * ScreenCapture Module
- * Handles desktop and window screenshots using screenshot-desktop + sharp.
- * On Windows, calls the screenCapture exe directly to work around bat path issues.
+ * Raw captures come from the active platform driver; cropping, scaling,
+ * encoding and frame diffing happen here with sharp.
  */
 
-import screenshot from 'screenshot-desktop';
+import { setTimeout as delay } from 'node:timers/promises';
 import sharp from 'sharp';
-import { existsSync, readFileSync, writeFileSync, mkdirSync, unlinkSync } from 'node:fs';
-import { join, dirname } from 'node:path';
-import { tmpdir } from 'node:os';
-import { execFile, execFileSync } from 'node:child_process';
-import { createRequire } from 'node:module';
-import type { ScreenshotOptions, ScreenshotResult, DisplayInfo } from '../types/index.js';
+import { getActiveDriver } from '../drivers/index.js';
+import type { ScreenDriver } from '../drivers/index.js';
+import { windowManager } from './window-manager.js';
+import type {
+  ScreenshotOptions,
+  ScreenshotResult,
+  DisplayInfo,
+  Region,
+  ScreenFrame,
+  FrameDiff,
+  DiffOptions,
+  StableOptions,
+  StableResult,
+  WindowInfo,
+  CaptureTransform,
+  ScreenshotMark,
+} from '../types/index.js';
 
-const require = createRequire(import.meta.url);
+/** Side length in pixels of the grid cells used to group changed pixels into regions */
+const DIFF_CELL = 16;
+/** Maximum number of changed regions reported */
+const MAX_DIFF_REGIONS = 20;
+/** Number of capture transforms kept for coordinateSpace: "screenshot" */
+const MAX_CAPTURE_TRANSFORMS = 50;
+/** Number of saved crops (saveAs) kept as image-matching templates */
+const MAX_TEMPLATES = 50;
+/** Height in pixels of a set-of-marks number label */
+const MARK_LABEL_HEIGHT = 15;
+/** Box and label colors of set-of-marks, by mark kind */
+const MARK_COLORS: Record<ScreenshotMark['kind'], string> = {
+  element: '#e0218a',
+  word: '#1a73e8',
+};
 
 /**
- * Ensure the screenCapture exe exists in temp on Windows.
- * screenshot-desktop ships a polyglot bat/C# file that self-compiles via .NET csc.exe.
- * We ensure compilation happened, then call the exe directly (bypassing bat path issues).
+ * Resolve the screen backend of the active driver.
  */
-function ensureWindowsExe(): string {
-  const tmpDir = join(tmpdir(), 'screenCapture');
-  const exePath = join(tmpDir, 'screenCapture_1.3.2.exe');
-
-  if (existsSync(exePath)) return exePath;
-
-  // Copy bat + manifest from screenshot-desktop to temp for self-compilation
-  if (!existsSync(tmpDir)) mkdirSync(tmpDir, { recursive: true });
-
-  const pkgDir = dirname(require.resolve('screenshot-desktop'));
-  const srcBat = join(pkgDir, 'lib', 'win32', 'screenCapture_1.3.2.bat');
-  const srcManifest = join(pkgDir, 'lib', 'win32', 'app.manifest');
-
-  const dstBat = join(tmpDir, 'screenCapture_1.3.2.bat');
-  const dstManifest = join(tmpDir, 'app.manifest');
-
-  if (!existsSync(dstBat)) writeFileSync(dstBat, readFileSync(srcBat));
-  if (!existsSync(dstManifest)) writeFileSync(dstManifest, readFileSync(srcManifest));
-
-  // Find .NET Framework csc.exe and compile the C# code directly
-  const cscPaths = [
-    join(process.env.SystemRoot ?? 'C:\\Windows', 'Microsoft.NET', 'Framework', 'v4.0.30319', 'csc.exe'),
-    join(process.env.SystemRoot ?? 'C:\\Windows', 'Microsoft.NET', 'Framework', 'v3.5', 'csc.exe'),
-  ];
-  const csc = cscPaths.find(p => existsSync(p));
-  if (csc) {
-    execFileSync(csc, [
-      '/nologo',
-      '/r:Microsoft.VisualBasic.dll',
-      `/win32manifest:${dstManifest}`,
-      `/out:${exePath}`,
-      dstBat,
-    ], { cwd: tmpDir, windowsHide: true, stdio: 'ignore' });
-  }
-
-  return exePath;
+function screenDriver(): ScreenDriver {
+  const driver = getActiveDriver();
+  if (!driver.screen) {
+    throw new Error(`Screen capture not implemented by driver "${driver.name}".`);
+  }
+  return driver.screen;
 }
 
 /**
- * Capture screenshot on Windows by calling the exe directly.
+ * Intersect a region with the screen, rounding to whole pixels.
+ * Throws when nothing of the region is on screen.
  */
-function captureWindows(imgPath: string): Promise<void> {
-  const exePath = ensureWindowsExe();
-  return new Promise((resolve, reject) => {
-    execFile(exePath, [imgPath], {
-      cwd: join(tmpdir(), 'screenCapture'),
-      windowsHide: true,
-      timeout: 30000,
-    }, (err) => {
-      if (err) reject(err);
-      else resolve();
-    });
-  });
+function clampRegion(region: Region, width: number, height: number): Region {
+  const [x, y, w, h] = region;
+  const left = Math.max(0, Math.round(x));
+  const top = Math.max(0, Math.round(y));
+  const right = Math.min(width, Math.round(x + w));
+  const bottom = Math.min(height, Math.round(y + h));
+  if (right <= left || bottom <= top) {
+    throw new Error(`Region [${region.join(', ')}] lies outside the ${width}x${height} screen.`);
+  }
+  return [left, top, right - left, bottom - top];
+}
+
+/** Overlap of two regions (may have zero or negative size when disjoint; clampRegion rejects those) */
+function intersectRegions(a: Region, b: Region): Region {
+  const left = Math.max(a[0], b[0]);
+  const top = Math.max(a[1], b[1]);
+  const right = Math.min(a[0] + a[2], b[0] + b[2]);
+  const bottom = Math.min(a[1] + a[3], b[1] + b[3]);
+  return [left, top, right - left, bottom - top];
+}
+
+/** Region in global coordinates -> relative to a display capture with the given origin */
+function toLocal(region: Region, origin: [number, number]): Region {
+  return [region[0] - origin[0], region[1] - origin[1], region[2], region[3]];
 }
 
 export class ScreenCapture {
+  /** Most recent raw capture, the baseline for diffs */
+  private _lastCapture: { screen?: number; buffer: Buffer } | null = null;
+  /** Image-to-screen transforms of recent captures, oldest first */
+  private _transforms = new Map<string, CaptureTransform>();
+  private _captureCounter = 0;
+  private _lastCaptureId: string | undefined;
+  /** Saved crops (PNG, capture pixels) by name, oldest first */
+  private _templates = new Map<string, Buffer>();
+
   /**
    * Take a screenshot of the desktop or a specific window.
-   * Uses screenshot-desktop for capture and sharp for processing.
+   * Uses the active driver for capture and sharp for processing.
+   * Internal captures (OCR, image matching) pass remember = false: they get no capture id and become
+   * neither the latest screenshot that screenshot coordinates default to nor the diff baseline.
    */
-  async capture(options: ScreenshotOptions = {}): Promise<ScreenshotResult> {
-    const { scale = 1.0, region, format = 'png', quality = 80, screen: screenId } = options;
+  async capture(options: ScreenshotOptions = {}, remember = true): Promise<ScreenshotResult> {
+    const { windowTitle, scale = 1.0, format = 'png', quality = 80, screen: screenId } = options;
+    let region = options.region;
 
+    const driver = screenDriver();
     let buffer: Buffer;
+    // Screen position of the captured image's top-left pixel
+    let origin: [number, number] = [0, 0];
+    let window: WindowInfo | undefined;
+    let nativeWindow = false;
 
-    if (process.platform === 'win32') {
-      // Direct exe call - bypasses bat path resolution issues
-      const imgPath = join(tmpdir(), `codriver_screenshot_${Date.now()}.png`);
-      await captureWindows(imgPath);
-      buffer = readFileSync(imgPath);
-      unlinkSync(imgPath);
+    if (windowTitle) {
+      window = await windowManager.findWindow(windowTitle);
+      if (!window) {
+        throw new Error(`Window with title containing "${windowTitle}" not found`);
+      }
+      const bounds: Region = [window.x, window.y, window.width, window.height];
+      if (driver.captureWindow) {
+        buffer = await driver.captureWindow(window);
+        origin = [window.x, window.y];
+        nativeWindow = true;
+      } else {
+        // No native window capture: crop the capture of the window's display (the one holding its center)
+        // to the window bounds (and the region within it)
+        if (screenId == null) {
+          const display = await this.displayAt(window.x + window.width / 2, window.y + window.height / 2);
+          if (display) return this.capture({ ...options, screen: display.id }, remember);
+        }
+        buffer = await driver.capture(screenId);
+        if (remember) this._lastCapture = { screen: screenId, buffer };
+        origin = await this.displayOrigin(screenId);
+        region = toLocal(
+          region
+            ? intersectRegions(bounds, [window.x + region[0], window.y + region[1], region[2], region[3]])
+            : bounds,
+          origin,
+        );
+      }
     } else {
-      const captureOpts: { format: 'png'; screen?: number } = { format: 'png' };
-      if (screenId != null) captureOpts.screen = screenId;
-      buffer = await screenshot(captureOpts) as Buffer;
+      buffer = await driver.capture(screenId);
+      if (remember) this._lastCapture = { screen: screenId, buffer };
+      origin = await this.displayOrigin(screenId);
+      if (region) region = toLocal(region, origin);
     }
 
     let image = sharp(buffer);
@@ -102,12 +147,41 @@ export class ScreenCapture {
     let width = metadata.width ?? 0;
     let height = metadata.height ?? 0;
 
-    // Crop to region if specified [x, y, width, height]
+    // Captured pixels per screen unit: measured for native window captures, from the display otherwise
+    const ratio = nativeWindow && window && window.width > 0
+      ? width / window.width
+      : await this.pixelRatio(screenId);
+
+    // A region off the default display: capture the display that contains it instead
+    if (region && !window && screenId == null) {
+      const centerX = region[0] + region[2] / 2;
+      const centerY = region[1] + region[3] / 2;
+      if (centerX < 0 || centerY < 0 || centerX >= width / ratio || centerY >= height / ratio) {
+        const display = await this.displayAt(centerX, centerY);
+        if (display) return this.capture({ ...options, screen: display.id }, remember);
+      }
+    }
+
+    // Crop to region if specified [x, y, width, height] in screen units, clamped to the image
+    let cropped: Region | undefined;
     if (region) {
-      const [rx, ry, rw, rh] = region;
-      image = image.extract({ left: rx, top: ry, width: rw, height: rh });
-      width = rw;
-      height = rh;
+      const [left, top, rw, rh] = clampRegion(region, width / ratio, height / ratio);
+      const pxLeft = Math.round(left * ratio);
+      const pxTop = Math.round(top * ratio);
+      const pxWidth = Math.min(width - pxLeft, Math.round(rw * ratio));
+      const pxHeight = Math.min(height - pxTop, Math.round(rh * ratio));
+      image = image.extract({ left: pxLeft, top: pxTop, width: pxWidth, height: pxHeight });
+      cropped = [left + origin[0], top + origin[1], rw, rh];
+      width = pxWidth;
+      height = pxHeight;
+    } else if (window || screenId != null) {
+      cropped = [origin[0], origin[1], Math.round(width / ratio), Math.round(height / ratio)];
+    }
+    const capturedWidth = width;
+    const capturedHeight = height;
+
+    if (options.saveAs) {
+      this.saveTemplate(options.saveAs, await image.clone().png().toBuffer());
     }
 
     // Scale down if requested
@@ -132,20 +206,389 @@ export class ScreenCapture {
 
     const data = outputBuffer.toString('base64');
 
+    const transform: CaptureTransform = {
+      originX: cropped?.[0] ?? origin[0],
+      originY: cropped?.[1] ?? origin[1],
+      scaleX: capturedWidth > 0 ? (width / capturedWidth) * ratio : ratio,
+      scaleY: capturedHeight > 0 ? (height / capturedHeight) * ratio : ratio,
+    };
+
     return {
       data,
       mimeType,
       width,
       height,
+      ...(remember ? { captureId: this.rememberTransform(transform) } : {}),
+      transform,
+      ...(cropped ? { region: cropped } : {}),
+      ...(window ? { window: { id: window.id, title: window.title } } : {}),
+      ...(screenId != null ? { screen: screenId } : {}),
     };
   }
 
+  /**
+   * Draw numbered boxes (set-of-marks) over a screenshot, in its own format and scale.
+   * Marks are placed through the capture transform; those outside the image are skipped.
+   */
+  async annotate(result: ScreenshotResult, marks: ScreenshotMark[]): Promise<ScreenshotResult> {
+    const { originX = 0, originY = 0, scaleX = 1, scaleY = 1 } = result.transform ?? {};
+    const { width, height } = result;
+
+    const shapes: string[] = [];
+    for (const { mark, kind, bounds: [bx, by, bw, bh] } of marks) {
+      const x = Math.round((bx - originX) * scaleX);
+      const y = Math.round((by - originY) * scaleY);
+      const w = Math.max(1, Math.round(bw * scaleX));
+      const h = Math.max(1, Math.round(bh * scaleY));
+      if (x + w <= 0 || y + h <= 0 || x >= width || y >= height) continue;
+
+      const color = MARK_COLORS[kind];
+      const label = String(mark);
+      const labelWidth = 6 + label.length * 7;
+      // Label above the box's top-left corner, or inside it at the top edge of the image
+      const labelX = Math.min(Math.max(0, x), Math.max(0, width - labelWidth));
+      const labelY = y >= MARK_LABEL_HEIGHT ? y - MARK_LABEL_HEIGHT : Math.max(0, y);
+      shapes.push(
+        `<rect x="${x + 0.5}" y="${y + 0.5}" width="${Math.max(w - 1, 1)}" height="${Math.max(h - 1, 1)}" fill="none" stroke="${color}" stroke-width="2"/>`,
+        `<rect x="${labelX}" y="${labelY}" width="${labelWidth}" height="${MARK_LABEL_HEIGHT}" fill="${color}"/>`,
+        `<text x="${labelX + 3}" y="${labelY + MARK_LABEL_HEIGHT - 3}" font-family="sans-serif" font-size="11" font-weight="bold" fill="#ffffff">${label}</text>`,
+      );
+    }
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join('')}</svg>`;
+    const image = sharp(Buffer.from(result.data, 'base64')).composite([{ input: Buffer.from(svg) }]);
+    const output = result.mimeType === 'image/jpeg'
+      ? await image.jpeg({ quality: 90 }).toBuffer()
+      : await image.png().toBuffer();
+    return { ...result, data: output.toString('base64') };
+  }
+
+  /**
+   * Keep a PNG (in capture pixels) as a named template for image matching.
+   */
+  saveTemplate(name: string, png: Buffer): void {
+    this._templates.delete(name);
+    this._templates.set(name, png);
+    if (this._templates.size > MAX_TEMPLATES) {
+      this._templates.delete(this._templates.keys().next().value!);
+    }
+  }
+
+  /**
+   * A template saved with saveAs/saveTemplate.
+   */
+  getTemplate(name: string): Buffer | undefined {
+    return this._templates.get(name);
+  }
+
+  /**
+   * Names of saved templates, oldest first.
+   */
+  listTemplates(): string[] {
+    return [...this._templates.keys()];
+  }
+
+  /**
+   * Map a point in a screenshot (by capture id, default: the latest capture) to screen coordinates.
+   */
+  toScreenCoordinate(point: [number, number], captureId?: string): [number, number] {
+    const id = captureId ?? this._lastCaptureId;
+    const transform = id ? this._transforms.get(id) : undefined;
+    if (!transform) {
+      throw new Error(
+        captureId
+          ? `Unknown capture id "${captureId}". Take a new screenshot with desktop_screenshot.`
+          : 'No screenshot taken yet. Call desktop_screenshot first.'
+      );
+    }
+    return [
+      Math.round(transform.originX + point[0] / transform.scaleX),
+      Math.round(transform.originY + point[1] / transform.scaleY),
+    ];
+  }
+
+  /**
+   * Global position of a display's top-left corner; for the default capture, where the driver says it
+   * starts (e.g. the Windows virtual screen). (0,0) without geometry.
+   */
+  async displayOrigin(screenId?: number): Promise<[number, number]> {
+    const driver = screenDriver();
+    if (screenId == null) return driver.captureOrigin ? driver.captureOrigin() : [0, 0];
+    const displays = await driver.listDisplays();
+    const bounds = displays.find((d) => d.id === screenId)?.bounds;
+    return bounds ? [bounds[0], bounds[1]] : [0, 0];
+  }
+
+  /**
+   * Display whose bounds contain a global point, if the driver reports geometry.
+   */
+  async displayAt(x: number, y: number): Promise<DisplayInfo | undefined> {
+    const displays = await screenDriver().listDisplays();
+    return displays.find((d) => d.bounds
+      && x >= d.bounds[0] && x < d.bounds[0] + d.bounds[2]
+      && y >= d.bounds[1] && y < d.bounds[1] + d.bounds[3]);
+  }
+
+  /**
+   * Captured pixels per screen coordinate unit on a display (1 unless the driver reports HiDPI).
+   */
+  async pixelRatio(screenId?: number): Promise<number> {
+    const driver = screenDriver();
+    return driver.pixelRatio ? driver.pixelRatio(screenId) : 1;
+  }
+
+  /**
+   * Capture a frame as raw RGBA pixels, optionally cropped to a region.
+   * The capture also becomes the new diff baseline unless asBaseline is false (background sampling).
+   */
+  async captureFrame(screenId?: number, region?: Region, asBaseline = true): Promise<ScreenFrame> {
+    const buffer = await screenDriver().capture(screenId);
+    if (asBaseline) this._lastCapture = { screen: screenId, buffer };
+    return this.decodeFrame(buffer, region, await this.pixelRatio(screenId), await this.displayOrigin(screenId));
+  }
+
+  /**
+   * The frame of the most recent capture of this screen, if any.
+   */
+  async previousFrame(screenId?: number, region?: Region): Promise<ScreenFrame | null> {
+    if (!this._lastCapture || this._lastCapture.screen !== screenId) return null;
+    return this.decodeFrame(
+      this._lastCapture.buffer,
+      region,
+      await this.pixelRatio(screenId),
+      await this.displayOrigin(screenId),
+    );
+  }
+
+  /**
+   * Compare two frames of the same size pixel by pixel.
+   */
+  diffFrames(before: ScreenFrame, after: ScreenFrame, options: DiffOptions = {}): FrameDiff {
+    return this.computeDiff(before, after, options.tolerance ?? 24).diff;
+  }
+
+  /**
+   * Render `after` with changed pixels tinted red and changed regions outlined (PNG).
+   */
+  async renderDiff(
+    before: ScreenFrame,
+    after: ScreenFrame,
+    options: DiffOptions & { scale?: number } = {},
+  ): Promise<{ diff: FrameDiff; image: ScreenshotResult }> {
+    const { diff, mask } = this.computeDiff(before, after, options.tolerance ?? 24);
+    const { width, height } = after;
+
+    const overlay = Buffer.alloc(width * height * 4);
+    for (let i = 0; i < mask.length; i++) {
+      if (mask[i]) overlay.set([255, 0, 0, 110], i * 4);
+    }
+    const outlines = diff.regions
+      .map(([x, y, w, h]) => `<rect x="${x + 0.5}" y="${y + 0.5}" width="${Math.max(w - 1, 1)}" height="${Math.max(h - 1, 1)}" fill="none" stroke="#ff00ff" stroke-width="2"/>`)
+      .join('');
+
+    let image = sharp(
+      await sharp(after.pixels, { raw: { width, height, channels: 4 } })
+        .composite([
+          { input: overlay, raw: { width, height, channels: 4 } },
+          { input: Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${outlines}</svg>`) },
+        ])
+        .png()
+        .toBuffer()
+    );
+
+    let outWidth = width;
+    let outHeight = height;
+    const scale = options.scale ?? 1.0;
+    if (scale < 1.0) {
+      outWidth = Math.round(width * scale);
+      outHeight = Math.round(height * scale);
+      image = image.resize(outWidth, outHeight);
+    }
+
+    const data = (await image.png().toBuffer()).toString('base64');
+    return { diff, image: { data, mimeType: 'image/png', width: outWidth, height: outHeight } };
+  }
+
+  /**
+   * Capture frames until consecutive frames differ by at most `threshold` for `stableFor` ms,
+   * or until the timeout expires.
+   */
+  async waitUntilStable(options: StableOptions = {}): Promise<StableResult> {
+    const {
+      threshold = 0.001,
+      stableFor = 500,
+      interval = 200,
+      timeout = 10000,
+      tolerance = 24,
+      screen,
+      region,
+      signal,
+      onProgress,
+    } = options;
+
+    const start = Date.now();
+    let previous = await this.captureFrame(screen, region);
+    let frames = 1;
+    let stableSince = Date.now();
+    let ratio = 0;
+
+    for (;;) {
+      await delay(interval, undefined, { signal }).catch(() => {});
+      const frame = await this.captureFrame(screen, region);
+      frames++;
+      ratio = this.computeDiff(previous, frame, tolerance).diff.ratio;
+      previous = frame;
+
+      const now = Date.now();
+      if (ratio > threshold) stableSince = now;
+
+      const elapsed = now - start;
+      if (now - stableSince >= stableFor) {
+        return { stable: true, elapsed, frames, ratio };
+      }
+      if (elapsed >= timeout || signal?.aborted) {
+        return { stable: false, elapsed, frames, ratio };
+      }
+      await onProgress?.(elapsed, timeout, `${(ratio * 100).toFixed(2)}% of pixels changed since the last frame`);
+    }
+  }
+
   /**
    * List all available displays/monitors.
    */
   async listDisplays(): Promise<DisplayInfo[]> {
-    const displays = await screenshot.listDisplays();
-    return displays.map((d) => ({ id: d.id, name: d.name }));
+    return screenDriver().listDisplays();
+  }
+
+  private async decodeFrame(
+    buffer: Buffer,
+    region: Region | undefined,
+    pixelRatio: number,
+    displayOrigin: [number, number],
+  ): Promise<ScreenFrame> {
+    let image = sharp(buffer);
+    let origin = displayOrigin;
+    if (region) {
+      const metadata = await image.metadata();
+      const imageWidth = metadata.width ?? 0;
+      const imageHeight = metadata.height ?? 0;
+      const [left, top, width, height] = clampRegion(
+        toLocal(region, displayOrigin),
+        imageWidth / pixelRatio,
+        imageHeight / pixelRatio,
+      );
+      origin = [left + displayOrigin[0], top + displayOrigin[1]];
+      const pxLeft = Math.round(left * pixelRatio);
+      const pxTop = Math.round(top * pixelRatio);
+      image = image.extract({
+        left: pxLeft,
+        top: pxTop,
+        width: Math.min(imageWidth - pxLeft, Math.round(width * pixelRatio)),
+        height: Math.min(imageHeight - pxTop, Math.round(height * pixelRatio)),
+      });
+    }
+    const { data, info } = await image.ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    return { pixels: data, width: info.width, height: info.height, pixelRatio, origin };
+  }
+
+  private rememberTransform(transform: CaptureTransform): string {
+    const id = `cap_${++this._captureCounter}`;
+    this._transforms.set(id, transform);
+    if (this._transforms.size > MAX_CAPTURE_TRANSFORMS) {
+      this._transforms.delete(this._transforms.keys().next().value!);
+    }
+    this._lastCaptureId = id;
+    return id;
+  }
+
+  /**
+   * Per-pixel change mask plus ratio and changed regions. Regions are connected groups of
+   * DIFF_CELL-sized grid cells containing changes, tightened to the changed pixels.
+   */
+  private computeDiff(before: ScreenFrame, after: ScreenFrame, tolerance: number): { diff: FrameDiff; mask: Uint8Array } {
+    if (before.width !== after.width || before.height !== after.height) {
+      throw new Error(
+        `Cannot diff frames of different sizes (${before.width}x${before.height} vs ${after.width}x${after.height}).`
+      );
+    }
+
+    const { width, height } = after;
+    const mask = new Uint8Array(width * height);
+    const cols = Math.ceil(width / DIFF_CELL);
+    const rows = Math.ceil(height / DIFF_CELL);
+    // Per cell with changes: tight bounds of its changed pixels [minX, minY, maxX, maxY]
+    const cells = new Map<number, [number, number, number, number]>();
+    let changed = 0;
+
+    const a = before.pixels;
+    const b = after.pixels;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        const o = p * 4;
+        if (
+          Math.abs(a[o] - b[o]) > tolerance ||
+          Math.abs(a[o + 1] - b[o + 1]) > tolerance ||
+          Math.abs(a[o + 2] - b[o + 2]) > tolerance
+        ) {
+          mask[p] = 1;
+          changed++;
+          const cell = Math.floor(y / DIFF_CELL) * cols + Math.floor(x / DIFF_CELL);
+          const box = cells.get(cell);
+          if (box) {
+            box[0] = Math.min(box[0], x);
+            box[1] = Math.min(box[1], y);
+            box[2] = Math.max(box[2], x);
+            box[3] = Math.max(box[3], y);
+          } else {
+            cells.set(cell, [x, y, x, y]);
+          }
+        }
+      }
+    }
+
+    // Flood-fill changed cells (8-neighbourhood) into regions
+    const regions: Region[] = [];
+    const seen = new Set<number>();
+    for (const startCell of cells.keys()) {
+      if (seen.has(startCell)) continue;
+      seen.add(startCell);
+      const stack = [startCell];
+      let [minX, minY, maxX, maxY] = cells.get(startCell)!;
+      while (stack.length > 0) {
+        const cell = stack.pop()!;
+        const [x0, y0, x1, y1] = cells.get(cell)!;
+        minX = Math.min(minX, x0);
+        minY = Math.min(minY, y0);
+        maxX = Math.max(maxX, x1);
+        maxY = Math.max(maxY, y1);
+        const cx = cell % cols;
+        const cy = Math.floor(cell / cols);
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = cx + dx;
+            const ny = cy + dy;
+            const neighbour = ny * cols + nx;
+            if (nx < 0 || ny < 0 || nx >= cols || ny >= rows || seen.has(neighbour) || !cells.has(neighbour)) continue;
+            seen.add(neighbour);
+            stack.push(neighbour);
+          }
+        }
+      }
+      regions.push([minX, minY, maxX - minX + 1, maxY - minY + 1]);
+    }
+    regions.sort((r1, r2) => r2[2] * r2[3] - r1[2] * r1[3]);
+
+    const totalPixels = width * height;
+    return {
+      diff: {
+        ratio: totalPixels > 0 ? changed / totalPixels : 0,
+        changedPixels: changed,
+        totalPixels,
+        regions: regions.slice(0, MAX_DIFF_REGIONS),
+      },
+      mask,
+    };
   }
 }
 
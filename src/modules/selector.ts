@@ -0,0 +1,469 @@
+/**
+ * Selector Module
+ * Structured query language over the UIElement tree returned by AccessibilityReader.
+ *
+ *   window[name*="Settings"] > button[name="Save"]:enabled
+ *   role=textfield nth=2
+ *   textfield:near(text "Username")
+ *
+ * Compounds are a role (or *), a quoted name shorthand, [attr op value] filters, key=value terms
+ * and :pseudo states. Whitespace is the descendant combinator, ">" the child combinator.
+ */
+
+import type { UIElement } from '../types/index.js';
+
+type AttributeName = 'role' | 'name' | 'value' | 'description' | 'ref';
+type AttributeOp = '=' | '*=' | '^=' | '$=' | '~=';
+
+interface AttributeFilter {
+  attribute: AttributeName;
+  op: AttributeOp;
+  value: string | RegExp;
+  ignoreCase: boolean;
+}
+
+type PseudoFilter =
+  | { kind: 'enabled' | 'disabled' | 'checked' | 'unchecked' | 'visible' | 'focused' | 'selected' | 'expanded' | 'collapsed' }
+  | { kind: 'has' | 'not'; selector: ParsedSelector }
+  | { kind: 'near'; selector: ParsedSelector; distance: number };
+
+interface CompoundSelector {
+  /** Relation to the previous compound: descendant (" ") or child (">") */
+  combinator: ' ' | '>' | null;
+  role?: string;
+  attributes: AttributeFilter[];
+  pseudos: PseudoFilter[];
+}
+
+export interface ParsedSelector {
+  source: string;
+  compounds: CompoundSelector[];
+  /** 1-based index into the matches (nth=N or :nth(N)) */
+  nth?: number;
+}
+
+const ATTRIBUTES = new Set<AttributeName>(['role', 'name', 'value', 'description', 'ref']);
+const STATES = new Set(['enabled', 'disabled', 'checked', 'unchecked', 'visible', 'focused', 'selected', 'expanded', 'collapsed']);
+const CHECKED_VALUES = new Set(['1', 'true', 'on', 'checked', 'yes']);
+
+/** Default maximum edge-to-edge distance in pixels for :near() */
+const DEFAULT_NEAR_DISTANCE = 50;
+
+class SelectorParser {
+  private pos = 0;
+  /** :nth(N) seen in the compound being parsed */
+  private compoundNth: number | undefined;
+
+  constructor(private readonly input: string) {}
+
+  parse(): ParsedSelector {
+    const selector = this.parseSelector();
+    if (this.pos < this.input.length) {
+      this.fail(`unexpected "${this.input[this.pos]}"`);
+    }
+    return selector;
+  }
+
+  private parseSelector(): ParsedSelector {
+    const start = this.pos;
+    const compounds: CompoundSelector[] = [];
+    let nth: number | undefined;
+    let pending: '>' | null = null;
+
+    for (;;) {
+      const sawSpace = this.skipSpace();
+      const ch = this.peek();
+      if (ch === undefined || ch === ')' || ch === ',') break;
+
+      const current = compounds[compounds.length - 1];
+
+      if (ch === '>') {
+        if (!current || pending) this.fail('">" must sit between two compounds');
+        this.pos++;
+        pending = '>';
+        continue;
+      }
+
+      // Terms that extend the current compound even after whitespace: "name" and key=value
+      if (current && !pending && (ch === '"' || ch === "'")) {
+        current.attributes.push({ attribute: 'name', op: '*=', value: this.readString(), ignoreCase: true });
+        continue;
+      }
+      const term = this.matchKeyTerm();
+      if (term) {
+        this.pos += term.length + 1;
+        if (term === 'nth') {
+          if (pending) this.fail('"nth=" cannot follow ">"');
+          nth = this.readIndex();
+        } else {
+          const target = pending || !current ? this.pushCompound(compounds, pending) : current;
+          pending = null;
+          this.addKeyTerm(target, term as AttributeName);
+        }
+        continue;
+      }
+
+      if (current && !sawSpace && !pending) {
+        // Modifiers directly after a name shorthand, e.g. button "Save":enabled
+        if (ch !== '[' && ch !== ':') this.fail(`unexpected "${ch}"`);
+        this.parseModifiers(current);
+        nth = this.takeCompoundNth() ?? nth;
+        continue;
+      }
+      if (nth !== undefined) {
+        this.fail('nth must come at the end of the selector');
+      }
+      const compound = this.pushCompound(compounds, current ? (pending ?? ' ') : null);
+      pending = null;
+      this.parseCompound(compound);
+      nth = this.takeCompoundNth() ?? nth;
+    }
+    nth = this.takeCompoundNth() ?? nth;
+
+    if (pending) this.fail('selector cannot end with ">"');
+    if (compounds.length === 0) this.fail('empty selector');
+
+    return { source: this.input.slice(start, this.pos).trim(), compounds, ...(nth !== undefined ? { nth } : {}) };
+  }
+
+  private takeCompoundNth(): number | undefined {
+    const nth = this.compoundNth;
+    this.compoundNth = undefined;
+    return nth;
+  }
+
+  private pushCompound(compounds: CompoundSelector[], combinator: CompoundSelector['combinator']): CompoundSelector {
+    const compound: CompoundSelector = { combinator, attributes: [], pseudos: [] };
+    compounds.push(compound);
+    return compound;
+  }
+
+  private parseCompound(compound: CompoundSelector): void {
+    const ch = this.peek();
+    if (ch === '*') {
+      this.pos++;
+    } else if (ch !== undefined && /[a-zA-Z]/.test(ch)) {
+      compound.role = this.readIdentifier().toLowerCase();
+    } else if (ch !== '[' && ch !== ':' && ch !== '"' && ch !== "'") {
+      this.fail(`unexpected "${ch}"`);
+    }
+    this.parseModifiers(compound);
+  }
+
+  /** [attr] filters, :pseudos and quoted names attached to a compound */
+  private parseModifiers(compound: CompoundSelector): void {
+    for (;;) {
+      const next = this.peek();
+      if (next === '[') {
+        this.parseAttribute(compound);
+      } else if (next === ':') {
+        this.parsePseudo(compound);
+      } else if (next === '"' || next === "'") {
+        compound.attributes.push({ attribute: 'name', op: '*=', value: this.readString(), ignoreCase: true });
+      } else {
+        return;
+      }
+    }
+  }
+
+  private parseAttribute(compound: CompoundSelector): void {
+    this.pos++; // [
+    this.skipSpace();
+    const attribute = this.readIdentifier().toLowerCase() as AttributeName;
+    if (!ATTRIBUTES.has(attribute)) {
+      this.fail(`unknown attribute "${attribute}" (expected ${[...ATTRIBUTES].join(', ')})`);
+    }
+    this.skipSpace();
+    const op = (['*=', '^=', '$=', '~=', '='] as AttributeOp[]).find((o) => this.input.startsWith(o, this.pos));
+    if (!op) this.fail('expected =, *=, ^=, $= or ~=');
+    this.pos += op.length;
+    this.skipSpace();
+    const value = this.readValue();
+    this.skipSpace();
+    let ignoreCase = false;
+    if (/^i\s*\]/.test(this.input.slice(this.pos))) {
+      ignoreCase = true;
+      this.pos++;
+      this.skipSpace();
+    }
+    this.expect(']');
+    compound.attributes.push(this.makeFilter(attribute, op, value, ignoreCase));
+  }
+
+  private parsePseudo(compound: CompoundSelector): void {
+    this.pos++; // :
+    const name = this.readIdentifier().toLowerCase();
+
+    if (STATES.has(name)) {
+      compound.pseudos.push({ kind: name as 'enabled' });
+      return;
+    }
+
+    if (!['nth', 'has', 'not', 'near'].includes(name)) {
+      this.fail(`unknown pseudo-class ":${name}"`);
+    }
+    this.expect('(');
+    this.skipSpace();
+    if (name === 'nth') {
+      this.compoundNth = this.readIndex();
+    } else if (name === 'has' || name === 'not') {
+      compound.pseudos.push({ kind: name, selector: this.parseSelector() });
+    } else if (name === 'near') {
+      const selector = this.parseSelector();
+      let distance = DEFAULT_NEAR_DISTANCE;
+      if (this.peek() === ',') {
+        this.pos++;
+        this.skipSpace();
+        distance = this.readIndex();
+      }
+      compound.pseudos.push({ kind: 'near', selector, distance });
+    }
+    this.skipSpace();
+    this.expect(')');
+  }
+
+  private addKeyTerm(compound: CompoundSelector, attribute: AttributeName): void {
+    const value = this.readValue();
+    if (attribute === 'role' && typeof value === 'string') {
+      compound.role = value.toLowerCase();
+      return;
+    }
+    compound.attributes.push(this.makeFilter(attribute, '=', value, false));
+  }
+
+  private makeFilter(attribute: AttributeName, op: AttributeOp, value: string | RegExp, ignoreCase: boolean): AttributeFilter {
+    if (op === '~=' && typeof value === 'string') {
+      try {
+        return { attribute, op, value: new RegExp(value, ignoreCase ? 'i' : ''), ignoreCase };
+      } catch (error) {
+        this.fail(`invalid regex: ${(error as Error).message}`);
+      }
+    }
+    return { attribute, op, value, ignoreCase };
+  }
+
+  /** key=value term at the cursor (role=, name=, value=, description=, ref=, nth=) */
+  private matchKeyTerm(): string | undefined {
+    const m = /^([a-z]+)=/.exec(this.input.slice(this.pos));
+    return m && (ATTRIBUTES.has(m[1] as AttributeName) || m[1] === 'nth') ? m[1] : undefined;
+  }
+
+  /** Quoted string, /regex/flags or bare word */
+  private readValue(): string | RegExp {
+    const ch = this.peek();
+    if (ch === '"' || ch === "'") return this.readString();
+    if (ch === '/') return this.readRegex();
+    const m = /^[^\s\]>),]+/.exec(this.input.slice(this.pos));
+    if (!m) this.fail('expected a value');
+    this.pos += m[0].length;
+    return m[0];
+  }
+
+  private readString(): string {
+    const quote = this.input[this.pos++];
+    let out = '';
+    while (this.pos < this.input.length && this.input[this.pos] !== quote) {
+      if (this.input[this.pos] === '\\') this.pos++;
+      out += this.input[this.pos++] ?? '';
+    }
+    this.expect(quote);
+    return out;
+  }
+
+  private readRegex(): RegExp {
+    const m = /^\/((?:\\.|[^/\\])+)\/([a-z]*)/.exec(this.input.slice(this.pos));
+    if (!m) this.fail('unterminated regex');
+    this.pos += m[0].length;
+    try {
+      return new RegExp(m[1], m[2]);
+    } catch (error) {
+      this.fail(`invalid regex: ${(error as Error).message}`);
+    }
+  }
+
+  private readIdentifier(): string {
+    const m = /^[a-zA-Z][\w-]*/.exec(this.input.slice(this.pos));
+    if (!m) this.fail('expected a name');
+    this.pos += m[0].length;
+    return m[0];
+  }
+
+  private readIndex(): number {
+    const m = /^\d+/.exec(this.input.slice(this.pos));
+    if (!m || Number(m[0]) < 1) this.fail('expected a positive integer');
+    this.pos += m[0].length;
+    return Number(m[0]);
+  }
+
+  private skipSpace(): boolean {
+    const start = this.pos;
+    while (/\s/.test(this.input[this.pos] ?? '')) this.pos++;
+    return this.pos > start;
+  }
+
+  private peek(): string | undefined {
+    return this.input[this.pos];
+  }
+
+  private expect(ch: string): void {
+    if (this.input[this.pos] !== ch) this.fail(`expected "${ch}"`);
+    this.pos++;
+  }
+
+  private fail(reason: string): never {
+    throw new Error(`Invalid selector "${this.input}": ${reason} at position ${this.pos}`);
+  }
+}
+
+/**
+ * Parse a selector string. Throws with the failing position on syntax errors.
+ */
+export function parseSelector(input: string): ParsedSelector {
+  return new SelectorParser(input).parse();
+}
+
+interface Node {
+  element: UIElement;
+  parent: Node | null;
+}
+
+/** Flatten a tree depth-first (document order), keeping parent links */
+function flatten(elements: UIElement[], parent: Node | null = null, out: Node[] = []): Node[] {
+  for (const element of elements) {
+    const node = { element, parent };
+    out.push(node);
+    if (element.children) flatten(element.children, node, out);
+  }
+  return out;
+}
+
+function attributeOf(element: UIElement, attribute: AttributeName): string {
+  return element[attribute] ?? '';
+}
+
+function matchAttribute(element: UIElement, filter: AttributeFilter): boolean {
+  const actual = attributeOf(element, filter.attribute);
+  if (filter.value instanceof RegExp) {
+    return filter.value.test(actual);
+  }
+  const a = filter.ignoreCase || filter.attribute === 'role' ? actual.toLowerCase() : actual;
+  const v = filter.ignoreCase || filter.attribute === 'role' ? filter.value.toLowerCase() : filter.value;
+  switch (filter.op) {
+    case '=': return a === v;
+    case '*=': return a.includes(v);
+    case '^=': return a.startsWith(v);
+    case '$=': return a.endsWith(v);
+    default: return false;
+  }
+}
+
+/** Checked state as reported by the platform, else guessed from the value ("1", "on", ...) */
+function checkedState(element: UIElement): boolean | 'mixed' {
+  return element.checked ?? CHECKED_VALUES.has((element.value ?? '').toLowerCase());
+}
+
+/** Edge-to-edge distance between two bounding boxes (0 when they overlap) */
+function boxDistance(a: UIElement, b: UIElement): number {
+  const [ax, ay, aw, ah] = a.bounds;
+  const [bx, by, bw, bh] = b.bounds;
+  const dx = Math.max(0, bx - (ax + aw), ax - (bx + bw));
+  const dy = Math.max(0, by - (ay + ah), ay - (by + bh));
+  return Math.hypot(dx, dy);
+}
+
+class SelectorMatcher {
+  private readonly nodes: Node[];
+  /** Whole-tree results of nested selectors (:near and :not arguments) */
+  private readonly memo = new Map<ParsedSelector, Node[]>();
+
+  constructor(roots: UIElement[]) {
+    this.nodes = flatten(roots);
+  }
+
+  query(selector: ParsedSelector, scope?: Node): Node[] {
+    if (!scope) {
+      const cached = this.memo.get(selector);
+      if (cached) return cached;
+    }
+    const result = this.evaluate(selector, scope);
+    if (!scope) this.memo.set(selector, result);
+    return result;
+  }
+
+  private evaluate(selector: ParsedSelector, scope?: Node): Node[] {
+    const candidates = scope ? this.nodes.filter((n) => n !== scope && this.isWithin(n, scope)) : this.nodes;
+    const last = selector.compounds.length - 1;
+    let matches = candidates.filter((n) => this.matchesAt(n, selector.compounds, last, scope));
+
+    // :near() on the subject orders results by distance to the closest anchor
+    const near = selector.compounds[last].pseudos.find((p) => p.kind === 'near');
+    if (near && near.kind === 'near') {
+      const anchors = this.query(near.selector).map((n) => n.element);
+      const distanceOf = (n: Node) => Math.min(...anchors.filter((a) => a !== n.element).map((a) => boxDistance(n.element, a)));
+      matches = [...matches].sort((a, b) => distanceOf(a) - distanceOf(b));
+    }
+
+    if (selector.nth !== undefined) {
+      const picked = matches[selector.nth - 1];
+      return picked ? [picked] : [];
+    }
+    return matches;
+  }
+
+  private matchesAt(node: Node, compounds: CompoundSelector[], index: number, scope?: Node): boolean {
+    const compound = compounds[index];
+    if (!this.matchesCompound(node, compound)) return false;
+    if (index === 0) return true;
+
+    if (compound.combinator === '>') {
+      const parent = node.parent;
+      return parent !== null && parent !== scope && this.matchesAt(parent, compounds, index - 1, scope);
+    }
+    for (let ancestor = node.parent; ancestor && ancestor !== scope; ancestor = ancestor.parent) {
+      if (this.matchesAt(ancestor, compounds, index - 1, scope)) return true;
+    }
+    return false;
+  }
+
+  private matchesCompound(node: Node, compound: CompoundSelector): boolean {
+    const el = node.element;
+    if (compound.role && el.role.toLowerCase() !== compound.role) return false;
+    if (!compound.attributes.every((f) => matchAttribute(el, f))) return false;
+    return compound.pseudos.every((p) => this.matchesPseudo(node, p));
+  }
+
+  private matchesPseudo(node: Node, pseudo: PseudoFilter): boolean {
+    const el = node.element;
+    switch (pseudo.kind) {
+      case 'enabled': return el.enabled !== false;
+      case 'disabled': return el.enabled === false;
+      case 'checked': return checkedState(el) === true;
+      case 'unchecked': return checkedState(el) === false;
+      case 'visible': return el.bounds[2] > 0 && el.bounds[3] > 0 && !el.offscreen;
+      case 'focused': return el.focused === true;
+      case 'selected': return el.selected === true;
+      case 'expanded': return el.expanded === true;
+      case 'collapsed': return el.expanded === false;
+      case 'has': return this.query(pseudo.selector, node).length > 0;
+      case 'not': return !this.query(pseudo.selector).some((n) => n === node);
+      case 'near':
+        return this.query(pseudo.selector).some((n) => n !== node && boxDistance(el, n.element) <= pseudo.distance);
+    }
+  }
+
+  private isWithin(node: Node, scope: Node): boolean {
+    for (let p = node.parent; p; p = p.parent) {
+      if (p === scope) return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Return the elements of a tree matching a selector, in document order
+ * (or by distance when the subject uses :near()).
+ */
+export function querySelector(elements: UIElement[], selector: string | ParsedSelector): UIElement[] {
+  const parsed = typeof selector === 'string' ? parseSelector(selector) : selector;
+  return new SelectorMatcher(elements).query(parsed).map((n) => n.element);
+}
@@ -0,0 +1,115 @@
+/**
+ * Waiter Module
+ * Polls the accessibility tree, window list or OCR until a condition holds or a timeout expires.
+ */
+
+import { setTimeout as delay } from 'node:timers/promises';
+import { accessibilityReader } from './accessibility.js';
+import { windowManager } from './window-manager.js';
+import { ocrEngine } from './ocr-engine.js';
+import { parseSelector } from './selector.js';
+import type { UIElement, WaitCondition, WaitOptions, WaitResult } from '../types/index.js';
+
+export class Waiter {
+  /**
+   * Check the condition every `interval` ms until it holds or `timeout` ms have passed.
+   * Errors from individual checks (e.g. a window mid-close) count as "not yet" and are reported in the detail.
+   */
+  async waitFor(condition: WaitCondition, options: WaitOptions = {}): Promise<WaitResult> {
+    const { timeout = 10000, interval = 500, signal, onProgress } = options;
+
+    // Fail fast on a malformed selector instead of polling until the timeout
+    if ('selector' in condition && condition.selector) {
+      parseSelector(condition.selector);
+    }
+
+    const start = Date.now();
+    let attempts = 0;
+
+    for (;;) {
+      attempts++;
+      let check: { met: boolean; detail: string };
+      try {
+        check = await this.check(condition);
+      } catch (error) {
+        check = { met: false, detail: `check failed: ${(error as Error).message}` };
+      }
+
+      const elapsed = Date.now() - start;
+      if (check.met) {
+        return { satisfied: true, elapsed, attempts, detail: check.detail };
+      }
+      if (elapsed >= timeout || signal?.aborted) {
+        return { satisfied: false, elapsed, attempts, detail: check.detail };
+      }
+
+      await onProgress?.(elapsed, timeout, `${this.describe(condition)}: ${check.detail}`);
+      await delay(Math.min(interval, timeout - elapsed), undefined, { signal }).catch(() => {});
+    }
+  }
+
+  /**
+   * Human-readable summary of a condition.
+   */
+  describe(condition: WaitCondition): string {
+    switch (condition.type) {
+      case 'element_appears':
+      case 'element_disappears':
+        return `${condition.type.replace('_', ' ')} "${condition.selector ?? condition.query}"`;
+      case 'value_equals':
+        return `value of "${condition.selector ?? condition.query}" equals "${condition.value}"`;
+      case 'window_appears':
+        return `window "${condition.title}" appears`;
+      case 'text_visible':
+        return `text "${condition.text}" visible${condition.region ? ` in [${condition.region.join(', ')}]` : ''}`;
+    }
+  }
+
+  private async check(condition: WaitCondition): Promise<{ met: boolean; detail: string }> {
+    switch (condition.type) {
+      case 'element_appears':
+      case 'element_disappears': {
+        const matches = await this.findMatches(condition);
+        const met = condition.type === 'element_appears' ? matches.length > 0 : matches.length === 0;
+        return { met, detail: this.describeMatches(matches) };
+      }
+
+      case 'value_equals': {
+        const matches = await this.findMatches(condition);
+        const met = matches.some((el) => (el.value ?? '') === condition.value);
+        const values = matches.map((el) => `"${el.value ?? ''}"`);
+        return { met, detail: matches.length > 0 ? `current value ${values.join(', ')}` : 'no matching element' };
+      }
+
+      case 'window_appears': {
+        const windows = await windowManager.listWindows();
+        const title = condition.title.toLowerCase();
+        const win = windows.find((w) => w.title.toLowerCase().includes(title));
+        return { met: !!win, detail: win ? `found "${win.title}" (${win.processName})` : `${windows.length} window(s), none matching` };
+      }
+
+      case 'text_visible': {
+        const { text } = await ocrEngine.recognize({ region: condition.region });
+        const normalize = (t: string) => t.replace(/\s+/g, ' ').trim().toLowerCase();
+        const met = normalize(text).includes(normalize(condition.text));
+        const preview = normalize(text);
+        return { met, detail: preview ? `OCR read "${preview.length > 60 ? preview.slice(0, 60) + '...' : preview}"` : 'no text recognized' };
+      }
+    }
+  }
+
+  private async findMatches(condition: { query?: string; selector?: string; windowTitle?: string }): Promise<UIElement[]> {
+    const elements = await accessibilityReader.readUI({ windowTitle: condition.windowTitle, depth: 10, filter: 'all' });
+    return condition.selector
+      ? accessibilityReader.querySelector(elements, condition.selector)
+      : accessibilityReader.findElements(elements, condition.query ?? '');
+  }
+
+  private describeMatches(matches: UIElement[]): string {
+    if (matches.length === 0) return 'no matching element';
+    const listed = matches.slice(0, 3).map((el) => `[${el.ref}] ${el.role} "${el.name}"`).join(', ');
+    return `${matches.length} match(es): ${listed}${matches.length > 3 ? ', ...' : ''}`;
+  }
+}
+
+export const waiter = new Waiter();
@@ -3,7 +3,10 @@
  * Registers all desktop automation tools with the MCP server
  */
 
+import { setTimeout as delay } from 'node:timers/promises';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { CallToolResult, ServerNotification, ServerRequest, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 
 import { screenCapture } from './modules/screen-capture.js';
@@ -12,8 +15,66 @@ import { windowManager } from './modules/window-manager.js';
 import { accessibilityReader } from './modules/accessibility.js';
 import { appLauncher } from './modules/app-launcher.js';
 import { ocrEngine } from './modules/ocr-engine.js';
+import { imageMatcher } from './modules/image-matcher.js';
+import { waiter } from './modules/waiter.js';
+import { recorder } from './modules/recorder.js';
+import { MacroRecorder, loadMacro, macroPlayer, parseMacro } from './modules/macro.js';
+import type {
+  CaptureTransform,
+  DisplayInfo,
+  Region,
+  ScreenshotMark,
+  ScreenshotResult,
+  UIElement,
+  WaitCondition,
+} from './types/index.js';
 
-export function createServer(): McpServer {
+const SELECTOR_DESCRIPTION =
+  'Selector, e.g. \'window[name*="Settings"] > button[name="Save"]:enabled\', ' +
+  '\'role=textfield nth=2\' or \'textfield:near(text "Username")\'. ' +
+  'Attributes: role, name, value, description with =, *=, ^=, $=, ~= (regex); states: :enabled, :disabled, :checked, :unchecked, :visible, :focused, :selected, :expanded, :collapsed; ' +
+  'also :has(), :not(), :near(sel, px). Must match exactly one element when clicking/typing.';
+
+const coordinateSpaceSchema = z
+  .enum(['screen', 'screenshot'])
+  .optional()
+  .describe('"screenshot": coordinates are pixels in a desktop_screenshot image (see captureId). Default: screen.');
+const captureIdSchema = z
+  .string()
+  .optional()
+  .describe('Capture id from desktop_screenshot for coordinateSpace "screenshot". Default: the latest screenshot.');
+
+const ocrPreprocessSchema = z
+  .union([
+    z.enum(['auto', 'none']),
+    z.array(z.enum(['upscale', 'grayscale', 'invert', 'sharpen', 'threshold'])),
+  ])
+  .optional()
+  .describe(
+    'Image preprocessing before OCR: "auto" (upscale unless HiDPI, grayscale, invert dark backgrounds, sharpen), "none", ' +
+    'or a list of steps: upscale (2x), grayscale, invert (only if the background is dark), sharpen, threshold. Default: none.'
+  );
+const ocrPsmSchema = z
+  .enum(['auto', 'single_column', 'single_block', 'single_line', 'single_word', 'single_char', 'sparse_text', 'raw_line'])
+  .optional()
+  .describe('Tesseract page segmentation mode. Use single_line/single_word for small regions, sparse_text for scattered UI labels. Default: auto.');
+const ocrWhitelistSchema = z
+  .string()
+  .optional()
+  .describe('Only recognize these characters (e.g. "0123456789.,")');
+
+/** Tools that run other tools: their steps are recorded individually instead */
+const UNRECORDED_TOOLS = new Set(['desktop_run_macro', 'desktop_batch']);
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+type ToolHandler = (args: Record<string, unknown>, extra: ToolExtra) => Promise<CallToolResult>;
+
+export interface ServerOptions {
+  /** Record every successful desktop_* call to this macro file (JSON, or YAML for .yaml/.yml) */
+  recordMacro?: string;
+}
+
+export function createServer(options: ServerOptions = {}): McpServer {
   const server = new McpServer(
     {
       name: 'codriver-mcp',
@@ -26,20 +87,70 @@ export function createServer(): McpServer {
     }
   );
 
+  // Every tool by name with its input schema, for desktop_run_macro. In record mode each call is prepared
+  // before it runs (refs may vanish with it) and appended to the macro once it succeeded.
+  const tools = new Map<string, { schema: z.ZodObject<z.ZodRawShape>; run: ToolHandler }>();
+  const macroRecorder = options.recordMacro ? new MacroRecorder(options.recordMacro) : undefined;
+
+  /** Register a tool with the server and in `tools`, recording its successful calls in record mode. Returns its entry. */
+  function tool<S extends z.ZodRawShape>(
+    name: string,
+    config: { title: string; description: string; inputSchema: S; annotations?: ToolAnnotations },
+    handler: (args: z.objectOutputType<S, z.ZodTypeAny>, extra: ToolExtra) => Promise<CallToolResult>,
+  ): { schema: z.ZodObject<S>; run: ToolHandler } {
+    const schema = z.object(config.inputSchema);
+    const run: ToolHandler = async (args, extra) => {
+      const parsed = schema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+      }
+      const step = macroRecorder && !UNRECORDED_TOOLS.has(name) ? macroRecorder.prepare(name, args) : undefined;
+      const result = await handler(parsed.data, extra);
+      if (macroRecorder && step && !result.isError) {
+        await macroRecorder.append(step).catch((error: unknown) => {
+          console.error(`Macro recording to ${macroRecorder.file} failed: ${(error as Error).message}`);
+        });
+      }
+      return result;
+    };
+    tools.set(name, { schema, run });
+    const inputSchema: z.ZodRawShape = config.inputSchema;
+    server.registerTool(name, { ...config, inputSchema }, run);
+    return { schema, run };
+  }
+
   // === Phase 1: Core Tools ===
 
-  server.registerTool(
+  const screenshotTool = tool(
     'desktop_screenshot',
     {
       title: 'Desktop Screenshot',
       description:
         'Take a screenshot of the entire desktop or a specific window. ' +
-        'Returns the image as base64 PNG. Use windowTitle to capture a specific window.',
+        'Returns the image as base64 PNG. Use windowTitle to capture a specific window, ' +
+        'region or ref to capture only part of the screen (much smaller images for remote use). ' +
+        'The result includes a capture id mapping image pixels to screen coordinates (HiDPI and scale aware); ' +
+        'pass it as captureId with coordinateSpace "screenshot" to click, scroll or drag at image coordinates. ' +
+        'With marks, interactive elements (and OCR words) are boxed and numbered, and a legend maps each mark to a ref.',
       inputSchema: {
         windowTitle: z
           .string()
           .optional()
           .describe('Title of window to capture (substring match). Omit for full desktop.'),
+        region: z
+          .tuple([z.number(), z.number(), z.number().positive(), z.number().positive()])
+          .optional()
+          .describe('Capture only this area [x, y, width, height] in global screen coordinates (relative to the window with windowTitle). Without screen, the display containing it is captured.'),
+        ref: z
+          .string()
+          .optional()
+          .describe('Capture only the bounds of this element (ref from desktop_read_ui/desktop_find). Alternative to region and windowTitle.'),
+        padding: z
+          .number()
+          .min(0)
+          .max(500)
+          .optional()
+          .describe('Extra pixels around the ref bounds (or region) on each side. Default: 0.'),
         scale: z
           .number()
           .min(0.1)
@@ -59,17 +170,74 @@ export function createServer(): McpServer {
         screen: z
           .number()
           .optional()
-          .describe('Display/monitor ID to capture. Use desktop_displays to list available monitors.'),
+          .describe('Display/monitor ID to capture. Use desktop_displays to list available monitors and their bounds.'),
+        saveAs: z
+          .string()
+          .optional()
+          .describe('Save the captured area (unscaled) under this name as a template for desktop_find_image.'),
+        marks: z
+          .enum(['none', 'elements', 'all'])
+          .optional()
+          .describe('Set-of-marks overlay: "elements" draws a numbered box on every interactive element of the window (or frontmost app), "all" also on OCR words outside them. The legend lists the ref of each mark. Default: none.'),
       },
     },
-    async ({ windowTitle, scale, format, quality, screen }) => {
-      const result = await screenCapture.capture({
-        windowTitle,
-        scale: scale ?? 1.0,
-        format: format ?? 'png',
-        quality: quality ?? 80,
-        screen,
-      });
+    async ({ windowTitle, region, ref, padding, scale, format, quality, screen, saveAs, marks }) => {
+      let crop = region;
+      if (ref) {
+        const el = accessibilityReader.getElementByRef(ref);
+        if (!el) {
+          return {
+            content: [{ type: 'text' as const, text: `Error: ${accessibilityReader.describeMissingRef(ref)}` }],
+            isError: true,
+          };
+        }
+        crop = el.bounds;
+      }
+      if (crop && padding) {
+        const [cx, cy, cw, ch] = crop;
+        crop = [cx - padding, cy - padding, cw + 2 * padding, ch + 2 * padding];
+      }
+
+      let result;
+      let legend: string[] = [];
+      try {
+        result = await screenCapture.capture({
+          windowTitle: ref ? undefined : windowTitle,
+          region: crop,
+          scale: scale ?? 1.0,
+          format: format ?? 'png',
+          quality: quality ?? 80,
+          screen,
+          saveAs,
+        });
+        if (marks && marks !== 'none') {
+          const collected = await collectMarks(result, ref ? undefined : windowTitle, marks === 'all');
+          result = await screenCapture.annotate(result, collected.marks);
+          legend = collected.legend;
+        }
+      } catch (error) {
+        return { content: [{ type: 'text' as const, text: `Error: ${(error as Error).message}` }], isError: true };
+      }
+
+      let area = '';
+      if (result.window && result.region) {
+        area = ` of window "${result.window.title}" at (${result.region[0]},${result.region[1]})`;
+      } else if (result.region && region == null && ref == null && result.screen != null) {
+        area = ` of display ${result.screen} at (${result.region[0]},${result.region[1]}) ${result.region[2]}x${result.region[3]}`;
+      } else if (result.region) {
+        area = ` of region (${result.region[0]},${result.region[1]}) ${result.region[2]}x${result.region[3]}`;
+      }
+      if (result.captureId && result.transform) {
+        area += `\nCapture ${result.captureId}: ${describeTransform(result.transform)}.`;
+      }
+      if (saveAs) {
+        area += `\nSaved as template "${saveAs}" for desktop_find_image.`;
+      }
+      if (marks && marks !== 'none') {
+        area += legend.length > 0
+          ? `\nMarks (use the ref to click or type):\n${legend.join('\n')}`
+          : '\nMarks: no interactive elements in the captured area.';
+      }
       return {
         content: [
           {
@@ -79,27 +247,35 @@ export function createServer(): McpServer {
           },
           {
             type: 'text' as const,
-            text: `Screenshot: ${result.width}x${result.height}px`,
+            text: `Screenshot: ${result.width}x${result.height}px${area}`,
           },
         ],
       };
     }
   );
 
-  server.registerTool(
+  const clickTool = tool(
     'desktop_click',
     {
       title: 'Desktop Click',
       description:
-        'Click at a specific coordinate or on a UI element by ref. ' +
-        'Provide either (x, y) coordinates or a ref from desktop_read_ui/desktop_find.',
+        'Click at a specific coordinate or on a UI element by ref or selector. ' +
+        'Provide either (x, y) coordinates, a ref from desktop_read_ui/desktop_find, or a selector.',
       inputSchema: {
-        x: z.number().optional().describe('X coordinate (pixels from left). Required if no ref.'),
-        y: z.number().optional().describe('Y coordinate (pixels from top). Required if no ref.'),
+        x: z.number().optional().describe('X coordinate (pixels from left). Required if no ref/selector.'),
+        y: z.number().optional().describe('Y coordinate (pixels from top). Required if no ref/selector.'),
         ref: z
           .string()
           .optional()
-          .describe('Element reference from desktop_read_ui (e.g. "ref_1"). Alternative to x/y.'),
+          .describe('Element reference from desktop_read_ui (e.g. "ref_1"), or a match from desktop_find_text ("ocr_...") or desktop_find_image ("img_..."). Alternative to x/y.'),
+        selector: z
+          .string()
+          .optional()
+          .describe(SELECTOR_DESCRIPTION),
+        windowTitle: z
+          .string()
+          .optional()
+          .describe('App/process name to resolve the selector in (substring match). Omit for frontmost app.'),
         button: z
           .enum(['left', 'right', 'middle'])
           .optional()
@@ -108,34 +284,41 @@ export function createServer(): McpServer {
           .boolean()
           .optional()
           .describe('Double-click instead of single click'),
+        coordinateSpace: coordinateSpaceSchema,
+        captureId: captureIdSchema,
       },
       annotations: {
         destructiveHint: true,
       },
     },
-    async ({ x, y, ref, button, doubleClick }) => {
+    async ({ x, y, ref, selector, windowTitle, button, doubleClick, coordinateSpace, captureId }) => {
       let clickX: number;
       let clickY: number;
       let targetDesc: string;
 
-      if (ref) {
-        const center = accessibilityReader.getElementCenter(ref);
-        if (!center) {
+      if (ref || selector) {
+        const target = await resolveElement(ref, selector, windowTitle);
+        if ('error' in target) {
           return {
-            content: [{ type: 'text' as const, text: `Error: Element "${ref}" not found. Run desktop_read_ui first.` }],
+            content: [{ type: 'text' as const, text: `Error: ${target.error}` }],
             isError: true,
           };
         }
-        [clickX, clickY] = center;
-        const el = accessibilityReader.getElementByRef(ref);
-        targetDesc = `${ref} (${el?.role} "${el?.name}") at (${clickX}, ${clickY})`;
+        [clickX, clickY] = target.center;
+        const el = target.element;
+        targetDesc = `${el.ref} (${el.role} "${el.name}") at (${clickX}, ${clickY})`;
       } else if (x != null && y != null) {
-        clickX = x;
-        clickY = y;
-        targetDesc = `(${x}, ${y})`;
+        const mapped = toScreenPoint([x, y], coordinateSpace, captureId);
+        if ('error' in mapped) {
+          return { content: [{ type: 'text' as const, text: `Error: ${mapped.error}` }], isError: true };
+        }
+        [clickX, clickY] = mapped.point;
+        targetDesc = coordinateSpace === 'screenshot'
+          ? `(${clickX}, ${clickY}) (screenshot (${x}, ${y}))`
+          : `(${x}, ${y})`;
       } else {
         return {
-          content: [{ type: 'text' as const, text: 'Error: Provide either (x, y) coordinates or a ref.' }],
+          content: [{ type: 'text' as const, text: 'Error: Provide either (x, y) coordinates, a ref or a selector.' }],
           isError: true,
         };
       }
@@ -157,19 +340,103 @@ export function createServer(): McpServer {
     }
   );
 
-  server.registerTool(
+  tool(
+    'desktop_act',
+    {
+      title: 'Desktop Act',
+      description:
+        'Invoke an element\'s native accessibility action instead of clicking it: AXPress/AXShowMenu (macOS), ' +
+        'UIA Invoke/Toggle/Select/Expand/Collapse (Windows) or AT-SPI actions such as click/press/activate (Linux). ' +
+        'Works for occluded, off-screen and zero-size elements and does not move the mouse. ' +
+        'Falls back to a coordinate click only when the element exposes no action, and reports which path it took.',
+      inputSchema: {
+        ref: z
+          .string()
+          .optional()
+          .describe('Element reference from desktop_read_ui/desktop_find. OCR/image matches ("ocr_..."/"img_...") have no actions and are clicked.'),
+        selector: z
+          .string()
+          .optional()
+          .describe(SELECTOR_DESCRIPTION),
+        windowTitle: z
+          .string()
+          .optional()
+          .describe('App/process name to resolve the selector in (substring match). Omit for frontmost app.'),
+        action: z
+          .string()
+          .optional()
+          .describe('Platform action name (e.g. "AXShowMenu", "Toggle", "Expand", "activate"). Default: the element\'s primary action'),
+      },
+      annotations: {
+        destructiveHint: true,
+      },
+    },
+    async ({ ref, selector, windowTitle, action }) => {
+      if (!ref && !selector) {
+        return { content: [{ type: 'text' as const, text: 'Error: Provide a ref or a selector.' }], isError: true };
+      }
+      const target = await resolveElement(ref, selector, windowTitle);
+      if ('error' in target) {
+        return { content: [{ type: 'text' as const, text: `Error: ${target.error}` }], isError: true };
+      }
+      const el = target.element;
+      const desc = `${el.ref} (${el.role} "${el.name}")`;
+
+      let performed: string | undefined;
+      if (!el.ref.startsWith('ocr_') && !el.ref.startsWith('img_')) {
+        try {
+          performed = await accessibilityReader.performAction(el.ref, action);
+        } catch (error) {
+          return { content: [{ type: 'text' as const, text: `Error: ${(error as Error).message}` }], isError: true };
+        }
+      } else if (action) {
+        return {
+          content: [{ type: 'text' as const, text: `Error: ${el.ref} is a screen match without accessibility actions. Omit action to click it.` }],
+          isError: true,
+        };
+      }
+      if (performed) {
+        return { content: [{ type: 'text' as const, text: `Performed native action "${performed}" on ${desc}` }] };
+      }
+
+      // No action exposed: click the element's center, which needs it to be on screen
+      if (el.bounds[2] <= 0 || el.bounds[3] <= 0) {
+        return {
+          content: [{ type: 'text' as const, text: `Error: ${desc} exposes no accessibility action and has no on-screen bounds to click.` }],
+          isError: true,
+        };
+      }
+      await inputController.click({ coordinate: target.center });
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `${desc} exposes no accessibility action: fell back to a click at (${target.center[0]}, ${target.center[1]})`,
+        }],
+      };
+    }
+  );
+
+  const typeTool = tool(
     'desktop_type',
     {
       title: 'Desktop Type',
       description:
         'Type text at the current cursor position or into a specific UI element. ' +
-        'Provide ref to first click the element, then type.',
+        'Provide ref or selector to first click the element, then type.',
       inputSchema: {
         text: z.string().describe('Text to type'),
         ref: z
           .string()
           .optional()
-          .describe('Element reference to click first before typing (e.g. "ref_3").'),
+          .describe('Element reference (e.g. "ref_3"), or desktop_find_text/desktop_find_image match ("ocr_..."/"img_...") to click first before typing.'),
+        selector: z
+          .string()
+          .optional()
+          .describe(`Element to click first before typing. ${SELECTOR_DESCRIPTION}`),
+        windowTitle: z
+          .string()
+          .optional()
+          .describe('App/process name to resolve the selector in (substring match). Omit for frontmost app.'),
         slowly: z
           .boolean()
           .optional()
@@ -179,17 +446,19 @@ export function createServer(): McpServer {
         destructiveHint: true,
       },
     },
-    async ({ text, ref, slowly }) => {
-      // If ref provided, click the element first to focus it
-      if (ref) {
-        const center = accessibilityReader.getElementCenter(ref);
-        if (!center) {
+    async ({ text, ref, selector, windowTitle, slowly }) => {
+      // If ref or selector provided, click the element first to focus it
+      let targetRef: string | undefined;
+      if (ref || selector) {
+        const target = await resolveElement(ref, selector, windowTitle);
+        if ('error' in target) {
           return {
-            content: [{ type: 'text' as const, text: `Error: Element "${ref}" not found. Run desktop_read_ui first.` }],
+            content: [{ type: 'text' as const, text: `Error: ${target.error}` }],
             isError: true,
           };
         }
-        await inputController.click({ coordinate: center });
+        targetRef = target.element.ref;
+        await inputController.click({ coordinate: target.center });
       }
 
       await inputController.type({ text, slowly: slowly ?? false });
@@ -199,8 +468,8 @@ export function createServer(): McpServer {
         content: [
           {
             type: 'text' as const,
-            text: ref
-              ? `Clicked ${ref} and typed: "${truncated}"`
+            text: targetRef
+              ? `Clicked ${targetRef} and typed: "${truncated}"`
               : `Typed: "${truncated}"`,
           },
         ],
@@ -208,7 +477,75 @@ export function createServer(): McpServer {
     }
   );
 
-  server.registerTool(
+  tool(
+    'desktop_set_value',
+    {
+      title: 'Desktop Set Value',
+      description:
+        'Set the value of a text field, slider or spinner through the accessibility value API ' +
+        '(AXValue on macOS, UIA ValuePattern/RangeValuePattern on Windows, AT-SPI EditableText/Value on Linux) ' +
+        'instead of clicking and typing: fast, independent of the keyboard layout and safe for IME and autocomplete fields. ' +
+        'The element is re-read afterwards to verify the value.',
+      inputSchema: {
+        value: z.string().describe('New value. Text replaces the field\'s content; sliders and spinners take a number (e.g. "75")'),
+        ref: z
+          .string()
+          .optional()
+          .describe('Element reference from desktop_read_ui/desktop_find.'),
+        selector: z
+          .string()
+          .optional()
+          .describe(SELECTOR_DESCRIPTION),
+        windowTitle: z
+          .string()
+          .optional()
+          .describe('App/process name to resolve the selector in (substring match). Omit for frontmost app.'),
+      },
+      annotations: {
+        destructiveHint: true,
+      },
+    },
+    async ({ value, ref, selector, windowTitle }) => {
+      if (!ref && !selector) {
+        return { content: [{ type: 'text' as const, text: 'Error: Provide a ref or a selector.' }], isError: true };
+      }
+      const target = await resolveElement(ref, selector, windowTitle);
+      if ('error' in target) {
+        return { content: [{ type: 'text' as const, text: `Error: ${target.error}` }], isError: true };
+      }
+      const el = target.element;
+      if (el.ref.startsWith('ocr_') || el.ref.startsWith('img_')) {
+        return {
+          content: [{ type: 'text' as const, text: `Error: ${el.ref} is a screen match without an accessibility value. Use desktop_type instead.` }],
+          isError: true,
+        };
+      }
+      const desc = `${el.ref} (${el.role} "${el.name}")`;
+
+      let result: { value?: string; verified: boolean };
+      try {
+        result = await accessibilityReader.setValue(el.ref, value);
+      } catch (error) {
+        return { content: [{ type: 'text' as const, text: `Error: ${(error as Error).message}` }], isError: true };
+      }
+
+      if (result.value == null) {
+        return { content: [{ type: 'text' as const, text: `Set ${desc} to "${value}" (the value could not be read back to verify it)` }] };
+      }
+      if (!result.verified) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error: Set ${desc} to "${value}" but it reads back as "${result.value}". The control may clamp, round or reformat the value.`,
+          }],
+          isError: true,
+        };
+      }
+      return { content: [{ type: 'text' as const, text: `Set ${desc} to "${value}" (verified: value="${result.value}")` }] };
+    }
+  );
+
+  const keyTool = tool(
     'desktop_key',
     {
       title: 'Desktop Key',
@@ -245,7 +582,7 @@ export function createServer(): McpServer {
     }
   );
 
-  server.registerTool(
+  const scrollTool = tool(
     'desktop_scroll',
     {
       title: 'Desktop Scroll',
@@ -260,11 +597,18 @@ export function createServer(): McpServer {
           .max(20)
           .optional()
           .describe('Number of scroll ticks. Default: 3'),
+        coordinateSpace: coordinateSpaceSchema,
+        captureId: captureIdSchema,
       },
     },
-    async ({ x, y, direction, amount }) => {
+    async ({ x, y, direction, amount, coordinateSpace, captureId }) => {
+      const mapped = toScreenPoint([x, y], coordinateSpace, captureId);
+      if ('error' in mapped) {
+        return { content: [{ type: 'text' as const, text: `Error: ${mapped.error}` }], isError: true };
+      }
+      const [sx, sy] = mapped.point;
       await inputController.scroll({
-        coordinate: [x, y],
+        coordinate: [sx, sy],
         direction,
         amount: amount ?? 3,
       });
@@ -272,14 +616,14 @@ export function createServer(): McpServer {
         content: [
           {
             type: 'text' as const,
-            text: `Scrolled ${direction} ${amount ?? 3}x at (${x}, ${y})`,
+            text: `Scrolled ${direction} ${amount ?? 3}x at (${sx}, ${sy})`,
           },
         ],
       };
     }
   );
 
-  server.registerTool(
+  tool(
     'desktop_windows',
     {
       title: 'Desktop Windows',
@@ -344,14 +688,18 @@ export function createServer(): McpServer {
 
   // === Phase 2: Accessibility Tools ===
 
-  server.registerTool(
+  tool(
     'desktop_read_ui',
     {
       title: 'Desktop Read UI',
       description:
         'Read the accessibility tree of the frontmost window or a specific app. ' +
         'Returns UI elements with ref IDs that can be used with desktop_click and desktop_type. ' +
-        'Use filter "interactive" to show only buttons, text fields, etc.',
+        'Use filter "interactive" to show only buttons, text fields, etc. ' +
+        'Use mode "diff" after acting to see only what changed since the previous desktop_read_ui of the same windows: ' +
+        'added, removed and changed elements (value, state, bounds) with their refs. ' +
+        'For large trees, page with maxElements (then pass the returned cursor for the next page), read one part with rootRef, ' +
+        'show only the first maxChildren children of long lists with "(N more children)", or leave out offscreen elements with skipOffscreen.',
       inputSchema: {
         windowTitle: z
           .string()
@@ -367,27 +715,99 @@ export function createServer(): McpServer {
           .enum(['interactive', 'all'])
           .optional()
           .describe('"interactive" for buttons/inputs only, "all" for everything. Default: all.'),
+        mode: z
+          .enum(['full', 'diff'])
+          .optional()
+          .describe('"full" for the whole tree, "diff" for the changes since the previous read with the same depth and filter. Default: full.'),
+        rootRef: z
+          .string()
+          .optional()
+          .describe('Read only the subtree of this element (ref from an earlier read), e.g. one panel or list. Depth counts from it; windowTitle is ignored.'),
+        maxElements: z
+          .number()
+          .int()
+          .min(1)
+          .max(5000)
+          .optional()
+          .describe('Elements per page, in reading order. Default: the whole tree. Ignored by mode "diff".'),
+        maxChildren: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe('Children shown per element; the rest of a long list or table is summarized as "(N more children)". Default: all.'),
+        skipOffscreen: z
+          .boolean()
+          .optional()
+          .describe('Leave out offscreen and hidden elements (scrolled-away rows, collapsed panels), counted in "(N more children)". Default: false.'),
+        cursor: z
+          .string()
+          .optional()
+          .describe('Cursor from a previous result, to read its next page. The read keeps its original options.'),
       },
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ windowTitle, depth, filter }) => {
-      const elements = await accessibilityReader.readUI({
+    async ({ windowTitle, depth, filter, mode, rootRef, maxElements, maxChildren, skipOffscreen, cursor }) => {
+      const options = {
         windowTitle,
         depth: depth ?? 10,
         filter: filter ?? 'all',
-      });
+        rootRef,
+        maxChildren,
+        skipOffscreen,
+      } as const;
+
+      if (mode === 'diff') {
+        if (cursor) {
+          return {
+            content: [{ type: 'text' as const, text: 'Error: mode "diff" compares whole reads and takes no cursor.' }],
+            isError: true,
+          };
+        }
+        const { elements, diff } = await accessibilityReader.readUISnapshot(options);
+        const sections: string[] = [];
+        const changes = accessibilityReader.formatDiff(diff);
+        if (changes) {
+          sections.push(
+            `UI Diff (${diff.changed.length} changed, ${diff.added.length} added, ${diff.removed.length} removed since the previous read):\n${changes}`,
+          );
+        }
+        // Windows without a previous read have nothing to compare against
+        for (const root of diff.unseen) {
+          sections.push(`New window (no previous read, ${countElements([root])} elements):\n${accessibilityReader.formatTree([root])}`);
+        }
+        if (sections.length === 0) {
+          sections.push(
+            elements.length > 0
+              ? 'No changes since the previous read.'
+              : 'No UI elements found. Is the app focused? Are accessibility permissions granted?',
+          );
+        }
+        return { content: [{ type: 'text' as const, text: sections.join('\n\n') }] };
+      }
+
+      const page = await accessibilityReader.readUIPage({ ...options, maxElements }, cursor);
+      const { elements } = page;
+      // Only a complete read is a baseline for mode "diff"
+      if (!cursor && !page.cursor) {
+        accessibilityReader.updateSnapshot(elements, options);
+      }
 
       const tree = accessibilityReader.formatTree(elements);
       const count = countElements(elements);
+      const range = cursor || page.cursor ? `, elements ${page.offset + 1}-${page.offset + page.count} in reading order` : '';
+      const next = page.cursor
+        ? `\n\nMore elements follow. Call desktop_read_ui with cursor "${page.cursor}" for the next page.`
+        : '';
 
       return {
         content: [
           {
             type: 'text' as const,
             text: tree
-              ? `UI Tree (${count} elements):\n${tree}`
+              ? `UI Tree (${count} elements${range}):\n${tree}${next}`
               : 'No UI elements found. Is the app focused? Are accessibility permissions granted?',
           },
         ],
@@ -395,18 +815,23 @@ export function createServer(): McpServer {
     }
   );
 
-  server.registerTool(
+  tool(
     'desktop_find',
     {
       title: 'Desktop Find',
       description:
-        'Find UI elements by name, role, or value. Returns matching elements with ref IDs. ' +
+        'Find UI elements by name, role, value, identifier or state, or with a structured selector. Returns matching elements with ref IDs and states. ' +
         'Searches the accessibility tree of the frontmost window. ' +
         'Use desktop_read_ui first to populate the tree, or this tool will read it automatically.',
       inputSchema: {
         query: z
           .string()
-          .describe('Search query (matches element name, role, or value). E.g. "Save", "button", "search".'),
+          .optional()
+          .describe('Search query (matches element name, role, value, help text, shortcut, identifier or class, or a state such as "checked"/"focused"). E.g. "Save", "button", "search".'),
+        selector: z
+          .string()
+          .optional()
+          .describe(`Alternative to query. ${SELECTOR_DESCRIPTION}`),
         windowTitle: z
           .string()
           .optional()
@@ -416,7 +841,15 @@ export function createServer(): McpServer {
         readOnlyHint: true,
       },
     },
-    async ({ query, windowTitle }) => {
+    async ({ query, selector, windowTitle }) => {
+      const search = selector ?? query;
+      if (search == null) {
+        return {
+          content: [{ type: 'text' as const, text: 'Error: Provide a query or a selector.' }],
+          isError: true,
+        };
+      }
+
       // Always read fresh tree for find
       const elements = await accessibilityReader.readUI({
         windowTitle,
@@ -424,33 +857,41 @@ export function createServer(): McpServer {
         filter: 'all',
       });
 
-      const matches = accessibilityReader.findElements(elements, query);
+      let matches: UIElement[];
+      if (selector) {
+        try {
+          matches = accessibilityReader.querySelector(elements, selector);
+        } catch (error) {
+          return {
+            content: [{ type: 'text' as const, text: `Error: ${(error as Error).message}` }],
+            isError: true,
+          };
+        }
+      } else {
+        matches = accessibilityReader.findElements(elements, search);
+      }
 
       if (matches.length === 0) {
         return {
           content: [
             {
               type: 'text' as const,
-              text: `No elements found matching "${query}".`,
+              text: `No elements found matching "${search}".`,
             },
           ],
         };
       }
 
       const lines = matches.map((el) => {
-        const parts = [`[${el.ref}]`, el.role, `"${el.name}"`];
-        if (el.value) parts.push(`value="${el.value}"`);
-        if (el.enabled === false) parts.push('(disabled)');
         const [bx, by, bw, bh] = el.bounds;
-        parts.push(`at (${bx},${by}) ${bw}x${bh}`);
-        return parts.join(' ');
+        return `${accessibilityReader.formatElement(el)} at (${bx},${by}) ${bw}x${bh}`;
       });
 
       return {
         content: [
           {
             type: 'text' as const,
-            text: `Found ${matches.length} element(s) matching "${query}":\n${lines.join('\n')}`,
+            text: `Found ${matches.length} element(s) matching "${search}":\n${lines.join('\n')}`,
           },
         ],
       };
@@ -459,7 +900,7 @@ export function createServer(): McpServer {
 
   // === Phase 4: Polish Tools ===
 
-  server.registerTool(
+  const dragTool = tool(
     'desktop_drag',
     {
       title: 'Desktop Drag',
@@ -473,23 +914,29 @@ export function createServer(): McpServer {
         endY: z.number().optional().describe('End Y coordinate. Required if no endRef.'),
         startRef: z.string().optional().describe('Start element ref (alternative to startX/startY).'),
         endRef: z.string().optional().describe('End element ref (alternative to endX/endY).'),
+        coordinateSpace: coordinateSpaceSchema,
+        captureId: captureIdSchema,
       },
       annotations: {
         destructiveHint: true,
       },
     },
-    async ({ startX, startY, endX, endY, startRef, endRef }) => {
+    async ({ startX, startY, endX, endY, startRef, endRef, coordinateSpace, captureId }) => {
       let sx: number, sy: number, ex: number, ey: number;
 
       // Resolve start position
       if (startRef) {
         const center = accessibilityReader.getElementCenter(startRef);
         if (!center) {
-          return { content: [{ type: 'text' as const, text: `Error: Start element "${startRef}" not found.` }], isError: true };
+          return { content: [{ type: 'text' as const, text: `Error: ${accessibilityReader.describeMissingRef(startRef)}` }], isError: true };
         }
         [sx, sy] = center;
       } else if (startX != null && startY != null) {
-        sx = startX; sy = startY;
+        const mapped = toScreenPoint([startX, startY], coordinateSpace, captureId);
+        if ('error' in mapped) {
+          return { content: [{ type: 'text' as const, text: `Error: ${mapped.error}` }], isError: true };
+        }
+        [sx, sy] = mapped.point;
       } else {
         return { content: [{ type: 'text' as const, text: 'Error: Provide start coordinates (startX/startY) or startRef.' }], isError: true };
       }
@@ -498,11 +945,15 @@ export function createServer(): McpServer {
       if (endRef) {
         const center = accessibilityReader.getElementCenter(endRef);
         if (!center) {
-          return { content: [{ type: 'text' as const, text: `Error: End element "${endRef}" not found.` }], isError: true };
+          return { content: [{ type: 'text' as const, text: `Error: ${accessibilityReader.describeMissingRef(endRef)}` }], isError: true };
         }
         [ex, ey] = center;
       } else if (endX != null && endY != null) {
-        ex = endX; ey = endY;
+        const mapped = toScreenPoint([endX, endY], coordinateSpace, captureId);
+        if ('error' in mapped) {
+          return { content: [{ type: 'text' as const, text: `Error: ${mapped.error}` }], isError: true };
+        }
+        [ex, ey] = mapped.point;
       } else {
         return { content: [{ type: 'text' as const, text: 'Error: Provide end coordinates (endX/endY) or endRef.' }], isError: true };
       }
@@ -518,7 +969,7 @@ export function createServer(): McpServer {
     }
   );
 
-  server.registerTool(
+  tool(
     'desktop_launch',
     {
       title: 'Desktop Launch',
@@ -554,7 +1005,7 @@ export function createServer(): McpServer {
     }
   );
 
-  server.registerTool(
+  tool(
     'desktop_ocr',
     {
       title: 'Desktop OCR',
@@ -568,35 +1019,176 @@ export function createServer(): McpServer {
         width: z.number().optional().describe('Region width'),
         height: z.number().optional().describe('Region height'),
         language: z.string().optional().describe('OCR language code (e.g. "eng", "deu"). Default: eng.'),
+        boxes: z
+          .enum(['none', 'lines', 'words'])
+          .optional()
+          .describe('Also list lines or words with their screen bounds [x, y, width, height]. Default: none.'),
+        preprocess: ocrPreprocessSchema,
+        psm: ocrPsmSchema,
+        whitelist: ocrWhitelistSchema,
       },
       annotations: {
         readOnlyHint: true,
       },
     },
-    async ({ x, y, width, height, language }) => {
+    async ({ x, y, width, height, language, boxes, preprocess, psm, whitelist }) => {
       const region = (x != null && y != null && width != null && height != null)
         ? [x, y, width, height] as [number, number, number, number]
         : undefined;
 
-      const result = await ocrEngine.recognize({ region, language: language ?? 'eng' });
+      const result = await ocrEngine.recognize({ region, language: language ?? 'eng', preprocess, psm, whitelist });
+      if (!result.text) {
+        return { content: [{ type: 'text' as const, text: 'No text recognized in the specified area.' }] };
+      }
+
+      let text = `OCR Text (${Math.round(result.confidence)}% confidence):\n${result.text}`;
+      if (boxes === 'lines' || boxes === 'words') {
+        const items = boxes === 'lines' ? result.lines : result.words;
+        const lines = items.map((item) => `  "${item.text}" at ${formatBounds(item.bounds)} (${Math.round(item.confidence)}%)`);
+        text += `\n\n${boxes === 'lines' ? 'Lines' : 'Words'}:\n${lines.join('\n')}`;
+      }
+      return { content: [{ type: 'text' as const, text }] };
+    }
+  );
 
+  tool(
+    'desktop_find_text',
+    {
+      title: 'Desktop Find Text',
+      description:
+        'Find text on screen with OCR, for apps without accessibility support. ' +
+        'Returns each match with its screen bounds and a pseudo-ref (ocr_...) that desktop_click and desktop_type accept like an element ref.',
+      inputSchema: {
+        text: z.string().describe('Text to find (case-insensitive substring; may span several words of a line)'),
+        x: z.number().optional().describe('Search only this region: left edge'),
+        y: z.number().optional().describe('Search only this region: top edge'),
+        width: z.number().optional().describe('Search only this region: width'),
+        height: z.number().optional().describe('Search only this region: height'),
+        language: z.string().optional().describe('OCR language code (e.g. "eng", "deu"). Default: eng.'),
+        preprocess: ocrPreprocessSchema,
+        psm: ocrPsmSchema,
+      },
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ text, x, y, width, height, language, preprocess, psm }) => {
+      const region = (x != null && y != null && width != null && height != null)
+        ? [x, y, width, height] as [number, number, number, number]
+        : undefined;
+
+      let matches;
+      try {
+        matches = await ocrEngine.findText(text, { region, language: language ?? 'eng', preprocess, psm });
+      } catch (error) {
+        return { content: [{ type: 'text' as const, text: `Error: ${(error as Error).message}` }], isError: true };
+      }
+      if (matches.length === 0) {
+        return { content: [{ type: 'text' as const, text: `No text matching "${text}" found on screen.` }] };
+      }
+
+      const lines = matches.map(
+        (m) => `[${m.ref}] "${m.text}" at ${formatBounds(m.bounds)} (${Math.round(m.confidence)}%) in line "${m.line}"`
+      );
       return {
         content: [{
           type: 'text' as const,
-          text: result.text
-            ? `OCR Text (${Math.round(result.confidence)}% confidence):\n${result.text}`
-            : 'No text recognized in the specified area.',
+          text: `Found ${matches.length} match(es) for "${text}":\n${lines.join('\n')}`,
         }],
       };
     }
   );
 
-  server.registerTool(
+  tool(
+    'desktop_find_image',
+    {
+      title: 'Desktop Find Image',
+      description:
+        'Locate a template image (icon, button graphic) on screen by normalized cross-correlation, ' +
+        'for canvas-based apps and games where desktop_find and desktop_find_text see nothing. ' +
+        'Provide the template as a base64 PNG or by the name of a crop saved with desktop_screenshot\'s saveAs. ' +
+        'Returns match rectangles with scores and pseudo-refs (img_...) that desktop_click and desktop_type accept like an element ref.',
+      inputSchema: {
+        template: z.string().optional().describe('Template image as base64 PNG (in screenshot pixels at scale 1)'),
+        templateName: z.string().optional().describe('Name of a crop saved with desktop_screenshot { saveAs }. Alternative to template.'),
+        threshold: z
+          .number()
+          .min(0)
+          .max(1)
+          .optional()
+          .describe('Minimum match score 0-1 (1 = identical up to brightness/contrast). Default: 0.8.'),
+        scaleTolerance: z
+          .number()
+          .min(0)
+          .max(0.5)
+          .optional()
+          .describe('Also try the template scaled by up to +/- this fraction, in 10% steps (e.g. 0.2). Default: 0.'),
+        maxResults: z.number().int().min(1).max(50).optional().describe('Maximum matches to return, best first. Default: 5.'),
+        x: z.number().optional().describe('Search only this region: left edge'),
+        y: z.number().optional().describe('Search only this region: top edge'),
+        width: z.number().optional().describe('Search only this region: width'),
+        height: z.number().optional().describe('Search only this region: height'),
+        screen: z.number().optional().describe('Display/monitor ID to search. Default: main display.'),
+      },
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ template, templateName, threshold, scaleTolerance, maxResults, x, y, width, height, screen }) => {
+      let png: Buffer | undefined;
+      if (templateName) {
+        png = screenCapture.getTemplate(templateName);
+        if (!png) {
+          const saved = screenCapture.listTemplates();
+          return {
+            content: [{
+              type: 'text' as const,
+              text: `Error: Template "${templateName}" not found. ` +
+                (saved.length > 0 ? `Saved templates: ${saved.join(', ')}.` : 'Save one with desktop_screenshot { saveAs }.'),
+            }],
+            isError: true,
+          };
+        }
+      } else if (template) {
+        png = Buffer.from(template, 'base64');
+      } else {
+        return { content: [{ type: 'text' as const, text: 'Error: Provide template (base64 PNG) or templateName.' }], isError: true };
+      }
+      const region = (x != null && y != null && width != null && height != null)
+        ? [x, y, width, height] as [number, number, number, number]
+        : undefined;
+
+      let matches;
+      try {
+        matches = await imageMatcher.find(png, { region, screen, threshold, scaleTolerance, maxResults });
+      } catch (error) {
+        return { content: [{ type: 'text' as const, text: `Error: ${(error as Error).message}` }], isError: true };
+      }
+      if (matches.length === 0) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `No match for the template above score ${threshold ?? 0.8}. Try a lower threshold or a scaleTolerance.`,
+          }],
+        };
+      }
+
+      const lines = matches.map((m) =>
+        `[${m.ref}] at ${formatBounds(m.bounds)} score ${m.score.toFixed(3)}${m.scale !== 1 ? ` (template scale ${m.scale})` : ''}`
+      );
+      return {
+        content: [{ type: 'text' as const, text: `Found ${matches.length} match(es):\n${lines.join('\n')}` }],
+      };
+    }
+  );
+
+  tool(
     'desktop_displays',
     {
       title: 'Desktop Displays',
       description:
-        'List all connected displays/monitors. ' +
+        'List all connected displays/monitors with their bounds, work area and scale factor. ' +
+        'All tools share one global coordinate space spanning the displays (origin at the primary display\'s top-left). ' +
         'Use the returned display ID with desktop_screenshot\'s screen parameter to capture a specific monitor.',
       inputSchema: {},
       annotations: {
@@ -608,13 +1200,584 @@ export function createServer(): McpServer {
       if (displays.length === 0) {
         return { content: [{ type: 'text' as const, text: 'No displays detected.' }] };
       }
-      const lines = displays.map((d) => `[${d.id}] ${d.name}`);
+      const lines = displays.map((d) => `[${d.id}] ${d.name}${d.primary ? ' (primary)' : ''}${describeDisplayGeometry(d)}`);
       return {
         content: [{ type: 'text' as const, text: `Displays:\n${lines.join('\n')}` }],
       };
     }
   );
 
+  // === Synchronization Tools ===
+
+  tool(
+    'desktop_wait_for',
+    {
+      title: 'Desktop Wait For',
+      description:
+        'Wait until a UI condition holds instead of polling with screenshots. ' +
+        'Conditions: element_appears / element_disappears (query or selector), value_equals (element value), ' +
+        'window_appears (window title), text_visible (OCR, optionally in a region). ' +
+        'Sends progress notifications while waiting when the request carries a progress token.',
+      inputSchema: {
+        condition: z
+          .enum(['element_appears', 'element_disappears', 'value_equals', 'window_appears', 'text_visible'])
+          .describe('What to wait for'),
+        query: z
+          .string()
+          .optional()
+          .describe('Element search query (name, role, or value) for element_* and value_equals.'),
+        selector: z
+          .string()
+          .optional()
+          .describe(`Alternative to query. ${SELECTOR_DESCRIPTION}`),
+        windowTitle: z
+          .string()
+          .optional()
+          .describe('For window_appears: the title to wait for (substring). Otherwise: app/process whose tree to search.'),
+        value: z.string().optional().describe('Expected element value for value_equals'),
+        text: z.string().optional().describe('Text to look for with OCR for text_visible (case-insensitive)'),
+        x: z.number().optional().describe('OCR region left edge (text_visible). Omit for full screen.'),
+        y: z.number().optional().describe('OCR region top edge'),
+        width: z.number().optional().describe('OCR region width'),
+        height: z.number().optional().describe('OCR region height'),
+        timeout: z
+          .number()
+          .min(0)
+          .max(300000)
+          .optional()
+          .describe('Maximum time to wait in milliseconds. Default: 10000'),
+        interval: z
+          .number()
+          .min(50)
+          .max(10000)
+          .optional()
+          .describe('Delay between checks in milliseconds. Default: 500'),
+      },
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ condition, query, selector, windowTitle, value, text, x, y, width, height, timeout, interval }, extra) => {
+      let waitCondition: WaitCondition;
+      switch (condition) {
+        case 'element_appears':
+        case 'element_disappears':
+        case 'value_equals':
+          if (!query && !selector) {
+            return { content: [{ type: 'text' as const, text: `Error: ${condition} requires a query or a selector.` }], isError: true };
+          }
+          if (condition === 'value_equals') {
+            if (value == null) {
+              return { content: [{ type: 'text' as const, text: 'Error: value_equals requires a value.' }], isError: true };
+            }
+            waitCondition = { type: condition, query, selector, windowTitle, value };
+          } else {
+            waitCondition = { type: condition, query, selector, windowTitle };
+          }
+          break;
+        case 'window_appears':
+          if (!windowTitle) {
+            return { content: [{ type: 'text' as const, text: 'Error: window_appears requires windowTitle.' }], isError: true };
+          }
+          waitCondition = { type: condition, title: windowTitle };
+          break;
+        case 'text_visible': {
+          if (!text) {
+            return { content: [{ type: 'text' as const, text: 'Error: text_visible requires text.' }], isError: true };
+          }
+          const region = (x != null && y != null && width != null && height != null)
+            ? [x, y, width, height] as [number, number, number, number]
+            : undefined;
+          waitCondition = { type: condition, text, region };
+          break;
+        }
+      }
+
+      const progressToken = extra._meta?.progressToken;
+      let result;
+      try {
+        result = await waiter.waitFor(waitCondition, {
+          timeout: timeout ?? 10000,
+          interval: interval ?? 500,
+          signal: extra.signal,
+          onProgress: progressToken !== undefined
+            ? (elapsed, total, message) =>
+              extra.sendNotification({
+                method: 'notifications/progress',
+                params: { progressToken, progress: elapsed, total, message },
+              })
+            : undefined,
+        });
+      } catch (error) {
+        return { content: [{ type: 'text' as const, text: `Error: ${(error as Error).message}` }], isError: true };
+      }
+
+      const what = waiter.describe(waitCondition);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: result.satisfied
+            ? `Condition met after ${result.elapsed}ms (${result.attempts} check(s)): ${what}. ${result.detail}`
+            : `Timed out after ${result.elapsed}ms (${result.attempts} check(s)) waiting for ${what}. Last check: ${result.detail}`,
+        }],
+        ...(result.satisfied ? {} : { isError: true }),
+      };
+    }
+  );
+
+  tool(
+    'desktop_wait_stable',
+    {
+      title: 'Desktop Wait Stable',
+      description:
+        'Wait until the screen stops changing (animations, loading spinners, window transitions) before taking a screenshot. ' +
+        'Compares consecutive frames; the screen is stable once the changed-pixel ratio stays at or below threshold for stableFor ms.',
+      inputSchema: {
+        threshold: z
+          .number()
+          .min(0)
+          .max(1)
+          .optional()
+          .describe('Maximum fraction of changed pixels between frames that still counts as stable. Default: 0.001'),
+        stableFor: z
+          .number()
+          .min(0)
+          .max(60000)
+          .optional()
+          .describe('How long the screen must stay stable in milliseconds. Default: 500'),
+        interval: z
+          .number()
+          .min(50)
+          .max(5000)
+          .optional()
+          .describe('Delay between frames in milliseconds. Default: 200'),
+        timeout: z
+          .number()
+          .min(0)
+          .max(300000)
+          .optional()
+          .describe('Maximum time to wait in milliseconds. Default: 10000'),
+        screen: z.number().optional().describe('Display/monitor ID to watch. Default: primary.'),
+        x: z.number().optional().describe('Watch only this region: left edge'),
+        y: z.number().optional().describe('Region top edge'),
+        width: z.number().optional().describe('Region width'),
+        height: z.number().optional().describe('Region height'),
+      },
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ threshold, stableFor, interval, timeout, screen, x, y, width, height }, extra) => {
+      const region = (x != null && y != null && width != null && height != null)
+        ? [x, y, width, height] as [number, number, number, number]
+        : undefined;
+      const progressToken = extra._meta?.progressToken;
+
+      const result = await screenCapture.waitUntilStable({
+        threshold: threshold ?? 0.001,
+        stableFor: stableFor ?? 500,
+        interval: interval ?? 200,
+        timeout: timeout ?? 10000,
+        screen,
+        region,
+        signal: extra.signal,
+        onProgress: progressToken !== undefined
+          ? (elapsed, total, message) =>
+            extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, progress: elapsed, total, message },
+            })
+          : undefined,
+      });
+
+      const lastChange = `${(result.ratio * 100).toFixed(2)}% changed in the last frame`;
+      return {
+        content: [{
+          type: 'text' as const,
+          text: result.stable
+            ? `Screen stable after ${result.elapsed}ms (${result.frames} frames, ${lastChange}).`
+            : `Screen still changing after ${result.elapsed}ms (${result.frames} frames, ${lastChange}).`,
+        }],
+        ...(result.stable ? {} : { isError: true }),
+      };
+    }
+  );
+
+  tool(
+    'desktop_screenshot_diff',
+    {
+      title: 'Desktop Screenshot Diff',
+      description:
+        'Show what changed on screen. Compares the current screen with the previous screenshot ' +
+        '(or, with delay, with a frame taken delay ms earlier) and returns the current screen with changed pixels ' +
+        'highlighted in red, changed regions outlined, and the list of changed regions.',
+      inputSchema: {
+        delay: z
+          .number()
+          .min(0)
+          .max(60000)
+          .optional()
+          .describe('Take a fresh baseline, wait this many ms, then compare. Default: compare with the previous screenshot (1000 ms if there is none).'),
+        tolerance: z
+          .number()
+          .min(0)
+          .max(255)
+          .optional()
+          .describe('Per-channel color difference ignored as noise (0-255). Default: 24'),
+        scale: z
+          .number()
+          .min(0.1)
+          .max(1.0)
+          .optional()
+          .describe('Scale factor 0.1-1.0 for the returned image. Default 1.0.'),
+        screen: z.number().optional().describe('Display/monitor ID. Default: primary.'),
+        x: z.number().optional().describe('Compare only this region: left edge'),
+        y: z.number().optional().describe('Region top edge'),
+        width: z.number().optional().describe('Region width'),
+        height: z.number().optional().describe('Region height'),
+      },
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ delay: pause, tolerance, scale, screen, x, y, width, height }, extra) => {
+      const region = (x != null && y != null && width != null && height != null)
+        ? [x, y, width, height] as [number, number, number, number]
+        : undefined;
+
+      let before = pause == null ? await screenCapture.previousFrame(screen, region) : null;
+      if (!before) {
+        before = await screenCapture.captureFrame(screen, region);
+        await delay(pause ?? 1000, undefined, { signal: extra.signal }).catch(() => {});
+      }
+      const after = await screenCapture.captureFrame(screen, region);
+
+      let rendered;
+      try {
+        rendered = await screenCapture.renderDiff(before, after, { tolerance: tolerance ?? 24, scale: scale ?? 1.0 });
+      } catch (error) {
+        return { content: [{ type: 'text' as const, text: `Error: ${(error as Error).message}` }], isError: true };
+      }
+      const { diff, image } = rendered;
+
+      const [ox, oy] = after.origin ?? [0, 0];
+      // Regions are in frame pixels; report them in global screen coordinates
+      const ratio = after.pixelRatio ?? 1;
+      const lines = diff.regions.map(([rx, ry, rw, rh]) =>
+        `  (${Math.round(rx / ratio) + ox},${Math.round(ry / ratio) + oy}) ${Math.round(rw / ratio)}x${Math.round(rh / ratio)}`
+      );
+      const summary = diff.changedPixels === 0
+        ? 'No changes detected.'
+        : `${(diff.ratio * 100).toFixed(2)}% of pixels changed (${diff.changedPixels}/${diff.totalPixels}) ` +
+          `in ${diff.regions.length} region(s):\n${lines.join('\n')}`;
+
+      return {
+        content: [
+          { type: 'image' as const, data: image.data, mimeType: image.mimeType },
+          { type: 'text' as const, text: summary },
+        ],
+      };
+    }
+  );
+
+  // === Recording Tools ===
+
+  tool(
+    'desktop_record_start',
+    {
+      title: 'Desktop Record Start',
+      description:
+        'Start recording the screen: frames are sampled at the given rate and every click, drag, scroll, ' +
+        'keystroke and typed text is logged until desktop_record_stop, which saves an animated GIF/WebP ' +
+        'with the actions drawn on it and a JSON action log.',
+      inputSchema: {
+        fps: z
+          .number()
+          .min(0.2)
+          .max(10)
+          .optional()
+          .describe('Frames per second. Default: 2.'),
+        format: z
+          .enum(['gif', 'webp'])
+          .optional()
+          .describe('Animation format. WebP is smaller and keeps colors. Default: gif.'),
+        scale: z
+          .number()
+          .min(0.1)
+          .max(1.0)
+          .optional()
+          .describe('Frame scale factor 0.1-1.0. Default 0.5.'),
+        screen: z.number().optional().describe('Display/monitor ID. Default: primary.'),
+        region: z
+          .tuple([z.number(), z.number(), z.number().positive(), z.number().positive()])
+          .optional()
+          .describe('Record only this area [x, y, width, height] in global screen coordinates.'),
+        maxDuration: z
+          .number()
+          .min(1)
+          .max(600)
+          .optional()
+          .describe('Stop sampling frames after this many seconds (actions are still logged). Default: 120.'),
+        outputDir: z
+          .string()
+          .optional()
+          .describe('Directory for the recording files. Default: codriver-recordings in the system temp directory.'),
+      },
+      annotations: {
+        readOnlyHint: true,
+      },
+    },
+    async ({ fps, format, scale, screen, region, maxDuration, outputDir }) => {
+      try {
+        await recorder.start({
+          fps,
+          format,
+          scale,
+          screen,
+          region,
+          outputDir,
+          maxDuration: maxDuration != null ? maxDuration * 1000 : undefined,
+        });
+      } catch (error) {
+        return { content: [{ type: 'text' as const, text: `Error: ${(error as Error).message}` }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `Recording started at ${fps ?? 2} fps. Call desktop_record_stop to save it.`,
+        }],
+      };
+    }
+  );
+
+  tool(
+    'desktop_record_stop',
+    {
+      title: 'Desktop Record Stop',
+      description:
+        'Stop the running recording and save it: an animated GIF/WebP with click and keystroke markers, ' +
+        'and a JSON log of the actions with their times.',
+      inputSchema: {},
+    },
+    async () => {
+      let result;
+      try {
+        result = await recorder.stop();
+      } catch (error) {
+        return { content: [{ type: 'text' as const, text: `Error: ${(error as Error).message}` }], isError: true };
+      }
+      const counts = new Map<string, number>();
+      for (const action of result.actions) counts.set(action.type, (counts.get(action.type) ?? 0) + 1);
+      const summary = counts.size > 0
+        ? [...counts].map(([type, count]) => `${count} ${type}`).join(', ')
+        : 'none';
+      return {
+        content: [{
+          type: 'text' as const,
+          text:
+            `Recording saved: ${result.file} (${result.frames} frames, ${result.width}x${result.height}, ` +
+            `${(result.duration / 1000).toFixed(1)}s)\nAction log: ${result.logFile}\nActions: ${summary}`,
+        }],
+      };
+    }
+  );
+
+  // === Batch Tools ===
+
+  const batchDelaySchema = z
+    .number()
+    .min(0)
+    .max(10000)
+    .optional()
+    .describe('Pause after this action in ms. Overrides the batch delay.');
+  // desktop_batch actions and the tools that perform them
+  const batchTools = {
+    click: clickTool,
+    type: typeTool,
+    key: keyTool,
+    scroll: scrollTool,
+    drag: dragTool,
+    screenshot: screenshotTool,
+  };
+  const batchActionSchema = z.discriminatedUnion('action', [
+    clickTool.schema.extend({ action: z.literal('click'), delay: batchDelaySchema }),
+    typeTool.schema.extend({ action: z.literal('type'), delay: batchDelaySchema }),
+    keyTool.schema.extend({ action: z.literal('key'), delay: batchDelaySchema }),
+    scrollTool.schema.extend({ action: z.literal('scroll'), delay: batchDelaySchema }),
+    dragTool.schema.extend({ action: z.literal('drag'), delay: batchDelaySchema }),
+    screenshotTool.schema.extend({ action: z.literal('screenshot'), delay: batchDelaySchema }),
+    z.object({
+      action: z.literal('wait'),
+      ms: z.number().min(0).max(60000).describe('Time to wait in ms'),
+    }),
+  ]);
+
+  tool(
+    'desktop_batch',
+    {
+      title: 'Desktop Batch',
+      description:
+        'Run several actions in one call, in order: click, type, key, scroll, drag (same parameters as the ' +
+        'desktop_* tools), wait ({ ms }) and screenshot. Saves a round trip per action on remote connections. ' +
+        'Stops at the first failing action unless stopOnError is false. Returns one result line per action, ' +
+        'the images of screenshot actions and, with screenshot: true, a screenshot after the last action.',
+      inputSchema: {
+        actions: z
+          .array(batchActionSchema)
+          .min(1)
+          .max(50)
+          .describe('Actions, e.g. [{ "action": "click", "ref": "ref_1" }, { "action": "type", "text": "hi" }, { "action": "key", "key": "enter" }]'),
+        delay: z
+          .number()
+          .min(0)
+          .max(10000)
+          .optional()
+          .describe('Pause after each action in ms, to let the UI react. Default: 0.'),
+        stopOnError: z
+          .boolean()
+          .optional()
+          .describe('Skip the remaining actions after one fails. Default: true.'),
+        screenshot: z
+          .boolean()
+          .optional()
+          .describe('Take a screenshot after the last action. Default: false.'),
+        scale: z
+          .number()
+          .min(0.1)
+          .max(1.0)
+          .optional()
+          .describe('Scale factor 0.1-1.0 for the final screenshot. Default 1.0.'),
+      },
+    },
+    async ({ actions, delay: delayMs, stopOnError, screenshot, scale }, extra) => {
+      const content: CallToolResult['content'] = [];
+      const lines: string[] = [];
+      const stepExtra = { ...extra, _meta: undefined };
+      let failed = 0;
+
+      for (const [index, step] of actions.entries()) {
+        if (extra.signal.aborted) {
+          lines.push(`${index + 1}. ${step.action}: cancelled`);
+          continue;
+        }
+        if (failed > 0 && stopOnError !== false) {
+          lines.push(`${index + 1}. ${step.action}: skipped`);
+          continue;
+        }
+
+        if (step.action === 'wait') {
+          await delay(step.ms, undefined, { signal: extra.signal }).catch(() => {});
+          lines.push(`${index + 1}. wait: ${step.ms}ms`);
+          continue;
+        }
+
+        const { action, delay: stepDelay, ...args } = step;
+        let result: CallToolResult;
+        try {
+          result = await batchTools[action].run(args, stepExtra);
+        } catch (error) {
+          result = { content: [{ type: 'text', text: `Error: ${(error as Error).message}` }], isError: true };
+        }
+        const text = result.content.flatMap((c) => (c.type === 'text' ? [c.text] : [])).join(' ');
+        lines.push(`${index + 1}. ${action}: ${text.replace(/\n/g, ' ')}`);
+        content.push(...result.content.filter((c) => c.type === 'image'));
+        if (result.isError) failed++;
+
+        const pause = stepDelay ?? delayMs ?? 0;
+        // No pause after the last action, unless the final screenshot should show its effect
+        if (pause > 0 && (index < actions.length - 1 || screenshot)) {
+          await delay(pause, undefined, { signal: extra.signal }).catch(() => {});
+        }
+      }
+
+      if (screenshot && !extra.signal.aborted) {
+        try {
+          const result = await screenCapture.capture({ scale: scale ?? 1.0 }, false);
+          content.push({ type: 'image', data: result.data, mimeType: result.mimeType });
+          lines.push(`Final screenshot: ${result.width}x${result.height}px` +
+            (result.transform ? ` (${describeTransform(result.transform)})` : ''));
+        } catch (error) {
+          lines.push(`Final screenshot failed: ${(error as Error).message}`);
+        }
+      }
+
+      const summary = failed > 0
+        ? `Batch: ${failed} of ${actions.length} action(s) failed.`
+        : `Batch: ${actions.length} action(s) completed.`;
+      return {
+        content: [{ type: 'text' as const, text: `${summary}\n${lines.join('\n')}` }, ...content],
+        ...(failed > 0 ? { isError: true } : {}),
+      };
+    }
+  );
+
+  // === Macro Tools ===
+
+  tool(
+    'desktop_run_macro',
+    {
+      title: 'Desktop Run Macro',
+      description:
+        'Replay a macro (recorded with --record-macro, JSON or YAML): runs its desktop_* calls in order, ' +
+        'finds recorded elements again by selector (or OCR text) and stops at the first failing step. ' +
+        'A step with "expect" fails unless its result contains that text; desktop_wait_for steps fail on timeout.',
+      inputSchema: {
+        file: z.string().optional().describe('Path of the macro file. Required if no script.'),
+        script: z.string().optional().describe('Macro as JSON or YAML text. Alternative to file.'),
+      },
+    },
+    async ({ file, script }, extra) => {
+      let macro;
+      try {
+        if (script != null) {
+          macro = parseMacro(script);
+        } else if (file) {
+          macro = await loadMacro(file);
+        } else {
+          return { content: [{ type: 'text' as const, text: 'Error: Provide file or script.' }], isError: true };
+        }
+      } catch (error) {
+        return { content: [{ type: 'text' as const, text: `Error: ${(error as Error).message}` }], isError: true };
+      }
+
+      const progressToken = extra._meta?.progressToken;
+      // Steps report their own progress only to this tool, not to the client
+      const stepExtra = { ...extra, _meta: undefined };
+      const result = await macroPlayer.run(
+        macro,
+        async (tool, args) => {
+          const entry = tools.get(tool);
+          if (!entry) throw new Error(`Unknown tool "${tool}".`);
+          return entry.run(args, stepExtra);
+        },
+        progressToken !== undefined
+          ? (index, total, step) =>
+            extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, progress: index, total, message: `Step ${index + 1}: ${step.tool}` },
+            })
+          : undefined,
+      );
+
+      if (result.failure) {
+        const { step, tool, message } = result.failure;
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Error: Macro stopped at step ${step} of ${result.total} (${tool}): ${message}\n${result.log.join('\n')}`,
+          }],
+          isError: true,
+        };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `Macro completed: ${result.completed}/${result.total} steps\n${result.log.join('\n')}`,
+        }],
+      };
+    }
+  );
+
   return server;
 }
 
@@ -629,3 +1792,136 @@ function countElements(elements: { children?: { children?: unknown[] }[] }[]): n
   }
   return count;
 }
+
+/** Bounds as "(x,y) wxh" */
+function formatBounds([x, y, w, h]: Region): string {
+  return `(${x},${y}) ${w}x${h}`;
+}
+
+/**
+ * Resolve a ref (from the cache, or a pseudo-ref from desktop_find_text/desktop_find_image) or a selector
+ * (against a fresh tree read) to an element and its center.
+ */
+async function resolveElement(
+  ref: string | undefined,
+  selector: string | undefined,
+  windowTitle?: string,
+): Promise<{ element: UIElement; center: [number, number] } | { error: string }> {
+  if (selector) {
+    try {
+      const element = await accessibilityReader.resolveSelector(selector, windowTitle);
+      return { element, center: accessibilityReader.getElementCenter(element.ref)! };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }
+
+  if (ref?.startsWith('ocr_')) {
+    const match = ocrEngine.getTextMatch(ref);
+    if (!match) {
+      return { error: `Text match "${ref}" not found. Run desktop_find_text first.` };
+    }
+    const [x, y, w, h] = match.bounds;
+    return {
+      element: { ref, role: 'text', name: match.text, bounds: match.bounds },
+      center: [Math.round(x + w / 2), Math.round(y + h / 2)],
+    };
+  }
+
+  if (ref?.startsWith('img_')) {
+    const match = imageMatcher.getMatch(ref);
+    if (!match) {
+      return { error: `Image match "${ref}" not found. Run desktop_find_image first.` };
+    }
+    const [x, y, w, h] = match.bounds;
+    return {
+      element: { ref, role: 'image', name: `match ${match.score.toFixed(3)}`, bounds: match.bounds },
+      center: [Math.round(x + w / 2), Math.round(y + h / 2)],
+    };
+  }
+
+  const element = ref ? accessibilityReader.getElementByRef(ref) : undefined;
+  const center = ref ? accessibilityReader.getElementCenter(ref) : undefined;
+  if (!element || !center) {
+    return { error: accessibilityReader.describeMissingRef(ref ?? '') };
+  }
+  return { element, center };
+}
+
+/**
+ * Number the interactive elements (and, with words, the OCR words outside them) visible in a capture.
+ * Returns the marks to draw and one legend line per mark, e.g. '[3] ref_1a2b3c4d button "Save"'.
+ */
+async function collectMarks(
+  capture: ScreenshotResult,
+  windowTitle: string | undefined,
+  words: boolean,
+): Promise<{ marks: ScreenshotMark[]; legend: string[] }> {
+  const { originX = 0, originY = 0, scaleX = 1, scaleY = 1 } = capture.transform ?? {};
+  const area: Region = [originX, originY, capture.width / scaleX, capture.height / scaleY];
+  const visible = ([x, y, w, h]: Region) =>
+    x < area[0] + area[2] && y < area[1] + area[3] && x + w > area[0] && y + h > area[1];
+
+  const marks: ScreenshotMark[] = [];
+  const legend: string[] = [];
+  const elements = accessibilityReader
+    .interactiveElements(await accessibilityReader.readUI({ windowTitle }))
+    .filter((el) => visible(el.bounds));
+  for (const el of elements) {
+    const mark = marks.length + 1;
+    marks.push({ mark, ref: el.ref, kind: 'element', bounds: el.bounds });
+    legend.push(`[${mark}] ${el.ref} ${el.role}${el.name ? ` "${el.name}"` : ''}${el.value ? ` value="${el.value}"` : ''}`);
+  }
+
+  if (words) {
+    // Words inside an element (its label) would only duplicate the element's mark
+    const inside = (x: number, y: number) =>
+      elements.some(({ bounds: [ex, ey, ew, eh] }) => x >= ex && y >= ey && x < ex + ew && y < ey + eh);
+    for (const word of await ocrEngine.findWords({ region: capture.region })) {
+      const [x, y, w, h] = word.bounds;
+      if (!visible(word.bounds) || inside(x + w / 2, y + h / 2)) continue;
+      const mark = marks.length + 1;
+      marks.push({ mark, ref: word.ref, kind: 'word', bounds: word.bounds });
+      legend.push(`[${mark}] ${word.ref} text "${word.text}"`);
+    }
+  }
+
+  return { marks, legend };
+}
+
+/**
+ * Map a point given in screen or screenshot coordinates to screen coordinates.
+ */
+function toScreenPoint(
+  point: [number, number],
+  coordinateSpace: 'screen' | 'screenshot' | undefined,
+  captureId: string | undefined,
+): { point: [number, number] } | { error: string } {
+  if (coordinateSpace !== 'screenshot') return { point };
+  try {
+    return { point: screenCapture.toScreenCoordinate(point, captureId) };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+}
+
+/**
+ * Display geometry suffix, e.g. " - bounds (1920,0) 1280x1024, work area (1920,0) 1280x984, scale 1".
+ */
+function describeDisplayGeometry(display: DisplayInfo): string {
+  const parts: string[] = [];
+  if (display.bounds) parts.push(`bounds ${formatBounds(display.bounds)}`);
+  if (display.workArea) parts.push(`work area ${formatBounds(display.workArea)}`);
+  if (display.scaleFactor != null) parts.push(`scale ${display.scaleFactor}`);
+  return parts.length > 0 ? ` - ${parts.join(', ')}` : '';
+}
+
+/**
+ * Human-readable image-to-screen mapping, e.g. "screen coordinates = (50,50) + image coordinates / 2".
+ */
+function describeTransform(transform: CaptureTransform): string {
+  const sx = Number(transform.scaleX.toFixed(3));
+  const sy = Number(transform.scaleY.toFixed(3));
+  const divisor = sx === sy ? (sx === 1 ? '' : ` / ${sx}`) : ` / (${sx}, ${sy})`;
+  return `screen coordinates = (${transform.originX},${transform.originY}) + image coordinates${divisor}`;
+}
@@ -29,11 +29,26 @@ export interface WindowInfo {
 /** Screenshot options */
 export interface ScreenshotOptions {
   windowTitle?: string;
+  /** Crop area [x, y, width, height]; relative to the window when windowTitle is set */
   region?: Region;
   scale?: number;
   format?: 'png' | 'jpeg';
   quality?: number;
   screen?: number;
+  /** Keep the captured area (unscaled PNG) as a named template for image matching */
+  saveAs?: string;
+}
+
+/**
+ * Maps screenshot pixels to screen coordinates:
+ * screenX = originX + imageX / scaleX, screenY = originY + imageY / scaleY
+ */
+export interface CaptureTransform {
+  originX: number;
+  originY: number;
+  /** Image pixels per screen coordinate unit (capture scale x display pixel ratio) */
+  scaleX: number;
+  scaleY: number;
 }
 
 /** Screenshot result */
@@ -42,6 +57,76 @@ export interface ScreenshotResult {
   mimeType: string;
   width: number;
   height: number;
+  /** Id to refer back to this capture's transform (coordinateSpace: "screenshot") */
+  captureId?: string;
+  transform?: CaptureTransform;
+  /** Area actually captured, in global screen coordinates, when cropped (clamped to the screen) or a display/window */
+  region?: Region;
+  /** Window the capture was restricted to (windowTitle) */
+  window?: { id: number; title: string };
+  /** Display the capture came from, when one was selected (screen, or the display containing the region) */
+  screen?: number;
+}
+
+/** Numbered box drawn over a screenshot (set-of-marks), bounds in screen coordinates */
+export interface ScreenshotMark {
+  mark: number;
+  /** Element ref or OCR pseudo-ref the mark stands for */
+  ref: string;
+  kind: 'element' | 'word';
+  bounds: Region;
+}
+
+/** Decoded screen frame (raw RGBA) */
+export interface ScreenFrame {
+  pixels: Buffer;
+  width: number;
+  height: number;
+  /** Frame pixels per screen coordinate unit (HiDPI/Retina: 2) */
+  pixelRatio?: number;
+  /** Global screen position of the frame's top-left pixel */
+  origin?: [number, number];
+}
+
+/** Difference between two frames */
+export interface FrameDiff {
+  /** Changed pixels / total pixels (0-1) */
+  ratio: number;
+  changedPixels: number;
+  totalPixels: number;
+  /** Bounding boxes of changed areas, largest first */
+  regions: Region[];
+}
+
+/** Options for frame diffing */
+export interface DiffOptions {
+  /** Per-channel difference (0-255) below which a pixel counts as unchanged. Default: 24 */
+  tolerance?: number;
+}
+
+/** Options for waiting until the screen stops changing */
+export interface StableOptions extends DiffOptions {
+  /** Maximum diff ratio between consecutive frames that still counts as stable. Default: 0.001 */
+  threshold?: number;
+  /** How long the screen must stay stable, in milliseconds. Default: 500 */
+  stableFor?: number;
+  /** Delay between frames in milliseconds. Default: 200 */
+  interval?: number;
+  /** Give up after this many milliseconds. Default: 10000 */
+  timeout?: number;
+  screen?: number;
+  region?: Region;
+  signal?: AbortSignal;
+  onProgress?: (elapsed: number, timeout: number, message: string) => void | Promise<void>;
+}
+
+/** Outcome of waiting for a stable screen */
+export interface StableResult {
+  stable: boolean;
+  elapsed: number;
+  frames: number;
+  /** Diff ratio of the last frame pair */
+  ratio: number;
 }
 
 /** Click options */
@@ -76,19 +161,225 @@ export interface DragOptions {
   endCoordinate: Coordinate;
 }
 
-/** Display info for multi-monitor */
+/** Input performed through InputController, as reported to its listeners */
+export type InputAction =
+  | ({ type: 'click' } & ClickOptions)
+  | ({ type: 'type' } & TypeOptions)
+  | ({ type: 'key' } & KeyOptions)
+  | ({ type: 'scroll' } & ScrollOptions)
+  | ({ type: 'drag' } & DragOptions);
+
+/** Session recording options */
+export interface RecordingOptions {
+  /** Frames sampled per second (default 2) */
+  fps?: number;
+  /** Animation format (default gif) */
+  format?: 'gif' | 'webp';
+  /** Frame scale factor 0.1-1.0 (default 0.5) */
+  scale?: number;
+  /** Record only this area [x, y, width, height] in global screen coordinates */
+  region?: Region;
+  screen?: number;
+  /** Directory for the animation and action log (default: <tmpdir>/codriver-recordings) */
+  outputDir?: string;
+  /** Stop sampling frames after this many ms (default 300000); actions are still logged */
+  maxDuration?: number;
+}
+
+/** Input action logged during a recording, timed from the recording start */
+export type RecordedAction = InputAction & { time: number };
+
+/** Finished recording */
+export interface RecordingResult {
+  /** Path of the animated GIF/WebP */
+  file: string;
+  /** Path of the JSON action log */
+  logFile: string;
+  frames: number;
+  /** ms from start to stop */
+  duration: number;
+  width: number;
+  height: number;
+  actions: RecordedAction[];
+}
+
+/**
+ * Display info for multi-monitor.
+ * Geometry is in the global desktop coordinate space shared by all tools
+ * (origin at the primary display's top-left; other displays may have negative offsets).
+ */
 export interface DisplayInfo {
   id: number;
   name: string;
+  /** Display area [x, y, width, height] in global coordinates */
+  bounds?: Region;
+  /** Usable area excluding menu bar, taskbar and docks */
+  workArea?: Region;
+  /** OS display scaling (HiDPI/Retina: 2) */
+  scaleFactor?: number;
+  primary?: boolean;
+}
+
+/** Recognized word, bounds in screen coordinates */
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  bounds: Region;
+}
+
+/** Recognized line of words, bounds in screen coordinates */
+export interface OcrLine {
+  text: string;
+  confidence: number;
+  bounds: Region;
+  words: OcrWord[];
 }
 
 /** OCR result */
 export interface OcrResult {
   text: string;
   confidence: number;
+  words: OcrWord[];
+  lines: OcrLine[];
 }
 
-/** UI Element from accessibility tree */
+/**
+ * Image preprocessing before OCR, applied in this order regardless of how they are listed:
+ * upscale (2x), grayscale, invert (only when the background is dark), sharpen, threshold (binarize at mean luminance)
+ */
+export type OcrPreprocessStep = 'upscale' | 'grayscale' | 'invert' | 'sharpen' | 'threshold';
+
+/** Tesseract page segmentation mode */
+export type OcrPageSegMode =
+  | 'auto'
+  | 'single_column'
+  | 'single_block'
+  | 'single_line'
+  | 'single_word'
+  | 'single_char'
+  | 'sparse_text'
+  | 'raw_line';
+
+/** Options for an OCR pass */
+export interface OcrOptions {
+  region?: Region;
+  /** Default: eng */
+  language?: string;
+  /** "auto" picks steps for the capture (upscale unless HiDPI, grayscale, invert, sharpen). Default: none */
+  preprocess?: 'auto' | 'none' | OcrPreprocessStep[];
+  /** Default: auto */
+  psm?: OcrPageSegMode;
+  /** Only recognize these characters */
+  whitelist?: string;
+}
+
+/** Options for template matching (desktop_find_image) */
+export interface ImageMatchOptions {
+  /** Search only this area (global screen coordinates) */
+  region?: Region;
+  screen?: number;
+  /** Minimum normalized cross-correlation score (0-1). Default: 0.8 */
+  threshold?: number;
+  /** Also try the template scaled by up to +/- this fraction (0-0.5), in 10% steps. Default: 0 */
+  scaleTolerance?: number;
+  /** Default: 5 */
+  maxResults?: number;
+}
+
+/** Template found on screen, addressable by its pseudo-ref (img_...) */
+export interface ImageMatch {
+  ref: string;
+  /** Match rectangle in screen coordinates */
+  bounds: Region;
+  /** Normalized cross-correlation (1 = identical up to brightness/contrast) */
+  score: number;
+  /** Template scale that matched */
+  scale: number;
+}
+
+/** OCR worker pool settings */
+export interface OcrPoolOptions {
+  /** Directory (or URL) with <lang>.traineddata[.gz] files. Default: tesseract.js CDN */
+  langPath?: string;
+  /** Workers per language, i.e. concurrent OCR jobs per language. Default: 2 */
+  maxWorkers?: number;
+  /** Milliseconds an idle worker is kept before it is terminated. Default: 300000 */
+  idleTimeout?: number;
+}
+
+/** Text found on screen by desktop_find_text, addressable by its pseudo-ref (ocr_...) */
+export interface OcrTextMatch {
+  ref: string;
+  /** Matched words, joined by spaces */
+  text: string;
+  confidence: number;
+  bounds: Region;
+  /** Full line the match is part of */
+  line: string;
+}
+
+/** Condition polled by desktop_wait_for */
+export type WaitCondition =
+  | { type: 'element_appears' | 'element_disappears'; query?: string; selector?: string; windowTitle?: string }
+  | { type: 'value_equals'; value: string; query?: string; selector?: string; windowTitle?: string }
+  | { type: 'window_appears'; title: string }
+  | { type: 'text_visible'; text: string; region?: Region };
+
+/** What a ref argument pointed at when a macro was recorded, to find it again on replay */
+export type MacroTarget =
+  | { kind: 'element'; selector: string; windowTitle?: string; bounds: Region }
+  | { kind: 'text'; text: string; bounds: Region }
+  | { kind: 'image'; bounds: Region };
+
+/** One recorded tool call */
+export interface MacroStep {
+  tool: string;
+  args: Record<string, unknown>;
+  /** Ref-valued arguments (ref, startRef, endRef) by name; re-resolved on replay */
+  targets?: Record<string, MacroTarget>;
+  /** Text the tool result must contain, otherwise the replay stops (an assertion) */
+  expect?: string;
+}
+
+/** Portable macro script (JSON or YAML) */
+export interface MacroScript {
+  version: 1;
+  recordedAt?: string;
+  steps: MacroStep[];
+}
+
+/** Outcome of a macro replay */
+export interface MacroRunResult {
+  /** Steps that ran successfully */
+  completed: number;
+  total: number;
+  /** First failed step (1-based) and why; the replay stops there */
+  failure?: { step: number; tool: string; message: string };
+  /** One line per step that ran */
+  log: string[];
+}
+
+/** Polling options for waiting on a condition */
+export interface WaitOptions {
+  /** Give up after this many milliseconds (default: 10000) */
+  timeout?: number;
+  /** Delay between checks in milliseconds (default: 500) */
+  interval?: number;
+  signal?: AbortSignal;
+  /** Called after every unsuccessful check */
+  onProgress?: (elapsed: number, timeout: number, message: string) => void | Promise<void>;
+}
+
+/** Outcome of waiting on a condition */
+export interface WaitResult {
+  satisfied: boolean;
+  elapsed: number;
+  attempts: number;
+  /** What the last check observed */
+  detail: string;
+}
+
+/** UI Element from accessibility tree. States are omitted when the platform does not report them. */
 export interface UIElement {
   ref: string;
   role: string;
@@ -96,8 +387,51 @@ export interface UIElement {
   description?: string;
   value?: string;
   enabled?: boolean;
+  focused?: boolean;
+  selected?: boolean;
+  /** Checkbox, radio or toggle state; "mixed" for indeterminate */
+  checked?: boolean | 'mixed';
+  /** Present on expandable elements (tree items, combo boxes, disclosure triangles) */
+  expanded?: boolean;
+  offscreen?: boolean;
+  /** Keyboard shortcut or access key, e.g. "Ctrl+S" */
+  shortcut?: string;
+  /** Developer-assigned identifier: AXIdentifier, UIA AutomationId, AT-SPI accessible id */
+  automationId?: string;
+  /** UIA ClassName, AX subrole or toolkit class */
+  className?: string;
+  helpText?: string;
+  /** Accessibility actions (AX, AT-SPI) or control patterns (UIA) the element supports */
+  actions?: string[];
   bounds: Region;
   children?: UIElement[];
+  /** Children not read: beyond maxChildren, or left out as offscreen */
+  moreChildren?: number;
+}
+
+/** Element that appeared or disappeared between two reads, with its subtree */
+export interface UIElementDelta {
+  element: UIElement;
+  /** Elements below it that appeared or disappeared along with it */
+  descendants: number;
+}
+
+/** Element present in both reads whose name, value, states or bounds differ */
+export interface UIElementChange {
+  element: UIElement;
+  /** Readable changes, e.g. 'value "" -> "alice"', 'states unchecked -> checked' */
+  changes: string[];
+}
+
+/** Difference between the windows of a read and their previous snapshot */
+export interface UITreeDiff {
+  /** Topmost added elements; an added subtree is listed once */
+  added: UIElementDelta[];
+  /** Topmost removed elements, including whole windows that closed */
+  removed: UIElementDelta[];
+  changed: UIElementChange[];
+  /** Windows without a previous snapshot, which have nothing to diff against */
+  unseen: UIElement[];
 }
 
 /** Options for reading the accessibility tree */
@@ -105,6 +439,25 @@ export interface ReadUIOptions {
   windowTitle?: string;
   depth?: number;
   filter?: 'interactive' | 'all';
+  /** Read only the subtree of this element (depth counts from it); windowTitle is ignored */
+  rootRef?: string;
+  /** Elements per page, in reading order (parents before children). Default: all */
+  maxElements?: number;
+  /** Children read per element; the rest are only counted. Default: all */
+  maxChildren?: number;
+  /** Leave out offscreen and hidden elements with their subtrees (they are only counted) */
+  skipOffscreen?: boolean;
+}
+
+/** Page of a read: the elements of one maxElements range, under the ancestors they need */
+export interface UITreePage {
+  elements: UIElement[];
+  /** Reading-order position of the page's first element (0-based) */
+  offset: number;
+  /** Elements in this page's range */
+  count: number;
+  /** Continues the read with the next page; absent on the last one */
+  cursor?: string;
 }
 
 /** Click options with optional ref */
@@ -126,5 +479,52 @@ export interface RawUIElement {
   enabled: boolean | null;
   position: [number, number] | null;
   size: [number, number] | null;
+  /** Platform identity that survives re-reads (UIA RuntimeId), when the backend has one */
+  runtimeId?: string | null;
+  focused?: boolean | null;
+  selected?: boolean | null;
+  checked?: boolean | 'mixed' | null;
+  expanded?: boolean | null;
+  offscreen?: boolean | null;
+  shortcut?: string | null;
+  automationId?: string | null;
+  className?: string | null;
+  helpText?: string | null;
+  actions?: string[] | null;
   children: RawUIElement[];
+  /** Index among the platform's children of its parent (or top-level elements), when an earlier one failed to read */
+  index?: number | null;
+  /** Number of children, when the read stopped before the last one (maxChildren) */
+  childCount?: number | null;
+  /**
+   * Left out by skipOffscreen: only role, title and runtimeId were read, which keeps the
+   * identities and index paths of its siblings the same as in a full read
+   */
+  skipped?: boolean | null;
+}
+
+/** Limits of a driver tree read */
+export interface ReadTreeLimits {
+  /** Read the subtree of this element instead of whole windows; maxDepth counts from it */
+  root?: ElementLocator;
+  /** Stop the walk after this many elements in reading order (parents before children) */
+  maxElements?: number;
+  /** Read at most this many children per element (skipped ones not counted) */
+  maxChildren?: number;
+  /** Read offscreen or hidden elements below the root as skipped placeholders, without their subtrees */
+  skipOffscreen?: boolean;
+}
+
+/**
+ * Where a driver finds an element of an earlier read again: the same read query plus the
+ * child index path, checked against the element's raw role and title.
+ */
+export interface ElementLocator {
+  /** windowTitle of the read the element came from (undefined: frontmost app) */
+  windowTitle?: string;
+  /** Index among the read's top-level elements, then child indices down to the element */
+  path: number[];
+  role: string | null;
+  title: string | null;
+  runtimeId?: string | null;
 }
@@ -0,0 +1,14 @@
+declare module 'js-yaml' {
+  interface DumpOptions {
+    indent?: number;
+    lineWidth?: number;
+    noRefs?: boolean;
+    sortKeys?: boolean;
+  }
+
+  export function load(source: string, options?: { filename?: string }): unknown;
+  export function dump(value: unknown, options?: DumpOptions): string;
+
+  const yaml: { load: typeof load; dump: typeof dump };
+  export default yaml;
+}
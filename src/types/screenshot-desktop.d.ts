@@ -2,12 +2,23 @@ declare module 'screenshot-desktop' {
   interface ScreenshotOptions {
     format?: 'png' | 'jpg';
     filename?: string;
-    screen?: number;
+    screen?: number | string;
   }
 
   interface Display {
-    id: number;
+    /** Numeric on macOS/Windows, xrandr output name on Linux */
+    id: number | string;
     name: string;
+    /** Linux (xrandr) */
+    width?: number;
+    height?: number;
+    offsetX?: number;
+    offsetY?: number;
+    primary?: boolean;
+    /** Windows */
+    top?: number;
+    left?: number;
+    dpiScale?: number;
   }
 
   function screenshot(options?: ScreenshotOptions): Promise<Buffer>;
@@ -23,6 +23,19 @@ function mockExecResponse(jsonData: unknown) {
   });
 }
 
+// Helper to mock plain-text script output
+function mockExecOutput(stdout: string) {
+  mockExecFile.mockImplementation((...args: unknown[]) => {
+    const cb = args.find((a, i) => typeof a === 'function' && i >= 2) as
+      | ((err: Error | null, result: { stdout: string; stderr: string }) => void)
+      | undefined;
+    if (cb) {
+      cb(null, { stdout, stderr: '' });
+    }
+    return undefined as never;
+  });
+}
+
 function mockExecError(message: string) {
   mockExecFile.mockImplementation((...args: unknown[]) => {
     const cb = args.find((a, i) => typeof a === 'function' && i >= 2) as
@@ -167,6 +180,62 @@ const sampleTreeWindows = [
   },
 ];
 
+// Linux AT-SPI-style tree (role names from Atspi.Accessible.get_role_name)
+const sampleTreeLinux = [
+  {
+    role: 'frame',
+    title: 'My App',
+    description: null,
+    value: null,
+    enabled: true,
+    position: [0, 0],
+    size: [1920, 1080],
+    children: [
+      {
+        role: 'tool bar',
+        title: null,
+        description: null,
+        value: null,
+        enabled: true,
+        position: [0, 0],
+        size: [1920, 38],
+        children: [
+          {
+            role: 'push button',
+            title: 'Save',
+            description: null,
+            value: null,
+            enabled: true,
+            position: [100, 5],
+            size: [80, 28],
+            children: [],
+          },
+        ],
+      },
+      {
+        role: 'text',
+        title: 'Search',
+        description: null,
+        value: 'hello',
+        enabled: true,
+        position: [500, 5],
+        size: [200, 28],
+        children: [],
+      },
+      {
+        role: 'label',
+        title: 'Ready',
+        description: null,
+        value: null,
+        enabled: true,
+        position: [0, 1050],
+        size: [1920, 30],
+        children: [],
+      },
+    ],
+  },
+];
+
 describe('AccessibilityReader', () => {
   let reader: AccessibilityReader;
 
@@ -191,7 +260,7 @@ describe('AccessibilityReader', () => {
         const elements = await reader.readUI();
 
         expect(elements).toHaveLength(1);
-        expect(elements[0].ref).toBe('ref_6');
+        expect(elements[0].ref).toMatch(/^ref_[0-9a-f]{8}$/);
         expect(elements[0].role).toBe('window');
         expect(elements[0].name).toBe('My App');
         expect(elements[0].children).toBeDefined();
@@ -256,9 +325,9 @@ describe('AccessibilityReader', () => {
     describe('getElementByRef / getElementCenter', () => {
       it('should cache elements and return by ref', async () => {
         mockExecResponse(sampleTreeMacOS);
-        await reader.readUI();
+        const [save] = reader.findElements(await reader.readUI(), 'Save');
 
-        const saveBtn = reader.getElementByRef('ref_1');
+        const saveBtn = reader.getElementByRef(save.ref);
         expect(saveBtn).toBeDefined();
         expect(saveBtn!.role).toBe('button');
         expect(saveBtn!.name).toBe('Save');
@@ -266,9 +335,9 @@ describe('AccessibilityReader', () => {
 
       it('should calculate element center from bounds', async () => {
         mockExecResponse(sampleTreeMacOS);
-        await reader.readUI();
+        const [save] = reader.findElements(await reader.readUI(), 'Save');
 
-        const center = reader.getElementCenter('ref_1');
+        const center = reader.getElementCenter(save.ref);
         expect(center).toBeDefined();
         expect(center![0]).toBe(140);
         expect(center![1]).toBe(44);
@@ -283,6 +352,139 @@ describe('AccessibilityReader', () => {
       });
     });
 
+    describe('stable refs', () => {
+      const withoutSave = () => {
+        const tree = structuredClone(sampleTreeMacOS);
+        tree[0].children[0].children.shift();
+        return tree;
+      };
+
+      it('should keep the same ref for an element across reads', async () => {
+        mockExecResponse(sampleTreeMacOS);
+        const [first] = reader.findElements(await reader.readUI(), 'Save');
+
+        const moved = structuredClone(sampleTreeMacOS);
+        moved[0].children[0].children[0].position = [300, 30];
+        mockExecResponse(moved);
+        const [second] = reader.findElements(await reader.readUI(), 'Save');
+
+        expect(second.ref).toBe(first.ref);
+        expect(reader.getElementCenter(first.ref)).toEqual([340, 44]);
+      });
+
+      it('should give identical siblings distinct refs', async () => {
+        const tree = structuredClone(sampleTreeMacOS);
+        tree[0].children[0].children[1].title = 'Save';
+        mockExecResponse(tree);
+
+        const matches = reader.findElements(await reader.readUI(), 'Save');
+
+        expect(matches).toHaveLength(2);
+        expect(matches[0].ref).not.toBe(matches[1].ref);
+      });
+
+      it('should prefer platform runtime IDs over the ancestry path', async () => {
+        const tree = structuredClone(sampleTreeMacOS) as Array<Record<string, unknown>>;
+        tree[0].runtimeId = '42.1';
+        mockExecResponse(tree);
+        const [before] = await reader.readUI();
+
+        tree[0].title = 'My App - Edited';
+        mockExecResponse(tree);
+        const [after] = await reader.readUI();
+
+        expect(after.ref).toBe(before.ref);
+      });
+
+      it('should report a ref as gone once its window is re-read without it', async () => {
+        mockExecResponse(sampleTreeMacOS);
+        const [save] = reader.findElements(await reader.readUI(), 'Save');
+
+        mockExecResponse(withoutSave());
+        await reader.readUI();
+
+        expect(reader.getElementByRef(save.ref)).toBeUndefined();
+        expect(reader.isElementGone(save.ref)).toBe(true);
+        expect(reader.describeMissingRef(save.ref)).toContain('is gone');
+        expect(reader.describeMissingRef('ref_999')).toContain('not found');
+      });
+
+      it('should keep refs of other windows when one window is re-read', async () => {
+        mockExecResponse(sampleTreeMacOS);
+        const [save] = reader.findElements(await reader.readUI(), 'Save');
+
+        mockExecResponse(sampleTreeWindows);
+        await reader.readUI({ windowTitle: 'Notepad' });
+
+        expect(reader.getElementByRef(save.ref)?.name).toBe('Save');
+      });
+
+      it('should report refs as gone when a titled read no longer finds the window', async () => {
+        mockExecResponse(sampleTreeMacOS);
+        const [save] = reader.findElements(await reader.readUI({ windowTitle: 'My App' }), 'Save');
+
+        mockExecResponse([]);
+        await reader.readUI({ windowTitle: 'My App' });
+
+        expect(reader.isElementGone(save.ref)).toBe(true);
+      });
+
+      it('should forget refs that have been gone for many reads', async () => {
+        mockExecResponse(sampleTreeMacOS);
+        const [save] = reader.findElements(await reader.readUI(), 'Save');
+
+        mockExecResponse(withoutSave());
+        for (let i = 0; i < 49; i++) await reader.readUI();
+        expect(reader.isElementGone(save.ref)).toBe(true);
+
+        await reader.readUI();
+        expect(reader.describeMissingRef(save.ref)).toContain('not found');
+      });
+
+      it('should only keep diff baselines of the most recently read windows', async () => {
+        mockExecResponse(sampleTreeMacOS);
+        await reader.readUISnapshot();
+        for (let i = 1; i <= 20; i++) {
+          mockExecResponse([{ ...sampleTreeMacOS[0], title: `Window ${i}` }]);
+          await reader.readUISnapshot();
+        }
+
+        mockExecResponse(sampleTreeMacOS);
+        expect((await reader.readUISnapshot()).diff.unseen).toHaveLength(1);
+      });
+
+      it('should keep a bounded number of diff baselines across read options', async () => {
+        mockExecResponse(sampleTreeMacOS);
+        for (let depth = 1; depth <= 21; depth++) await reader.readUISnapshot({ depth });
+
+        expect((await reader.readUISnapshot({ depth: 21 })).diff.unseen).toHaveLength(0);
+        expect((await reader.readUISnapshot({ depth: 1 })).diff.unseen).toHaveLength(1);
+      });
+
+      it('should only keep the elements of the most recently read windows', async () => {
+        mockExecResponse(sampleTreeMacOS);
+        const [save] = reader.findElements(await reader.readUI(), 'Save');
+
+        for (let i = 1; i <= 20; i++) {
+          mockExecResponse([{ ...sampleTreeMacOS[0], title: `Window ${i}` }]);
+          await reader.readUI();
+          if (i === 19) expect(reader.getElementByRef(save.ref)?.name).toBe('Save');
+        }
+
+        expect(reader.isElementGone(save.ref)).toBe(true);
+        await expect(reader.performAction(save.ref)).rejects.toThrow('is gone');
+      });
+
+      it('should not treat elements hidden by the interactive filter as gone', async () => {
+        mockExecResponse(sampleTreeMacOS);
+        const [status] = reader.findElements(await reader.readUI(), 'Status');
+
+        await reader.readUI({ filter: 'interactive' });
+
+        expect(reader.isElementGone(status.ref)).toBe(false);
+      });
+    });
+
     describe('findElements', () => {
       it('should find elements by name', async () => {
         mockExecResponse(sampleTreeMacOS);
@@ -341,6 +543,68 @@ describe('AccessibilityReader', () => {
       });
     });
 
+    describe('states and identifiers', () => {
+      const detailedTree = [{
+        ...sampleTreeMacOS[0],
+        children: [
+          {
+            role: 'AXCheckBox',
+            title: 'Remember me',
+            description: null,
+            value: '1',
+            enabled: true,
+            position: [10, 100],
+            size: [120, 20],
+            focused: true,
+            checked: true,
+            automationId: 'rememberBox',
+            className: 'AXSwitch',
+            helpText: 'Stay signed in',
+            actions: ['AXPress'],
+            children: [],
+          },
+          {
+            role: 'AXRow',
+            title: 'Folder',
+            description: null,
+            value: null,
+            enabled: true,
+            position: [10, 130],
+            size: [120, 20],
+            selected: true,
+            expanded: false,
+            checked: null,
+            shortcut: 'Cmd+O',
+            children: [],
+          },
+        ],
+      }];
+
+      it('should carry states and identifiers into the elements and tree text', async () => {
+        mockExecResponse(detailedTree);
+        const elements = await reader.readUI();
+        const [box, row] = elements[0].children!;
+
+        expect(box).toMatchObject({ focused: true, checked: true, automationId: 'rememberBox', helpText: 'Stay signed in' });
+        expect(row).not.toHaveProperty('checked');
+        expect(reader.formatTree(elements)).toContain(
+          'checkbox "Remember me" value="1" (checked) (focused) id="rememberBox" class="AXSwitch" help="Stay signed in" actions=AXPress',
+        );
+        expect(reader.formatElement(row)).toMatch(/row "Folder" \(collapsed\) \(selected\) shortcut="Cmd\+O"$/);
+      });
+
+      it('should find elements by state word, identifier and shortcut', async () => {
+        mockExecResponse(detailedTree);
+        const elements = await reader.readUI();
+
+        expect(reader.findElements(elements, 'checked').map((el) => el.name)).toEqual(['Remember me']);
+        expect(reader.findElements(elements, 'collapsed').map((el) => el.name)).toEqual(['Folder']);
+        expect(reader.findElements(elements, 'rememberbox')).toHaveLength(1);
+        expect(reader.findElements(elements, 'cmd+o')).toHaveLength(1);
+        expect(reader.querySelector(elements, 'row:selected:collapsed')).toHaveLength(1);
+      });
+    });
+
     describe('error handling', () => {
       it('should throw with accessibility permissions hint', async () => {
         mockExecError('not allowed assistive access');
@@ -441,10 +705,9 @@ describe('AccessibilityReader', () => {
     describe('getElementByRef / getElementCenter (Windows)', () => {
       it('should cache Windows UIA elements by ref', async () => {
         mockExecResponse(sampleTreeWindows);
-        await reader.readUI();
+        const [save] = reader.findElements(await reader.readUI(), 'Save');
 
-        // ref_1 = Save button (first leaf in depth-first)
-        const saveBtn = reader.getElementByRef('ref_1');
+        const saveBtn = reader.getElementByRef(save.ref);
         expect(saveBtn).toBeDefined();
         expect(saveBtn!.role).toBe('button');
         expect(saveBtn!.name).toBe('Save');
@@ -452,16 +715,45 @@ describe('AccessibilityReader', () => {
 
       it('should calculate element center for Windows UIA elements', async () => {
         mockExecResponse(sampleTreeWindows);
-        await reader.readUI();
+        const [save] = reader.findElements(await reader.readUI(), 'Save');
 
-        // ref_1 = Save button at position [100, 5] size [80, 28]
-        const center = reader.getElementCenter('ref_1');
+        // Save button at position [100, 5] size [80, 28]
+        const center = reader.getElementCenter(save.ref);
         expect(center).toBeDefined();
         expect(center![0]).toBe(140); // 100 + 80/2
         expect(center![1]).toBe(19);  // 5 + 28/2
       });
     });
 
+    describe('setValue (Windows)', () => {
+      it('should pass the element and escaped value to PowerShell and verify the value read back', async () => {
+        mockExecResponse(sampleTreeWindows);
+        const [save] = reader.findElements(await reader.readUI({ windowTitle: 'My App' }), 'Save');
+
+        mockExecOutput('value:it\'s 50 \r\n');
+        await expect(reader.setValue(save.ref, "it's 50 ")).resolves.toEqual({ value: "it's 50 ", verified: true });
+
+        const [, args] = mockExecFile.mock.calls[1] as unknown as [string, string[]];
+        const script = args[args.length - 1];
+        expect(script).toContain('RangeValuePattern');
+        expect(script).toContain("SetValue('My App', '', @(0,0,0), 'Save', 'it''s 50 ')");
+        expect(reader.getElementByRef(save.ref)?.value).toBe("it's 50 ");
+      });
+
+      it('should compare numbers numerically and surface pattern errors', async () => {
+        mockExecResponse(sampleTreeWindows);
+        const [save] = reader.findElements(await reader.readUI(), 'Save');
+
+        mockExecOutput('value:75\r\n');
+        await expect(reader.setValue(save.ref, '75.0')).resolves.toEqual({ value: '75', verified: true });
+        mockExecOutput('value:100\r\n');
+        await expect(reader.setValue(save.ref, '150')).resolves.toEqual({ value: '100', verified: false });
+
+        mockExecOutput("error:The element's value is read-only.\r\n");
+        await expect(reader.setValue(save.ref, 'x')).rejects.toThrow("The element's value is read-only.");
+      });
+    });
+
     describe('findElements (Windows)', () => {
       it('should find elements by name in Windows UIA tree', async () => {
         mockExecResponse(sampleTreeWindows);
@@ -482,7 +774,7 @@ describe('AccessibilityReader', () => {
     });
   });
 
-  describe('unsupported platform', () => {
+  describe('Linux (AT-SPI)', () => {
     beforeEach(() => {
       vi.stubGlobal('process', { ...process, platform: 'linux' });
     });
@@ -491,6 +783,132 @@ describe('AccessibilityReader', () => {
       vi.unstubAllGlobals();
     });
 
+    it('should call python3 with window title and depth as argv', async () => {
+      mockExecResponse([]);
+
+      await reader.readUI({ windowTitle: "gedit's window", depth: 4 });
+
+      const [cmd, args] = mockExecFile.mock.calls[0] as unknown as [string, string[]];
+      expect(cmd).toBe('python3');
+      expect(args[0]).toBe('-c');
+      expect(args[1]).toContain('Atspi');
+      expect(args.slice(2)).toEqual(["gedit's window", '4', '{}']);
+    });
+
+    it('should convert AT-SPI roles to friendly names', async () => {
+      mockExecResponse(sampleTreeLinux);
+
+      const elements = await reader.readUI();
+
+      expect(elements[0].role).toBe('window');
+      expect(elements[0].children![0].role).toBe('toolbar');
+      expect(elements[0].children![0].children![0].role).toBe('button');
+      expect(elements[0].children![1].role).toBe('textfield');
+      expect(elements[0].children![2].role).toBe('text');
+    });
+
+    it('should filter for interactive elements (AT-SPI roles)', async () => {
+      mockExecResponse(sampleTreeLinux);
+
+      const elements = await reader.readUI({ filter: 'interactive' });
+      const matches = reader.findElements(elements, 'Ready');
+
+      expect(matches).toHaveLength(0);
+      expect(reader.findElements(elements, 'Save')).toHaveLength(1);
+    });
+
+    it('should support ref-based center lookup', async () => {
+      mockExecResponse(sampleTreeLinux);
+      const elements = await reader.readUI();
+
+      const [save] = reader.findElements(elements, 'Save');
+      expect(reader.getElementCenter(save.ref)).toEqual([140, 19]);
+    });
+
+    it('should explain missing PyGObject bindings', async () => {
+      mockExecError("ModuleNotFoundError: No module named 'gi'");
+
+      await expect(reader.readUI()).rejects.toThrow('AT-SPI Python bindings not installed');
+    });
+
+    it('should locate an element for a native action by window and child index path', async () => {
+      mockExecResponse(sampleTreeLinux);
+      const elements = await reader.readUI({ windowTitle: 'gedit' });
+      const [save] = reader.findElements(elements, 'Save');
+
+      mockExecResponse({ performed: 'click' });
+      await expect(reader.performAction(save.ref)).resolves.toBe('click');
+
+      const [cmd, args] = mockExecFile.mock.calls[1] as unknown as [string, string[]];
+      expect(cmd).toBe('python3');
+      expect(args[1]).toContain('do_action');
+      expect(JSON.parse(args[2])).toMatchObject({ windowTitle: 'gedit', path: [0, 0, 0], role: 'push button', title: 'Save' });
+      expect(args[3]).toBe('');
+    });
+
+    it('should keep the platform child index in the path after a child that failed to read', async () => {
+      const tree = structuredClone(sampleTreeLinux) as Array<{ children: Array<Record<string, unknown>> }>;
+      tree[0].children[0].index = 1;
+      mockExecResponse(tree);
+      const [save] = reader.findElements(await reader.readUI({ windowTitle: 'gedit' }), 'Save');
+
+      mockExecResponse({ performed: 'click' });
+      await reader.performAction(save.ref);
+
+      const [, args] = mockExecFile.mock.calls[1] as unknown as [string, string[]];
+      expect(JSON.parse(args[2])).toMatchObject({ path: [0, 1, 0], title: 'Save' });
+    });
+
+    it('should report no action and pass through action errors', async () => {
+      mockExecResponse(sampleTreeLinux);
+      const elements = await reader.readUI();
+      const [save] = reader.findElements(elements, 'Save');
+
+      mockExecResponse({ performed: null });
+      await expect(reader.performAction(save.ref)).resolves.toBeUndefined();
+
+      mockExecResponse({ error: 'Action "toggle" is not available. The element exposes: click.' });
+      await expect(reader.performAction(save.ref, 'toggle')).rejects.toThrow('The element exposes: click.');
+    });
+
+    it('should keep refs and index paths stable across offscreen placeholders', async () => {
+      const row = (extra: object = {}) => ({
+        role: 'list item', title: 'Row', description: null, value: null, enabled: true,
+        position: [0, 40], size: [200, 20], children: [], ...extra,
+      });
+      const tree = (rows: object[], childCount?: number) => [{
+        ...sampleTreeLinux[0],
+        children: [{ ...row(), role: 'list', title: 'Files', children: rows, childCount }],
+      }];
+
+      mockExecResponse(tree([row(), row(), row()]));
+      const full = reader.findElements(await reader.readUI(), 'Row');
+
+      mockExecResponse(tree([row({ skipped: true, position: null, size: null }), row(), row()], 10));
+      const [list] = await reader.readUI({ skipOffscreen: true, maxChildren: 2 });
+      const [, args] = mockExecFile.mock.calls[1] as unknown as [string, string[]];
+      expect(JSON.parse(args[4])).toEqual({ maxChildren: 2, skipOffscreen: true });
+
+      const files = list.children![0];
+      expect(files.children!.map((el) => el.ref)).toEqual([full[1].ref, full[2].ref]);
+      expect(files.moreChildren).toBe(8);
+      expect(reader.formatTree([files])).toMatch(/\n {2}\(8 more children\)$/);
+
+      mockExecResponse({ performed: 'click' });
+      await reader.performAction(full[2].ref);
+      expect(JSON.parse((mockExecFile.mock.calls[2] as unknown as [string, string[]])[1][2]).path).toEqual([0, 0, 2]);
+    });
+  });
+
+  describe('unsupported platform', () => {
+    beforeEach(() => {
+      vi.stubGlobal('process', { ...process, platform: 'freebsd' });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
     it('should throw for readUI on unsupported platform', async () => {
       await expect(reader.readUI()).rejects.toThrow('not implemented');
     });
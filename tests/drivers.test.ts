@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { writeFileSync, mkdtempSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import {
+  registerDriver,
+  listDrivers,
+  getDriver,
+  setActiveDriver,
+  getActiveDriver,
+  loadDriverModule,
+} from '../src/drivers/index.js';
+import type { PlatformDriver } from '../src/drivers/index.js';
+import { InputController } from '../src/modules/input-controller.js';
+import { WindowManager } from '../src/modules/window-manager.js';
+import { AppLauncher } from '../src/modules/app-launcher.js';
+
+function fakeDriver(name: string, overrides: Partial<PlatformDriver> = {}): PlatformDriver {
+  return {
+    name,
+    description: `Fake driver ${name}`,
+    isSupported: () => false,
+    ...overrides,
+  };
+}
+
+describe('Driver registry', () => {
+  afterEach(() => {
+    setActiveDriver(undefined);
+    vi.unstubAllGlobals();
+  });
+
+  it('should register the built-in drivers', () => {
+    const names = listDrivers().map((d) => d.name);
+
+    expect(names).toEqual(expect.arrayContaining(['macos', 'windows', 'linux-x11']));
+  });
+
+  it('should auto-detect the driver from the platform', () => {
+    vi.stubGlobal('process', { ...process, platform: 'win32' });
+    expect(getActiveDriver().name).toBe('windows');
+
+    vi.stubGlobal('process', { ...process, platform: 'darwin' });
+    expect(getActiveDriver().name).toBe('macos');
+
+    vi.stubGlobal('process', { ...process, platform: 'linux' });
+    expect(getActiveDriver().name).toBe('linux-x11');
+  });
+
+  it('should throw when no driver supports the platform', () => {
+    vi.stubGlobal('process', { ...process, platform: 'freebsd' });
+
+    expect(() => getActiveDriver()).toThrow('not implemented by any registered driver');
+  });
+
+  it('should prefer an explicitly selected driver', () => {
+    vi.stubGlobal('process', { ...process, platform: 'darwin' });
+
+    setActiveDriver('linux-x11');
+
+    expect(getActiveDriver().name).toBe('linux-x11');
+  });
+
+  it('should reject unknown driver names', () => {
+    expect(() => setActiveDriver('amiga')).toThrow('Unknown driver "amiga"');
+  });
+
+  it('should route module calls through the selected driver', async () => {
+    const click = vi.fn(async () => {});
+    const listWindows = vi.fn(async () => []);
+    registerDriver(fakeDriver('fake-routing', {
+      input: { click, type: vi.fn(), key: vi.fn(), scroll: vi.fn(), drag: vi.fn() },
+      windows: { listWindows, focusWindow: vi.fn() },
+    }));
+    setActiveDriver('fake-routing');
+
+    await new InputController().click({ coordinate: [1, 2] });
+    await new WindowManager().listWindows();
+
+    expect(click).toHaveBeenCalledWith({ coordinate: [1, 2] });
+    expect(listWindows).toHaveBeenCalled();
+  });
+
+  it('should report backends missing from the active driver', async () => {
+    registerDriver(fakeDriver('fake-empty'));
+    setActiveDriver('fake-empty');
+
+    await expect(new InputController().click({ coordinate: [0, 0] })).rejects.toThrow(
+      'Input injection not implemented by driver "fake-empty"'
+    );
+    await expect(new AppLauncher().isRunning('Safari')).resolves.toBe(false);
+  });
+
+  it('should load a third-party driver module from a path', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'codriver-driver-'));
+    const file = join(dir, 'driver.mjs');
+    writeFileSync(file, `export default { name: 'external', description: 'External', isSupported: () => false };\n`);
+
+    const driver = await loadDriverModule(file);
+
+    expect(driver?.name).toBe('external');
+    expect(getDriver('external')).toBe(driver);
+  });
+
+  it('should wrap import failures with the module name', async () => {
+    await expect(loadDriverModule('./does-not-exist.mjs')).rejects.toThrow(
+      'Failed to load driver module "./does-not-exist.mjs"'
+    );
+  });
+});
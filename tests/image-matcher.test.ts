@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import sharp from 'sharp';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import { resetVirtualDesktop, setActiveDriver } from '../src/drivers/index.js';
+import type { VirtualDesktop, VirtualScenario } from '../src/drivers/index.js';
+import { ImageMatcher } from '../src/modules/image-matcher.js';
+import { screenCapture } from '../src/modules/screen-capture.js';
+import { createServer } from '../src/server.js';
+
+const scenario: VirtualScenario = {
+  width: 640,
+  height: 400,
+  windows: [
+    {
+      title: 'Game',
+      bounds: [40, 30, 400, 300],
+      elements: [
+        {
+          id: 'play',
+          role: 'button',
+          name: 'Play',
+          bounds: [30, 60, 90, 28],
+          onClick: [{ type: 'setValue', target: 'score', value: 'Playing' }],
+        },
+        { id: 'sound', role: 'checkbox', name: 'Sound', value: '1', bounds: [30, 120, 150, 20] },
+        { id: 'score', role: 'text', name: 'Score', value: 'Idle', bounds: [30, 200, 200, 20] },
+      ],
+    },
+  ],
+};
+
+function text(result: Awaited<ReturnType<Client['callTool']>>): string {
+  const content = result.content as Array<{ type: string; text?: string }>;
+  return content.filter((c) => c.type === 'text').map((c) => c.text).join('\n');
+}
+
+/** Crop of the current virtual screen, as a PNG template */
+async function crop(region: [number, number, number, number], scale = 1): Promise<Buffer> {
+  const result = await screenCapture.capture({ region });
+  const png = Buffer.from(result.data, 'base64');
+  if (scale === 1) return png;
+  return sharp(png).resize(Math.round(region[2] * scale), Math.round(region[3] * scale)).png().toBuffer();
+}
+
+describe('ImageMatcher', () => {
+  let desktop: VirtualDesktop;
+  let matcher: ImageMatcher;
+
+  beforeEach(() => {
+    desktop = resetVirtualDesktop(scenario);
+    setActiveDriver('virtual');
+    matcher = new ImageMatcher();
+  });
+
+  afterEach(() => {
+    setActiveDriver(undefined);
+  });
+
+  it('should locate a template cropped from the screen', async () => {
+    // Play button: window (40,30) + (30,60), with a little surrounding context
+    const template = await crop([66, 86, 98, 36]);
+
+    const [match] = await matcher.find(template);
+
+    expect(match.bounds).toEqual([66, 86, 98, 36]);
+    expect(match.score).toBeGreaterThan(0.99);
+    expect(match.scale).toBe(1);
+    expect(matcher.getMatch(match.ref)).toEqual(match);
+  });
+
+  it('should follow the target when it moves', async () => {
+    const template = await crop([66, 86, 98, 36]);
+    desktop.findWindow('Game')!.bounds = [140, 50, 400, 300];
+
+    const [match] = await matcher.find(template);
+
+    expect(match.bounds).toEqual([166, 106, 98, 36]);
+  });
+
+  it('should find a rescaled template within the scale tolerance', async () => {
+    // As if captured on a display with a different scale factor
+    const template = await crop([66, 86, 98, 36], 1.25);
+
+    expect(await matcher.find(template)).toEqual([]);
+    const [match] = await matcher.find(template, { scaleTolerance: 0.2 });
+
+    expect(match.scale).toBe(0.8);
+    expect(match.bounds).toEqual([66, 86, 98, 36]);
+  });
+
+  it('should report matches in screen coordinates for a region search', async () => {
+    const template = await crop([66, 86, 98, 36]);
+
+    const [match] = await matcher.find(template, { region: [50, 50, 300, 200] });
+
+    expect(match.bounds).toEqual([66, 86, 98, 36]);
+  });
+
+  it('should return nothing below the threshold', async () => {
+    const checker = await sharp({ create: { width: 24, height: 24, channels: 3, background: '#ffffff' } })
+      .composite([
+        { input: { create: { width: 12, height: 12, channels: 3, background: '#ff0000' } }, left: 0, top: 0 },
+        { input: { create: { width: 12, height: 12, channels: 3, background: '#00ff00' } }, left: 12, top: 12 },
+      ])
+      .png()
+      .toBuffer();
+
+    expect(await matcher.find(checker, { threshold: 0.95 })).toEqual([]);
+  });
+
+  it('should reject an invalid template', async () => {
+    await expect(matcher.find(Buffer.from('not an image'))).rejects.toThrow();
+  });
+});
+
+describe('desktop_find_image (MCP session)', () => {
+  let desktop: VirtualDesktop;
+  let client: Client;
+
+  beforeEach(async () => {
+    desktop = resetVirtualDesktop(scenario);
+    setActiveDriver('virtual');
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setActiveDriver(undefined);
+  });
+
+  it('should save a crop, find it after the window moves and click the match', async () => {
+    const shot = await client.callTool({
+      name: 'desktop_screenshot',
+      arguments: { region: [66, 86, 98, 36], saveAs: 'play-button' },
+    });
+    expect(text(shot)).toContain('Saved as template "play-button" for desktop_find_image.');
+
+    desktop.findWindow('Game')!.bounds = [200, 80, 400, 300];
+    const found = text(await client.callTool({ name: 'desktop_find_image', arguments: { templateName: 'play-button' } }));
+    expect(found).toMatch(/^Found \d+ match\(es\):\n\[img_[0-9a-f]{8}\] at \(226,136\) 98x36 score 1\.000/);
+
+    const ref = found.match(/\[(img_\w+)\]/)![1];
+    await client.callTool({ name: 'desktop_click', arguments: { ref } });
+    expect(desktop.findElement('score')?.value).toBe('Playing');
+  });
+
+  it('should accept a base64 template', async () => {
+    const template = (await crop([66, 86, 98, 36])).toString('base64');
+
+    const found = text(await client.callTool({ name: 'desktop_find_image', arguments: { template } }));
+
+    expect(found).toContain('at (66,86) 98x36');
+  });
+
+  it('should keep the latest screenshot for screenshot coordinates after a search', async () => {
+    const template = (await crop([66, 86, 98, 36])).toString('base64');
+    await client.callTool({ name: 'desktop_screenshot', arguments: { scale: 0.5 } });
+    await client.callTool({ name: 'desktop_find_image', arguments: { template } });
+
+    await client.callTool({ name: 'desktop_click', arguments: { x: 100, y: 100, coordinateSpace: 'screenshot' } });
+
+    expect(desktop.events.at(-1)).toMatchObject({ type: 'click', x: 200, y: 200 });
+  });
+
+  it('should report an unknown template name', async () => {
+    const result = await client.callTool({ name: 'desktop_find_image', arguments: { templateName: 'nope' } });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('Template "nope" not found');
+  });
+});
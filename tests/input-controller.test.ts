@@ -81,6 +81,14 @@ describe('InputController', () => {
   });
 
   describe('type', () => {
+    beforeEach(() => {
+      vi.stubGlobal('process', { ...process, platform: 'darwin' });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
     it('should type text at once', async () => {
       await controller.type({ text: 'Hello World' });
 
@@ -97,6 +105,14 @@ describe('InputController', () => {
   });
 
   describe('key', () => {
+    beforeEach(() => {
+      vi.stubGlobal('process', { ...process, platform: 'darwin' });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
     it('should press a single key', async () => {
       await controller.key({ key: 'enter' });
 
@@ -302,4 +318,95 @@ describe('InputController', () => {
       expect(robot.mouseToggle).toHaveBeenCalledWith('up');
     });
   });
+
+  describe('Linux (X11 - xdotool)', () => {
+    beforeEach(() => {
+      vi.stubGlobal('process', { ...process, platform: 'linux' });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function xdotoolArgs(call = 0): string[] {
+      expect(mockExecFile.mock.calls[call][0]).toBe('xdotool');
+      return mockExecFile.mock.calls[call][1] as string[];
+    }
+
+    it('should click via xdotool', async () => {
+      await controller.click({ coordinate: [100, 200] });
+
+      expect(xdotoolArgs()).toEqual(['mousemove', '--sync', '100', '200', 'click', '1']);
+      expect(robot.mouseClick).not.toHaveBeenCalled();
+    });
+
+    it('should map right button and double-click', async () => {
+      await controller.click({ coordinate: [5, 6], button: 'right', doubleClick: true });
+
+      expect(xdotoolArgs()).toEqual(['mousemove', '--sync', '5', '6', 'click', '--repeat', '2', '--delay', '50', '3']);
+    });
+
+    it('should type text via xdotool', async () => {
+      await controller.type({ text: '-n hello' });
+
+      expect(xdotoolArgs()).toEqual(['type', '--delay', '12', '--', '-n hello']);
+      expect(robot.typeString).not.toHaveBeenCalled();
+    });
+
+    it('should translate key combinations to X11 keysyms', async () => {
+      await controller.key({ key: 'ctrl+shift+enter', repeat: 2 });
+
+      expect(xdotoolArgs()).toEqual(['key', '--repeat', '2', '--delay', '50', 'ctrl+shift+Return']);
+    });
+
+    it('should map cmd to super', async () => {
+      await controller.key({ key: 'cmd+pagedown' });
+
+      expect(xdotoolArgs()).toContain('super+Next');
+    });
+
+    it('should scroll with wheel buttons', async () => {
+      await controller.scroll({ coordinate: [10, 20], direction: 'down', amount: 4 });
+
+      expect(xdotoolArgs()).toEqual(['mousemove', '--sync', '10', '20', 'click', '--repeat', '4', '5']);
+    });
+
+    it('should drag with button 1 held', async () => {
+      await controller.drag({ startCoordinate: [0, 0], endCoordinate: [100, 50] });
+
+      const args = xdotoolArgs();
+      expect(args.slice(0, 6)).toEqual(['mousemove', '--sync', '0', '0', 'mousedown', '1']);
+      expect(args).toContain('50');
+      expect(args.slice(-2)).toEqual(['mouseup', '1']);
+    });
+
+    it('should explain a missing xdotool binary', async () => {
+      mockExecFile.mockImplementationOnce(((_cmd: string, _args: string[], _opts: unknown, callback: Function) => {
+        callback(new Error('spawn xdotool ENOENT'));
+        return undefined as never;
+      }) as never);
+
+      await expect(controller.click({ coordinate: [1, 1] })).rejects.toThrow('xdotool not found');
+    });
+
+    it('should report performed input to listeners', async () => {
+      const actions: unknown[] = [];
+      const unsubscribe = controller.onAction((action) => actions.push(action));
+      mockExecFile.mockImplementationOnce(((_cmd: string, _args: string[], _opts: unknown, callback: Function) => {
+        callback(new Error('spawn xdotool ENOENT'));
+        return undefined as never;
+      }) as never);
+
+      await expect(controller.click({ coordinate: [1, 1] })).rejects.toThrow();
+      await controller.click({ coordinate: [5, 6], button: 'right' });
+      await controller.key({ key: 'ctrl+a' });
+      unsubscribe();
+      await controller.type({ text: 'ignored' });
+
+      expect(actions).toEqual([
+        { type: 'click', coordinate: [5, 6], button: 'right' },
+        { type: 'key', key: 'ctrl+a' },
+      ]);
+    });
+  });
 });
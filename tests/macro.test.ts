@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import { resetVirtualDesktop, setActiveDriver } from '../src/drivers/index.js';
+import type { VirtualDesktop, VirtualScenario } from '../src/drivers/index.js';
+import { parseMacro, serializeMacro } from '../src/modules/macro.js';
+import { createServer } from '../src/server.js';
+import type { ServerOptions } from '../src/server.js';
+import type { MacroScript } from '../src/types/index.js';
+
+const scenario: VirtualScenario = {
+  width: 800,
+  height: 600,
+  windows: [
+    {
+      title: 'Order',
+      bounds: [50, 50, 400, 300],
+      elements: [
+        { id: 'qty', role: 'textfield', name: 'Quantity', bounds: [10, 40, 120, 24] },
+        {
+          id: 'add',
+          role: 'button',
+          name: 'Add',
+          bounds: [10, 80, 80, 28],
+          onClick: [{ type: 'setValue', target: 'status', value: 'Added' }],
+        },
+        {
+          id: 'add-2',
+          role: 'button',
+          name: 'Add',
+          bounds: [100, 80, 80, 28],
+          onClick: [{ type: 'setValue', target: 'status', value: 'Added twice' }],
+        },
+        { id: 'status', role: 'text', name: 'Status', value: 'Empty', bounds: [10, 130, 200, 20] },
+      ],
+    },
+  ],
+};
+
+function text(result: Awaited<ReturnType<Client['callTool']>>): string {
+  const content = result.content as Array<{ type: string; text?: string }>;
+  return content.filter((c) => c.type === 'text').map((c) => c.text).join('\n');
+}
+
+async function connect(options?: ServerOptions): Promise<Client> {
+  const server = createServer(options);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('Macro scripts', () => {
+  it('should parse JSON and YAML scripts alike', () => {
+    const script: MacroScript = {
+      version: 1,
+      steps: [{ tool: 'desktop_key', args: { key: 'ctrl+s' }, expect: 'Pressed' }],
+    };
+
+    expect(parseMacro(serializeMacro(script, 'flow.json'))).toEqual(script);
+    expect(parseMacro(serializeMacro(script, 'flow.yaml'), 'flow.yaml')).toEqual(script);
+    expect(serializeMacro(script, 'flow.yml')).toContain('- tool: desktop_key\n');
+  });
+
+  it('should default missing args to an empty object', () => {
+    expect(parseMacro('steps:\n  - tool: desktop_windows\n').steps).toEqual([{ tool: 'desktop_windows', args: {} }]);
+  });
+
+  it('should reject malformed scripts', () => {
+    expect(() => parseMacro('[1, 2]')).toThrow('expected an object with a "steps" list');
+    expect(() => parseMacro('steps:\n  - tool: rm\n')).toThrow('Invalid macro step 1: "tool" must name a desktop_* tool.');
+    expect(() => parseMacro('steps:\n  - tool: desktop_key\n    args: [1]\n')).toThrow('"args" must be an object');
+    expect(() => parseMacro('steps: [', 'bad.yaml')).toThrow(/^Invalid macro bad\.yaml: /);
+  });
+});
+
+describe('Macro recording and replay (MCP session)', () => {
+  let desktop: VirtualDesktop;
+  let dir: string;
+  let client: Client;
+
+  beforeEach(() => {
+    desktop = resetVirtualDesktop(scenario);
+    setActiveDriver('virtual');
+    dir = mkdtempSync(join(tmpdir(), 'codriver-macro-'));
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    setActiveDriver(undefined);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should record ref arguments with selectors that find the element again', async () => {
+    const file = join(dir, 'order.json');
+    client = await connect({ recordMacro: file });
+
+    const tree = text(await client.callTool({ name: 'desktop_read_ui', arguments: { windowTitle: 'Order' } }));
+    const qty = tree.match(/\[(ref_\w+)\] textfield "Quantity"/)![1];
+    const second = [...tree.matchAll(/\[(ref_\w+)\] button "Add"/g)][1][1];
+    await client.callTool({ name: 'desktop_type', arguments: { ref: qty, text: '3' } });
+    await client.callTool({ name: 'desktop_click', arguments: { ref: second } });
+    // Failed calls are not recorded
+    await client.callTool({ name: 'desktop_click', arguments: { ref: 'ref_00000000' } });
+
+    const script = JSON.parse(readFileSync(file, 'utf8')) as MacroScript;
+    expect(script.steps.map((s) => s.tool)).toEqual(['desktop_read_ui', 'desktop_type', 'desktop_click']);
+    expect(script.steps[1]).toMatchObject({
+      args: { ref: qty, text: '3' },
+      targets: { ref: { kind: 'element', selector: 'window[name="Order"] textfield[name="Quantity"]', windowTitle: 'Order' } },
+    });
+    expect(script.steps[2].targets!.ref).toMatchObject({
+      selector: 'window[name="Order"] button[name="Add"] nth=2',
+      bounds: [150, 130, 80, 28],
+    });
+  });
+
+  it('should record screenshot coordinates as screen coordinates', async () => {
+    const file = join(dir, 'click.yaml');
+    client = await connect({ recordMacro: file });
+
+    const shot = text(await client.callTool({ name: 'desktop_screenshot', arguments: { windowTitle: 'Order', scale: 0.5 } }));
+    const captureId = shot.match(/Capture (cap_\d+)/)![1];
+    await client.callTool({ name: 'desktop_click', arguments: { x: 25, y: 47, coordinateSpace: 'screenshot', captureId } });
+
+    const script = parseMacro(readFileSync(file, 'utf8'), file);
+    expect(script.steps[1]).toEqual({ tool: 'desktop_click', args: { x: 100, y: 144 } });
+  });
+
+  it('should record the actions of a batch as separate steps', async () => {
+    const file = join(dir, 'batch.json');
+    client = await connect({ recordMacro: file });
+
+    await client.callTool({
+      name: 'desktop_batch',
+      arguments: { actions: [{ action: 'key', key: 'tab' }, { action: 'wait', ms: 1 }, { action: 'click', selector: 'button "Add" nth=1' }] },
+    });
+
+    const script = JSON.parse(readFileSync(file, 'utf8')) as MacroScript;
+    expect(script.steps).toEqual([
+      { tool: 'desktop_key', args: { key: 'tab' } },
+      { tool: 'desktop_click', args: { selector: 'button "Add" nth=1' } },
+    ]);
+  });
+
+  it('should replay a recording after the window moved', async () => {
+    const file = join(dir, 'order.yaml');
+    client = await connect({ recordMacro: file });
+    const tree = text(await client.callTool({ name: 'desktop_read_ui', arguments: { windowTitle: 'Order' } }));
+    await client.callTool({ name: 'desktop_type', arguments: { ref: tree.match(/\[(ref_\w+)\] textfield/)![1], text: '3' } });
+    await client.callTool({ name: 'desktop_click', arguments: { ref: [...tree.matchAll(/\[(ref_\w+)\] button "Add"/g)][1][1] } });
+    await client.close();
+
+    desktop = resetVirtualDesktop(scenario);
+    desktop.findWindow('Order')!.bounds = [300, 200, 400, 300];
+    client = await connect();
+    const result = await client.callTool({ name: 'desktop_run_macro', arguments: { file } });
+
+    expect(result.isError).toBeFalsy();
+    expect(text(result)).toMatch(/^Macro completed: 3\/3 steps\n1\. desktop_read_ui ok: /);
+    expect(desktop.findElement('qty')?.value).toBe('3');
+    expect(desktop.findElement('status')?.value).toBe('Added twice');
+  });
+
+  it('should stop at the first failed assertion', async () => {
+    client = await connect();
+    const script = [
+      'steps:',
+      '  - tool: desktop_click',
+      '    args: { selector: \'button "Add" nth=1\' }',
+      '  - tool: desktop_find',
+      '    args: { query: Status }',
+      '    expect: value="Shipped"',
+      '  - tool: desktop_click',
+      '    args: { selector: \'button "Add" nth=2\' }',
+    ].join('\n');
+
+    const result = await client.callTool({ name: 'desktop_run_macro', arguments: { script } });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toMatch(
+      /^Error: Macro stopped at step 2 of 3 \(desktop_find\): expected the result to contain "value="Shipped"", got: /
+    );
+    expect(desktop.findElement('status')?.value).toBe('Added');
+  });
+
+  it('should fail a step whose recorded element is gone', async () => {
+    client = await connect();
+    const script: MacroScript = {
+      version: 1,
+      steps: [{
+        tool: 'desktop_click',
+        args: { ref: 'ref_deadbeef' },
+        targets: { ref: { kind: 'element', selector: 'button[name="Checkout"]', windowTitle: 'Order', bounds: [0, 0, 1, 1] } },
+      }],
+    };
+
+    const result = await client.callTool({ name: 'desktop_run_macro', arguments: { script: JSON.stringify(script) } });
+
+    expect(text(result)).toBe(
+      'Error: Macro stopped at step 1 of 1 (desktop_click): No element matches selector "button[name="Checkout"]".\n' +
+      '1. desktop_click FAILED: No element matches selector "button[name="Checkout"]".'
+    );
+  }, 10000);
+
+  it('should report invalid step arguments and unknown tools', async () => {
+    client = await connect();
+
+    const invalid = await client.callTool({
+      name: 'desktop_run_macro',
+      arguments: { script: '{"steps": [{"tool": "desktop_key", "args": {"key": 5}}]}' },
+    });
+    const unknown = await client.callTool({
+      name: 'desktop_run_macro',
+      arguments: { script: '{"steps": [{"tool": "desktop_teleport", "args": {}}]}' },
+    });
+
+    expect(text(invalid)).toContain('(desktop_key): Invalid arguments: key: Expected string, received number');
+    expect(text(unknown)).toContain('(desktop_teleport): Unknown tool "desktop_teleport".');
+  });
+
+  it('should read a macro file', async () => {
+    const file = join(dir, 'keys.json');
+    writeFileSync(file, JSON.stringify({ version: 1, steps: [{ tool: 'desktop_key', args: { key: 'tab' } }] }));
+    client = await connect();
+
+    const result = await client.callTool({ name: 'desktop_run_macro', arguments: { file } });
+
+    expect(text(result)).toMatch(/^Macro completed: 1\/1 steps\n1\. desktop_key ok: /);
+    expect(desktop.events.map((e) => e.type)).toEqual(['key']);
+  });
+});
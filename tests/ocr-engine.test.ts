@@ -1,18 +1,60 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import sharp from 'sharp';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
 
-// Mock tesseract.js
+const tesseract = vi.hoisted(() => {
+  function word(text: string, x0: number, y0: number, x1: number, y1: number, confidence = 90) {
+    return { text, confidence, bbox: { x0, y0, x1, y1 } };
+  }
+  const lineWords = [
+    [word('Sign', 20, 10, 60, 30), word('in', 66, 10, 80, 30)],
+    [word('Forgot', 20, 50, 80, 70, 70), word('password?', 86, 50, 170, 70)],
+  ];
+  const page = {
+    text: '  Sign in\nForgot password?  \n',
+    confidence: 92.5,
+    blocks: [{
+      paragraphs: [{
+        lines: lineWords.map((words) => ({
+          text: words.map((w) => w.text).join(' '),
+          confidence: 85,
+          bbox: { x0: words[0].bbox.x0, y0: words[0].bbox.y0, x1: words[words.length - 1].bbox.x1, y1: words[0].bbox.y1 },
+          words,
+        })),
+      }],
+    }],
+  };
+  return {
+    page,
+    workers: [] as Array<{
+      recognize: ReturnType<typeof vi.fn>;
+      setParameters: ReturnType<typeof vi.fn>;
+      terminate: ReturnType<typeof vi.fn>;
+    }>,
+  };
+});
+
+// Mock tesseract.js: each worker recognizes two lines of words, in image pixels
 vi.mock('tesseract.js', () => ({
   default: {
-    recognize: vi.fn(async () => ({
-      data: {
-        text: '  Hello World  \n',
-        confidence: 92.5,
-      },
-    })),
+    PSM: { AUTO: '3', SINGLE_COLUMN: '4', SINGLE_BLOCK: '6', SINGLE_LINE: '7', SINGLE_WORD: '8', SINGLE_CHAR: '10', SPARSE_TEXT: '11', RAW_LINE: '13' },
+    createWorker: vi.fn(async () => {
+      const worker = {
+        recognize: vi.fn(async () => ({ data: tesseract.page })),
+        setParameters: vi.fn(async () => ({})),
+        terminate: vi.fn(async () => ({})),
+      };
+      tesseract.workers.push(worker);
+      return worker;
+    }),
   },
 }));
 
-// Mock screen-capture module
+// Mock screen-capture module: a 2x HiDPI capture of the region at (100,200)
 vi.mock('../src/modules/screen-capture.js', () => ({
   screenCapture: {
     capture: vi.fn(async () => ({
@@ -20,6 +62,7 @@ vi.mock('../src/modules/screen-capture.js', () => ({
       mimeType: 'image/png',
       width: 800,
       height: 600,
+      transform: { originX: 100, originY: 200, scaleX: 2, scaleY: 2 },
     })),
   },
 }));
@@ -27,8 +70,10 @@ vi.mock('../src/modules/screen-capture.js', () => ({
 import Tesseract from 'tesseract.js';
 import { screenCapture } from '../src/modules/screen-capture.js';
 import { OcrEngine } from '../src/modules/ocr-engine.js';
+import { resetVirtualDesktop, setActiveDriver } from '../src/drivers/index.js';
+import { createServer } from '../src/server.js';
 
-const mockRecognize = vi.mocked(Tesseract.recognize);
+const mockCreateWorker = vi.mocked(Tesseract.createWorker);
 const mockCapture = vi.mocked(screenCapture.capture);
 
 describe('OcrEngine', () => {
@@ -36,15 +81,20 @@ describe('OcrEngine', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    tesseract.workers.length = 0;
     ocr = new OcrEngine();
   });
 
+  afterEach(async () => {
+    await ocr.shutdown();
+  });
+
   it('should capture screenshot and run OCR', async () => {
     const result = await ocr.recognize();
 
-    expect(mockCapture).toHaveBeenCalledWith({ region: undefined, format: 'png' });
-    expect(mockRecognize).toHaveBeenCalled();
-    expect(result.text).toBe('Hello World');
+    expect(mockCapture).toHaveBeenCalledWith({ region: undefined, format: 'png' }, false);
+    expect(mockCreateWorker).toHaveBeenCalled();
+    expect(result.text).toBe('Sign in\nForgot password?');
     expect(result.confidence).toBe(92.5);
   });
 
@@ -54,25 +104,295 @@ describe('OcrEngine', () => {
     expect(mockCapture).toHaveBeenCalledWith({
       region: [100, 200, 400, 300],
       format: 'png',
-    });
+    }, false);
   });
 
   it('should pass language to tesseract', async () => {
     await ocr.recognize({ language: 'deu' });
 
-    expect(mockRecognize).toHaveBeenCalledWith(expect.any(Buffer), 'deu');
+    expect(mockCreateWorker).toHaveBeenCalledWith('deu', undefined, undefined);
   });
 
   it('should default to English language', async () => {
     await ocr.recognize();
 
-    expect(mockRecognize).toHaveBeenCalledWith(expect.any(Buffer), 'eng');
+    expect(mockCreateWorker).toHaveBeenCalledWith('eng', undefined, undefined);
   });
 
   it('should trim whitespace from OCR result', async () => {
     const result = await ocr.recognize();
 
-    expect(result.text).toBe('Hello World');
-    expect(result.text).not.toContain('\n');
+    expect(result.text).toBe('Sign in\nForgot password?');
+    expect(result.text).not.toMatch(/^\s|\s$/);
+  });
+
+  it('should map word and line boxes to screen coordinates', async () => {
+    const result = await ocr.recognize({ region: [100, 200, 400, 300] });
+
+    expect(result.lines.map((l) => l.text)).toEqual(['Sign in', 'Forgot password?']);
+    // Image (20,10)-(60,30) at 2x from origin (100,200)
+    expect(result.words[0]).toEqual({ text: 'Sign', confidence: 90, bounds: [110, 205, 20, 10] });
+    expect(result.lines[1].bounds).toEqual([110, 225, 75, 10]);
+    expect(result.words).toHaveLength(4);
+  });
+
+  it('should find text spanning several words and remember it by pseudo-ref', async () => {
+    const matches = await ocr.findText('SIGN IN');
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ text: 'Sign in', bounds: [110, 205, 30, 10], line: 'Sign in' });
+    expect(matches[0].ref).toMatch(/^ocr_[0-9a-f]{8}$/);
+    expect(ocr.getTextMatch(matches[0].ref)).toEqual(matches[0]);
+  });
+
+  it('should report the lowest word confidence of a match', async () => {
+    const [match] = await ocr.findText('forgot pass');
+
+    expect(match.text).toBe('Forgot password?');
+    expect(match.confidence).toBe(70);
+  });
+
+  it('should return every word with a pseudo-ref', async () => {
+    const words = await ocr.findWords();
+
+    expect(words.map((w) => w.text)).toEqual(['Sign', 'in', 'Forgot', 'password?']);
+    expect(words[3]).toMatchObject({ bounds: [143, 225, 42, 10], line: 'Forgot password?' });
+    expect(ocr.getTextMatch(words[3].ref)).toEqual(words[3]);
+  });
+
+  it('should return no matches for absent or empty text', async () => {
+    expect(await ocr.findText('Register')).toEqual([]);
+    expect(await ocr.findText('  ')).toEqual([]);
+  });
+});
+
+describe('OcrEngine preprocessing', () => {
+  let ocr: OcrEngine;
+
+  /** Dark-mode capture: light text-like bar on a dark background */
+  async function darkCapture(scale = 1) {
+    const data = await sharp({ create: { width: 40, height: 20, channels: 4, background: { r: 20, g: 24, b: 30, alpha: 1 } } })
+      .composite([{
+        input: await sharp({ create: { width: 20, height: 6, channels: 4, background: { r: 230, g: 230, b: 230, alpha: 1 } } }).png().toBuffer(),
+        left: 10,
+        top: 7,
+      }])
+      .png()
+      .toBuffer();
+    mockCapture.mockResolvedValueOnce({
+      data: data.toString('base64'),
+      mimeType: 'image/png',
+      width: 40,
+      height: 20,
+      transform: { originX: 100, originY: 200, scaleX: scale, scaleY: scale },
+    });
+  }
+
+  /** Image handed to Tesseract by the latest recognize call */
+  async function recognizedImage() {
+    const image = tesseract.workers[0].recognize.mock.calls.at(-1)![0] as Buffer;
+    return { meta: await sharp(image).metadata(), stats: await sharp(image).stats() };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tesseract.workers.length = 0;
+    ocr = new OcrEngine();
+  });
+
+  afterEach(async () => {
+    await ocr.shutdown();
+  });
+
+  it('should pass the capture through unchanged by default', async () => {
+    await darkCapture();
+    await ocr.recognize();
+
+    const { meta, stats } = await recognizedImage();
+    expect(meta.width).toBe(40);
+    expect(stats.channels[0].mean).toBeLessThan(128);
+  });
+
+  it('should upscale, grayscale and invert dark captures with "auto"', async () => {
+    await darkCapture();
+    const result = await ocr.recognize({ preprocess: 'auto' });
+
+    const { meta, stats } = await recognizedImage();
+    expect([meta.width, meta.height]).toEqual([80, 40]);
+    expect(stats.channels[0].mean).toBeGreaterThan(128);
+    // Boxes from the 2x image map back to the same screen area
+    expect(result.words[0].bounds).toEqual([110, 205, 20, 10]);
+  });
+
+  it('should not upscale HiDPI captures with "auto"', async () => {
+    await darkCapture(2);
+    await ocr.recognize({ preprocess: 'auto' });
+
+    expect((await recognizedImage()).meta.width).toBe(40);
+  });
+
+  it('should binarize with the threshold step', async () => {
+    await darkCapture();
+    await ocr.recognize({ preprocess: ['threshold'] });
+
+    const { stats } = await recognizedImage();
+    expect([stats.channels[0].min, stats.channels[0].max]).toEqual([0, 255]);
+    expect((await recognizedImage()).meta.width).toBe(40);
+  });
+
+  it('should set the page segmentation mode and whitelist per job', async () => {
+    await ocr.recognize({ psm: 'single_line', whitelist: '0123456789' });
+    await ocr.recognize();
+
+    const { setParameters } = tesseract.workers[0];
+    expect(setParameters).toHaveBeenNthCalledWith(1, { tessedit_pageseg_mode: '7', tessedit_char_whitelist: '0123456789' });
+    expect(setParameters).toHaveBeenNthCalledWith(2, { tessedit_pageseg_mode: '3', tessedit_char_whitelist: '' });
+  });
+});
+
+describe('OcrEngine worker pool', () => {
+  let ocr: OcrEngine;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tesseract.workers.length = 0;
+    ocr = new OcrEngine();
+  });
+
+  afterEach(async () => {
+    await ocr.shutdown();
+  });
+
+  it('should reuse an initialized worker across calls', async () => {
+    await ocr.recognize();
+    await ocr.recognize();
+
+    expect(mockCreateWorker).toHaveBeenCalledTimes(1);
+    expect(tesseract.workers[0].recognize).toHaveBeenCalledTimes(2);
+    expect(ocr.poolStats()).toEqual({ eng: { workers: 1, idle: 1 } });
+  });
+
+  it('should keep a pool per language', async () => {
+    await ocr.recognize({ language: 'eng' });
+    await ocr.recognize({ language: 'deu' });
+
+    expect(ocr.poolStats()).toEqual({ eng: { workers: 1, idle: 1 }, deu: { workers: 1, idle: 1 } });
+  });
+
+  it('should limit concurrent workers and queue further jobs', async () => {
+    await ocr.configure({ maxWorkers: 2 });
+    const results = await Promise.all([ocr.recognize(), ocr.recognize(), ocr.recognize()]);
+
+    expect(results).toHaveLength(3);
+    expect(mockCreateWorker).toHaveBeenCalledTimes(2);
+    expect(ocr.poolStats().eng).toEqual({ workers: 2, idle: 2 });
+  });
+
+  it('should terminate idle workers after the idle timeout', async () => {
+    await ocr.configure({ idleTimeout: 10 });
+    await ocr.recognize();
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(tesseract.workers[0].terminate).toHaveBeenCalled();
+    expect(ocr.poolStats().eng).toEqual({ workers: 0, idle: 0 });
+  });
+
+  it('should discard a worker whose job failed', async () => {
+    await ocr.recognize();
+    tesseract.workers[0].recognize.mockRejectedValueOnce(new Error('worker crashed'));
+
+    await expect(ocr.recognize()).rejects.toThrow('worker crashed');
+    expect(tesseract.workers[0].terminate).toHaveBeenCalled();
+
+    await ocr.recognize();
+    expect(mockCreateWorker).toHaveBeenCalledTimes(2);
+  });
+
+  it('should terminate a busy worker once its job finishes when reconfigured', async () => {
+    await ocr.recognize();
+    let finish = () => {};
+    tesseract.workers[0].recognize.mockImplementationOnce(() => new Promise((resolve) => {
+      finish = () => resolve({ data: tesseract.page });
+    }));
+    const pending = ocr.recognize();
+    await vi.waitFor(() => expect(tesseract.workers[0].recognize).toHaveBeenCalledTimes(2));
+
+    const configured = ocr.configure({ maxWorkers: 1 });
+    await ocr.recognize();
+    expect(tesseract.workers[0].terminate).not.toHaveBeenCalled();
+
+    finish();
+    await expect(pending).resolves.toMatchObject({ text: 'Sign in\nForgot password?' });
+    await configured;
+    expect(tesseract.workers[0].terminate).toHaveBeenCalled();
+    expect(mockCreateWorker).toHaveBeenCalledTimes(2);
+    expect(ocr.poolStats()).toEqual({ eng: { workers: 1, idle: 1 } });
+  });
+
+  it('should warm up workers ahead of the first call', async () => {
+    await ocr.warmUp(['eng', 'deu']);
+
+    expect(mockCreateWorker).toHaveBeenCalledTimes(2);
+    await ocr.recognize({ language: 'deu' });
+    expect(mockCreateWorker).toHaveBeenCalledTimes(2);
+  });
+
+  it('should load traineddata from a local directory without caching', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'codriver-ocr-'));
+    writeFileSync(join(dir, 'eng.traineddata'), '');
+    await ocr.configure({ langPath: dir });
+
+    await ocr.recognize({ language: 'eng' });
+    await ocr.recognize({ language: 'deu' });
+
+    expect(mockCreateWorker).toHaveBeenCalledWith('eng', undefined, { langPath: dir, gzip: false, cacheMethod: 'none' });
+    expect(mockCreateWorker).toHaveBeenCalledWith('deu', undefined, { langPath: dir, gzip: true, cacheMethod: 'none' });
+  });
+
+  it('should report a language that fails to load', async () => {
+    mockCreateWorker.mockRejectedValueOnce(new Error('ENOENT: xyz.traineddata.gz'));
+
+    await expect(ocr.recognize({ language: 'xyz' })).rejects.toThrow('Failed to load OCR language "xyz"');
+    expect(ocr.poolStats().xyz).toEqual({ workers: 0, idle: 0 });
+  });
+});
+
+describe('desktop_find_text (MCP session)', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    setActiveDriver('virtual');
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setActiveDriver(undefined);
+  });
+
+  it('should click and type on a text match by pseudo-ref', async () => {
+    const desktop = resetVirtualDesktop({ width: 800, height: 600 });
+    const found = await client.callTool({ name: 'desktop_find_text', arguments: { text: 'password' } });
+    const text = (found.content as Array<{ text: string }>)[0].text;
+    const ref = text.match(/\[(ocr_\w+)\]/)![1];
+
+    expect(text).toContain(`[${ref}] "password?" at (143,225) 42x10 (90%) in line "Forgot password?"`);
+
+    await client.callTool({ name: 'desktop_click', arguments: { ref } });
+    expect(desktop.events.at(-1)).toMatchObject({ type: 'click', x: 164, y: 230 });
+
+    const typed = await client.callTool({ name: 'desktop_type', arguments: { ref, text: 'x' } });
+    expect((typed.content as Array<{ text: string }>)[0].text).toBe(`Clicked ${ref} and typed: "x"`);
+  });
+
+  it('should report an unknown pseudo-ref', async () => {
+    const result = await client.callTool({ name: 'desktop_click', arguments: { ref: 'ocr_deadbeef' } });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('Run desktop_find_text first');
   });
 });
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import sharp from 'sharp';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import { resetVirtualDesktop, setActiveDriver } from '../src/drivers/index.js';
+import type { VirtualDesktop, VirtualScenario } from '../src/drivers/index.js';
+import { Recorder } from '../src/modules/recorder.js';
+import { inputController } from '../src/modules/input-controller.js';
+import { createServer } from '../src/server.js';
+
+const scenario: VirtualScenario = {
+  width: 400,
+  height: 300,
+  windows: [
+    {
+      title: 'Form',
+      bounds: [20, 20, 300, 200],
+      elements: [
+        { id: 'name', role: 'textfield', name: 'Name', bounds: [10, 40, 200, 24] },
+        {
+          id: 'ok',
+          role: 'button',
+          name: 'OK',
+          bounds: [10, 80, 90, 28],
+          onClick: [{ type: 'setValue', target: 'status', value: 'Done' }],
+        },
+        { id: 'status', role: 'text', name: 'Status', value: 'Idle', bounds: [10, 120, 200, 20] },
+      ],
+    },
+  ],
+};
+
+function text(result: Awaited<ReturnType<Client['callTool']>>): string {
+  const content = result.content as Array<{ type: string; text?: string }>;
+  return content.filter((c) => c.type === 'text').map((c) => c.text).join('\n');
+}
+
+/** RGB of every frame of an animation at (x, y) */
+async function pixelPerFrame(file: string, x: number, y: number): Promise<number[][]> {
+  const { data, info } = await sharp(file, { pages: -1 }).raw().toBuffer({ resolveWithObject: true });
+  const pageHeight = (await sharp(file, { pages: -1 }).metadata()).pageHeight!;
+  const pages = info.height / pageHeight;
+  return Array.from({ length: pages }, (_, page) => {
+    const offset = ((page * pageHeight + y) * info.width + x) * info.channels;
+    return Array.from(data.subarray(offset, offset + 3));
+  });
+}
+
+describe('Recorder', () => {
+  let recorder: Recorder;
+  let outputDir: string;
+
+  beforeEach(() => {
+    resetVirtualDesktop(scenario);
+    setActiveDriver('virtual');
+    recorder = new Recorder();
+    outputDir = mkdtempSync(join(tmpdir(), 'codriver-rec-'));
+  });
+
+  afterEach(async () => {
+    if (recorder.recording) await recorder.stop();
+    setActiveDriver(undefined);
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should save an animated GIF and an action log', async () => {
+    await recorder.start({ fps: 10, scale: 1, outputDir });
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    await inputController.click({ coordinate: [75, 114] });
+    await inputController.type({ text: 'hello' });
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    const result = await recorder.stop();
+
+    expect(recorder.recording).toBe(false);
+    expect(result.file).toMatch(/recording-.*\.gif$/);
+    expect([result.width, result.height]).toEqual([400, 300]);
+
+    const meta = await sharp(result.file, { pages: -1 }).metadata();
+    expect(meta.format).toBe('gif');
+    expect(result.frames).toBeGreaterThanOrEqual(3);
+    // The encoder merges identical consecutive frames; the marker frames differ from the rest
+    expect(meta.pages).toBeGreaterThanOrEqual(2);
+    expect(meta.pages).toBeLessThanOrEqual(result.frames);
+    expect(meta.delay).toHaveLength(meta.pages!);
+
+    const log = JSON.parse(readFileSync(result.logFile, 'utf8'));
+    expect(log.frames).toBe(result.frames);
+    expect(log.actions.map((a: { type: string }) => a.type)).toEqual(['click', 'type']);
+    expect(log.actions[0]).toMatchObject({ type: 'click', coordinate: [75, 114] });
+    expect(log.actions[1]).toMatchObject({ type: 'type', text: 'hello' });
+    expect(log.actions[0].time).toBeGreaterThanOrEqual(200);
+  });
+
+  it('should draw a click marker on the frames after the click only', async () => {
+    await recorder.start({ fps: 10, scale: 1, outputDir });
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    await inputController.click({ coordinate: [300, 250] });
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    const result = await recorder.stop();
+
+    // The ring's centre dot is red on frames sampled after the click
+    const pixels = await pixelPerFrame(result.file, 300, 250);
+    const red = pixels.map(([r, g, b]) => r > 200 && g < 100 && b < 100);
+    expect(red[0]).toBe(false);
+    expect(red.at(-1)).toBe(true);
+    expect(red.indexOf(true)).toBeGreaterThan(0);
+  });
+
+  it('should record a region as WebP in frame coordinates', async () => {
+    await recorder.start({ fps: 5, scale: 0.5, format: 'webp', region: [20, 20, 300, 200], outputDir });
+    await inputController.click({ coordinate: [120, 120] });
+    const result = await recorder.stop();
+
+    expect(result.file).toMatch(/\.webp$/);
+    expect([result.width, result.height]).toEqual([150, 100]);
+    expect((await sharp(result.file, { pages: -1 }).metadata()).format).toBe('webp');
+    // (120,120) is (100,100) into the region, at half scale
+    const [, ...after] = await pixelPerFrame(result.file, 50, 50);
+    expect(after.some(([r, g, b]) => r > 200 && g < 100 && b < 100)).toBe(true);
+  });
+
+  it('should stop logging input after the recording stops', async () => {
+    await recorder.start({ fps: 5, outputDir });
+    const result = await recorder.stop();
+    await inputController.key({ key: 'enter' });
+
+    expect(result.actions).toEqual([]);
+  });
+
+  it('should refuse a second recording and a stop without one', async () => {
+    await expect(recorder.stop()).rejects.toThrow('No recording is running');
+
+    await recorder.start({ fps: 5, outputDir });
+    await expect(recorder.start({ outputDir })).rejects.toThrow('A recording is already running');
+  });
+});
+
+describe('desktop_record_start / desktop_record_stop (MCP session)', () => {
+  let desktop: VirtualDesktop;
+  let client: Client;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    desktop = resetVirtualDesktop(scenario);
+    setActiveDriver('virtual');
+    outputDir = mkdtempSync(join(tmpdir(), 'codriver-rec-'));
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setActiveDriver(undefined);
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should record the actions of a session', async () => {
+    const started = await client.callTool({ name: 'desktop_record_start', arguments: { fps: 5, outputDir } });
+    expect(text(started)).toBe('Recording started at 5 fps. Call desktop_record_stop to save it.');
+
+    await client.callTool({ name: 'desktop_type', arguments: { selector: 'textfield "Name"', text: 'Ada' } });
+    await client.callTool({ name: 'desktop_click', arguments: { selector: 'button "OK"' } });
+    await client.callTool({ name: 'desktop_key', arguments: { key: 'tab' } });
+
+    const stopped = text(await client.callTool({ name: 'desktop_record_stop', arguments: {} }));
+    expect(stopped).toMatch(/^Recording saved: .*recording-.*\.gif \(\d+ frames, 200x150, \d+\.\ds\)\nAction log: .*\.json\n/);
+    // Typing into an element clicks it first
+    expect(stopped).toContain('Actions: 2 click, 1 type, 1 key');
+    expect(desktop.findElement('status')?.value).toBe('Done');
+  });
+
+  it('should report a stop without a recording as an error', async () => {
+    const result = await client.callTool({ name: 'desktop_record_stop', arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toBe('Error: No recording is running. Start one with desktop_record_start.');
+  });
+});
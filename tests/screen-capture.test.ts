@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock screenshot-desktop
 vi.mock('screenshot-desktop', () => {
@@ -7,7 +7,13 @@ vi.mock('screenshot-desktop', () => {
     'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==',
     'base64'
   );
-  return { default: vi.fn(async () => pngBuffer) };
+  const screenshot = Object.assign(vi.fn(async () => pngBuffer), {
+    listDisplays: vi.fn(async () => [
+      { id: 'HDMI-1', name: 'HDMI-1', width: 1920, height: 1080, offsetX: 0, offsetY: 0, primary: true },
+      { id: 'DP-2', name: 'DP-2', width: 1280, height: 1024, offsetX: 1920, offsetY: 0, primary: false },
+    ]),
+  });
+  return { default: screenshot };
 });
 
 // Mock sharp
@@ -29,8 +35,11 @@ vi.mock('sharp', () => ({
   default: vi.fn(() => mockSharpInstance),
 }));
 
+import screenshot from 'screenshot-desktop';
 import { ScreenCapture } from '../src/modules/screen-capture.js';
 
+const mockScreenshot = vi.mocked(screenshot);
+
 describe('ScreenCapture', () => {
   let capture: ScreenCapture;
 
@@ -71,6 +80,18 @@ describe('ScreenCapture', () => {
     });
   });
 
+  it('should clamp the region to the screen and report the captured area', async () => {
+    const result = await capture.capture({ region: [1800, -20, 200, 300] });
+
+    expect(mockSharpInstance.extract).toHaveBeenCalledWith({ left: 1800, top: 0, width: 120, height: 280 });
+    expect(result.region).toEqual([1800, 0, 120, 280]);
+    expect([result.width, result.height]).toEqual([120, 280]);
+  });
+
+  it('should reject a region entirely off screen', async () => {
+    await expect(capture.capture({ region: [0, 2000, 100, 100] })).rejects.toThrow('lies outside the 1920x1080 screen');
+  });
+
   it('should return base64 encoded data', async () => {
     const result = await capture.capture();
 
@@ -99,4 +120,50 @@ describe('ScreenCapture', () => {
     expect(mockSharpInstance.jpeg).not.toHaveBeenCalled();
     expect(result.mimeType).toBe('image/png');
   });
+
+  describe('Linux (X11)', () => {
+    beforeEach(() => {
+      vi.stubGlobal('process', { ...process, platform: 'linux' });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should expose xrandr outputs as numeric display ids', async () => {
+      const displays = await capture.listDisplays();
+
+      expect(displays).toMatchObject([
+        { id: 0, name: 'HDMI-1', bounds: [0, 0, 1920, 1080], scaleFactor: 1, primary: true },
+        { id: 1, name: 'DP-2', bounds: [1920, 0, 1280, 1024], scaleFactor: 1, primary: false },
+      ]);
+    });
+
+    it('should capture a display by index using its xrandr name', async () => {
+      await capture.capture({ screen: 1 });
+
+      expect(mockScreenshot).toHaveBeenCalledWith({ format: 'png', screen: 'DP-2' });
+    });
+
+    it('should capture the display containing a region given in global coordinates', async () => {
+      const result = await capture.capture({ region: [2000, 100, 200, 100] });
+
+      expect(mockScreenshot).toHaveBeenLastCalledWith({ format: 'png', screen: 'DP-2' });
+      expect(mockSharpInstance.extract).toHaveBeenCalledWith({ left: 80, top: 100, width: 200, height: 100 });
+      expect(result.region).toEqual([2000, 100, 200, 100]);
+      expect(result.screen).toBe(1);
+      expect(result.transform).toMatchObject({ originX: 2000, originY: 100 });
+    });
+
+    it('should report where a display capture sits in the global space', async () => {
+      const result = await capture.capture({ screen: 1 });
+
+      expect(result.region).toEqual([1920, 0, 1920, 1080]);
+      expect(capture.toScreenCoordinate([10, 20])).toEqual([1930, 20]);
+    });
+
+    it('should reject an unknown display index', async () => {
+      await expect(capture.capture({ screen: 5 })).rejects.toThrow('Display 5 not found');
+    });
+  });
 });
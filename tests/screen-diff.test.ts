@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import sharp from 'sharp';
+
+import { ScreenCapture } from '../src/modules/screen-capture.js';
+import { createVirtualDriver, registerDriver, resetVirtualDesktop, setActiveDriver } from '../src/drivers/index.js';
+import type { VirtualDesktop } from '../src/drivers/index.js';
+import type { ScreenFrame } from '../src/types/index.js';
+
+/** Solid grey frame with optional filled rectangles [x, y, w, h, value] */
+function frame(width: number, height: number, rects: Array<[number, number, number, number, number]> = []): ScreenFrame {
+  const pixels = Buffer.alloc(width * height * 4, 128);
+  for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255;
+  for (const [rx, ry, rw, rh, v] of rects) {
+    for (let y = ry; y < ry + rh; y++) {
+      for (let x = rx; x < rx + rw; x++) {
+        pixels.fill(v, (y * width + x) * 4, (y * width + x) * 4 + 3);
+      }
+    }
+  }
+  return { pixels, width, height };
+}
+
+describe('ScreenCapture diffing', () => {
+  let capture: ScreenCapture;
+
+  beforeEach(() => {
+    capture = new ScreenCapture();
+  });
+
+  it('should report no change for identical frames', () => {
+    const diff = capture.diffFrames(frame(64, 64), frame(64, 64));
+
+    expect(diff).toEqual({ ratio: 0, changedPixels: 0, totalPixels: 4096, regions: [] });
+  });
+
+  it('should compute the changed ratio and tight bounding boxes', () => {
+    const diff = capture.diffFrames(frame(200, 100), frame(200, 100, [[10, 20, 30, 10, 255], [150, 60, 5, 5, 0]]));
+
+    expect(diff.changedPixels).toBe(325);
+    expect(diff.ratio).toBeCloseTo(325 / 20000);
+    expect(diff.regions).toEqual([[10, 20, 30, 10], [150, 60, 5, 5]]);
+  });
+
+  it('should merge changes in neighbouring cells into one region', () => {
+    const diff = capture.diffFrames(frame(100, 100), frame(100, 100, [[5, 5, 2, 2, 0], [20, 20, 2, 2, 0]]));
+
+    expect(diff.regions).toEqual([[5, 5, 17, 17]]);
+  });
+
+  it('should ignore differences within the tolerance', () => {
+    const after = frame(32, 32, [[0, 0, 32, 32, 140]]);
+
+    expect(capture.diffFrames(frame(32, 32), after).changedPixels).toBe(0);
+    expect(capture.diffFrames(frame(32, 32), after, { tolerance: 4 }).changedPixels).toBe(1024);
+  });
+
+  it('should refuse frames of different sizes', () => {
+    expect(() => capture.diffFrames(frame(10, 10), frame(20, 10))).toThrow('different sizes');
+  });
+
+  it('should render a highlighted diff image', async () => {
+    const { diff, image } = await capture.renderDiff(frame(80, 60), frame(80, 60, [[10, 10, 20, 20, 128 + 100]]), { scale: 0.5 });
+
+    expect(diff.regions).toEqual([[10, 10, 20, 20]]);
+    expect([image.width, image.height]).toEqual([40, 30]);
+
+    const { data, info } = await sharp(Buffer.from(image.data, 'base64')).raw().toBuffer({ resolveWithObject: true });
+    // Changed area is tinted towards red
+    const o = (10 * 40 + 10) * info.channels;
+    expect(data[o]).toBeGreaterThan(data[o + 1]);
+  });
+});
+
+describe('ScreenCapture with the virtual driver', () => {
+  let capture: ScreenCapture;
+  let desktop: VirtualDesktop;
+
+  beforeEach(() => {
+    capture = new ScreenCapture();
+    desktop = resetVirtualDesktop({
+      width: 320,
+      height: 240,
+      displays: [{ bounds: [0, 0, 160, 240] }, { bounds: [160, 0, 160, 240] }],
+      windows: [{
+        title: 'App',
+        bounds: [20, 20, 200, 150],
+        elements: [{ id: 'opt', role: 'checkbox', name: 'Option', value: '0', bounds: [10, 40, 120, 20] }],
+      }],
+    });
+    setActiveDriver('virtual');
+  });
+
+  afterEach(() => {
+    setActiveDriver(undefined);
+  });
+
+  it('should diff against the previous capture', async () => {
+    await capture.capture();
+    desktop.findElement('opt')!.value = '1';
+
+    const before = await capture.previousFrame();
+    const after = await capture.captureFrame();
+    const diff = capture.diffFrames(before!, after);
+
+    // Only the checkbox (screen bounds 30,60 120x20) changed
+    expect(diff.regions).toHaveLength(1);
+    const [x, y, w, h] = diff.regions[0];
+    expect(x).toBeGreaterThanOrEqual(30);
+    expect(y).toBeGreaterThanOrEqual(60);
+    expect(x + w).toBeLessThanOrEqual(150);
+    expect(y + h).toBeLessThanOrEqual(80);
+  });
+
+  it('should crop a window on the second display from that display without native window capture', async () => {
+    // Like Windows: no window capture, and a capture without a screen covers only the first display
+    const driver = createVirtualDriver(desktop, 'virtual-no-window-capture');
+    const screen = driver.screen!;
+    registerDriver({ ...driver, screen: { ...screen, captureWindow: undefined, capture: (id) => screen.capture(id ?? 0) } });
+    setActiveDriver('virtual-no-window-capture');
+    desktop.findWindow('App')!.bounds = [180, 20, 120, 100];
+
+    const result = await capture.capture({ windowTitle: 'App' });
+
+    expect([result.width, result.height]).toEqual([120, 100]);
+    expect(result.transform).toMatchObject({ originX: 180, originY: 20 });
+  });
+
+  it('should not use a capture of another screen as baseline', async () => {
+    await capture.capture({ screen: 1 });
+
+    expect(await capture.previousFrame()).toBeNull();
+  });
+
+  it('should wait until the screen stops changing', async () => {
+    let moves = 0;
+    const timer = setInterval(() => {
+      if (moves++ < 3) desktop.findWindow('App')!.bounds[0] += 10;
+    }, 30);
+
+    try {
+      const result = await capture.waitUntilStable({ interval: 30, stableFor: 150, timeout: 5000 });
+
+      expect(result.stable).toBe(true);
+      expect(result.frames).toBeGreaterThan(3);
+    } finally {
+      clearInterval(timer);
+    }
+  });
+
+  it('should give up when the screen keeps changing', async () => {
+    const timer = setInterval(() => {
+      const bounds = desktop.findWindow('App')!.bounds;
+      bounds[0] = (bounds[0] + 7) % 100;
+    }, 10);
+
+    try {
+      const result = await capture.waitUntilStable({ interval: 40, stableFor: 1000, timeout: 200, threshold: 0 });
+
+      expect(result.stable).toBe(false);
+      expect(result.ratio).toBeGreaterThan(0);
+    } finally {
+      clearInterval(timer);
+    }
+  });
+});
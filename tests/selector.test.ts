@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+
+import { parseSelector, querySelector } from '../src/modules/selector.js';
+import type { UIElement } from '../src/types/index.js';
+
+const tree: UIElement[] = [
+  {
+    ref: 'ref_win1',
+    role: 'window',
+    name: 'Settings',
+    bounds: [0, 0, 600, 400],
+    children: [
+      {
+        ref: 'ref_form',
+        role: 'group',
+        name: 'Account',
+        bounds: [10, 30, 580, 200],
+        children: [
+          { ref: 'ref_lbl1', role: 'text', name: 'Username', bounds: [20, 40, 80, 20] },
+          { ref: 'ref_user', role: 'textfield', name: '', value: 'alice', bounds: [110, 40, 200, 24] },
+          { ref: 'ref_lbl2', role: 'text', name: 'Password', bounds: [20, 80, 80, 20] },
+          { ref: 'ref_pass', role: 'textfield', name: '', bounds: [110, 80, 200, 24] },
+          { ref: 'ref_remember', role: 'checkbox', name: 'Remember me', value: '1', bounds: [20, 120, 150, 20] },
+        ],
+      },
+      { ref: 'ref_save', role: 'button', name: 'Save', enabled: false, bounds: [400, 350, 80, 28] },
+      { ref: 'ref_cancel', role: 'button', name: 'Cancel', bounds: [500, 350, 80, 28] },
+      { ref: 'ref_hidden', role: 'button', name: 'Save as', bounds: [0, 0, 0, 0] },
+    ],
+  },
+  {
+    ref: 'ref_win2',
+    role: 'window',
+    name: 'Editor',
+    bounds: [700, 0, 600, 400],
+    children: [{ ref: 'ref_save2', role: 'button', name: 'Save', bounds: [710, 350, 80, 28] }],
+  },
+];
+
+const refs = (selector: string) => querySelector(tree, selector).map((el) => el.ref);
+
+describe('Selector', () => {
+  describe('matching', () => {
+    it('should match by role', () => {
+      expect(refs('textfield')).toEqual(['ref_user', 'ref_pass']);
+    });
+
+    it('should match exact, substring, prefix and suffix attributes', () => {
+      expect(refs('button[name="Save"]')).toEqual(['ref_save', 'ref_save2']);
+      expect(refs('[name*="ave"]')).toEqual(['ref_save', 'ref_hidden', 'ref_save2']);
+      expect(refs('[name^="Canc"]')).toEqual(['ref_cancel']);
+      expect(refs('[name$=" me"]')).toEqual(['ref_remember']);
+    });
+
+    it('should be case-sensitive unless the i flag is given', () => {
+      expect(refs('[name="save"]')).toEqual([]);
+      expect(refs('[name="save" i]')).toEqual(['ref_save', 'ref_save2']);
+    });
+
+    it('should match regular expressions', () => {
+      expect(refs('button[name=/^save$/i]')).toEqual(['ref_save', 'ref_save2']);
+      expect(refs('[name~="^(User|Pass)"]')).toEqual(['ref_lbl1', 'ref_lbl2']);
+    });
+
+    it('should match the quoted name shorthand case-insensitively', () => {
+      expect(refs('text "username"')).toEqual(['ref_lbl1']);
+    });
+
+    it('should support key=value terms and nth', () => {
+      expect(refs('role=textfield nth=2')).toEqual(['ref_pass']);
+      expect(refs('role=textfield nth=5')).toEqual([]);
+      expect(refs('textfield:nth(1)')).toEqual(['ref_user']);
+      expect(refs('button "Save":enabled:nth(2)')).toEqual(['ref_save2']);
+      expect(refs('role=textfield value=alice')).toEqual(['ref_user']);
+    });
+
+    it('should apply child and descendant combinators', () => {
+      expect(refs('window[name*="Settings"] > button[name="Save"]')).toEqual(['ref_save']);
+      expect(refs('window > textfield')).toEqual([]);
+      expect(refs('window textfield')).toEqual(['ref_user', 'ref_pass']);
+      expect(refs('window[name="Editor"] button')).toEqual(['ref_save2']);
+    });
+
+    it('should filter by state', () => {
+      expect(refs('button:enabled')).toEqual(['ref_cancel', 'ref_hidden', 'ref_save2']);
+      expect(refs('button:disabled')).toEqual(['ref_save']);
+      expect(refs('checkbox:checked')).toEqual(['ref_remember']);
+      expect(refs('checkbox:unchecked')).toEqual([]);
+      expect(refs('button:enabled:visible')).toEqual(['ref_cancel', 'ref_save2']);
+    });
+
+    it('should support :has and :not', () => {
+      expect(refs('group:has(checkbox)')).toEqual(['ref_form']);
+      expect(refs('window:has(textfield)')).toEqual(['ref_win1']);
+      expect(refs('button:not([name="Save"])')).toEqual(['ref_cancel', 'ref_hidden']);
+    });
+
+    it('should find elements near an anchor, closest first', () => {
+      expect(refs('textfield:near(text "Username")')).toEqual(['ref_user', 'ref_pass']);
+      expect(refs('textfield:near(text "Username", 15)')).toEqual(['ref_user']);
+      expect(refs('textfield:near(text "Password") nth=1')).toEqual(['ref_pass']);
+    });
+  });
+
+  describe('parsing', () => {
+    it('should record combinators and nth', () => {
+      const parsed = parseSelector('window > button "Save" nth=2');
+
+      expect(parsed.compounds.map((c) => c.combinator)).toEqual([null, '>']);
+      expect(parsed.nth).toBe(2);
+    });
+
+    it.each([
+      ['button[', 'expected a name'],
+      ['button[size=3]', 'unknown attribute "size"'],
+      ['button:hovered', 'unknown pseudo-class'],
+      ['window >', 'cannot end with ">"'],
+      ['nth=0', 'positive integer'],
+      ['button nth=1 text', 'nth must come at the end'],
+      ['[name~="("]', 'invalid regex'],
+      ['', 'empty selector'],
+    ])('should reject %j', (selector, message) => {
+      expect(() => parseSelector(selector)).toThrow(message);
+    });
+  });
+});
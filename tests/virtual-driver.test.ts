@@ -0,0 +1,1028 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import sharp from 'sharp';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import {
+  VirtualDesktop,
+  createVirtualDriver,
+  registerDriver,
+  renderDesktop,
+  resetVirtualDesktop,
+  setActiveDriver,
+} from '../src/drivers/index.js';
+import type { VirtualScenario } from '../src/drivers/index.js';
+import { createServer } from '../src/server.js';
+import { ScreenCapture } from '../src/modules/screen-capture.js';
+import { WindowManager } from '../src/modules/window-manager.js';
+
+const scenario: VirtualScenario = {
+  width: 800,
+  height: 600,
+  windows: [
+    {
+      title: 'Notes',
+      processName: 'notes',
+      bounds: [400, 300, 300, 200],
+      elements: [{ id: 'notes-body', role: 'textarea', name: 'Body', bounds: [10, 34, 280, 150] }],
+    },
+    {
+      title: 'Login',
+      processName: 'login-app',
+      bounds: [50, 50, 320, 200],
+      elements: [
+        { id: 'user', role: 'textfield', name: 'Username', bounds: [10, 40, 200, 24] },
+        { id: 'remember', role: 'checkbox', name: 'Remember me', value: '0', bounds: [10, 76, 150, 20] },
+        {
+          id: 'submit',
+          role: 'button',
+          name: 'Sign in',
+          bounds: [10, 110, 90, 28],
+          onClick: [{ type: 'setValue', target: 'status', value: 'Signed in' }],
+        },
+        { id: 'status', role: 'text', name: 'Status', value: 'Idle', bounds: [10, 150, 200, 20] },
+      ],
+    },
+  ],
+  apps: {
+    Calculator: { title: 'Calculator', bounds: [20, 20, 200, 260] },
+  },
+};
+
+function text(result: Awaited<ReturnType<Client['callTool']>>): string {
+  const content = result.content as Array<{ type: string; text?: string }>;
+  return content.filter((c) => c.type === 'text').map((c) => c.text).join('\n');
+}
+
+describe('VirtualDesktop', () => {
+  let desktop: VirtualDesktop;
+
+  beforeEach(() => {
+    desktop = new VirtualDesktop(scenario);
+  });
+
+  it('should treat the last window as focused', () => {
+    expect(desktop.listWindows().find((w) => w.isFocused)?.title).toBe('Login');
+  });
+
+  it('should toggle checkboxes and run click actions', () => {
+    desktop.click(70, 136, 'left', false);
+    desktop.click(80, 174, 'left', false);
+
+    expect(desktop.findElement('remember')?.value).toBe('1');
+    expect(desktop.findElement('status')?.value).toBe('Signed in');
+  });
+
+  it('should type into the focused text field and handle backspace', () => {
+    desktop.click(100, 100, 'left', false);
+    desktop.type('alicex');
+    desktop.key('backspace', 1);
+
+    expect(desktop.findElement('user')?.value).toBe('alice');
+    expect(desktop.events.map((e) => e.type)).toEqual(['click', 'type', 'key']);
+  });
+
+  it('should raise a window when clicking into it', () => {
+    desktop.click(500, 400, 'left', false);
+
+    expect(desktop.focusedWindow?.title).toBe('Notes');
+  });
+
+  it('should move a window by dragging its title bar', () => {
+    desktop.drag([100, 60], [150, 80]);
+
+    expect(desktop.findWindow('Login')?.bounds.slice(0, 2)).toEqual([100, 70]);
+  });
+
+  it('should launch apps from templates and quit them', () => {
+    desktop.launch('Calculator');
+
+    expect(desktop.isRunning('Calculator')).toBe(true);
+    expect(desktop.quit('Calculator')).toBe(true);
+    expect(desktop.isRunning('Calculator')).toBe(false);
+  });
+
+  it('should emit raw trees in screen coordinates', () => {
+    const [win] = desktop.readTree('login', 5);
+
+    expect(win.role).toBe('frame');
+    expect(win.children[0]).toMatchObject({ role: 'text', title: 'Username', position: [60, 90], size: [200, 24] });
+  });
+
+  it('should render a framebuffer of the desktop size', async () => {
+    const png = await renderDesktop(desktop);
+    const meta = await sharp(png).metadata();
+
+    expect(meta.format).toBe('png');
+    expect([meta.width, meta.height]).toEqual([800, 600]);
+  });
+});
+
+describe('Window capture (virtual driver)', () => {
+  let desktop: VirtualDesktop;
+
+  beforeEach(() => {
+    desktop = resetVirtualDesktop(scenario);
+    setActiveDriver('virtual');
+  });
+
+  afterEach(() => {
+    setActiveDriver(undefined);
+  });
+
+  it('should resolve windows by title, then process name, preferring exact titles', async () => {
+    const windows = new WindowManager();
+    desktop.openWindow({ title: 'Notes - Settings', processName: 'notes', bounds: [0, 0, 100, 100] });
+
+    expect((await windows.findWindow('notes'))?.title).toBe('Notes');
+    expect((await windows.findWindow('settings'))?.title).toBe('Notes - Settings');
+    expect((await windows.findWindow('login-app'))?.title).toBe('Login');
+    expect(await windows.findWindow('missing')).toBeUndefined();
+  });
+
+  it('should capture a window natively and report its offset', async () => {
+    const result = await new ScreenCapture().capture({ windowTitle: 'Notes' });
+
+    expect([result.width, result.height]).toEqual([300, 200]);
+    expect(result.region).toEqual([400, 300, 300, 200]);
+    expect(result.window?.title).toBe('Notes');
+  });
+
+  it('should crop the display capture when the driver has no native window capture', async () => {
+    const driver = createVirtualDriver(desktop, 'virtual-no-window-capture');
+    delete driver.screen!.captureWindow;
+    registerDriver(driver);
+    setActiveDriver('virtual-no-window-capture');
+
+    // Notes (400,300 300x200) is partly off the 800x600 screen after moving it
+    desktop.findWindow('Notes')!.bounds = [600, 500, 300, 200];
+    const result = await new ScreenCapture().capture({ windowTitle: 'Notes', region: [10, 10, 50, 50] });
+
+    expect(result.region).toEqual([610, 510, 50, 50]);
+    const full = await new ScreenCapture().capture({ windowTitle: 'Notes' });
+    expect(full.region).toEqual([600, 500, 200, 100]);
+  });
+
+  it('should fail for an unknown window', async () => {
+    await expect(new ScreenCapture().capture({ windowTitle: 'Nope' })).rejects.toThrow('not found');
+  });
+});
+
+describe('Multi-monitor coordinates (virtual driver)', () => {
+  let desktop: VirtualDesktop;
+  let client: Client;
+
+  beforeEach(async () => {
+    desktop = resetVirtualDesktop({
+      width: 1600,
+      height: 600,
+      displays: [
+        { name: 'Left', bounds: [0, 0, 800, 600], workArea: [0, 25, 800, 575] },
+        { name: 'Right', bounds: [800, 0, 800, 600] },
+      ],
+      windows: [
+        {
+          title: 'Inspector',
+          bounds: [900, 100, 300, 200],
+          elements: [
+            {
+              id: 'apply',
+              role: 'button',
+              name: 'Apply',
+              bounds: [10, 40, 90, 28],
+              onClick: [{ type: 'setValue', target: 'state', value: 'Applied' }],
+            },
+            { id: 'state', role: 'text', name: 'State', value: 'Pending', bounds: [10, 80, 200, 20] },
+          ],
+        },
+      ],
+    });
+    setActiveDriver('virtual');
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setActiveDriver(undefined);
+  });
+
+  it('should list display geometry', async () => {
+    const result = text(await client.callTool({ name: 'desktop_displays', arguments: {} }));
+
+    expect(result).toBe(
+      'Displays:\n' +
+        '[0] Left (primary) - bounds (0,0) 800x600, work area (0,25) 800x575, scale 1\n' +
+        '[1] Right - bounds (800,0) 800x600, work area (800,0) 800x600, scale 1'
+    );
+  });
+
+  it('should report where a display screenshot sits in the global space', async () => {
+    const result = await client.callTool({ name: 'desktop_screenshot', arguments: { screen: 1 } });
+    const [image] = result.content as Array<{ type: string; data: string }>;
+
+    expect((await sharp(Buffer.from(image.data, 'base64')).metadata()).width).toBe(800);
+    expect(text(result)).toMatch(
+      /^Screenshot: 800x600px of display 1 at \(800,0\) 800x600\nCapture cap_\d+: screen coordinates = \(800,0\) \+ image coordinates\.$/
+    );
+  });
+
+  it('should click an element on the second display by ref and by screenshot coordinates', async () => {
+    const found = text(await client.callTool({ name: 'desktop_find', arguments: { query: 'Apply' } }));
+    expect(found).toMatch(/button "Apply" .*at \(910,140\) 90x28/);
+
+    await client.callTool({ name: 'desktop_screenshot', arguments: { screen: 1 } });
+    // Apply: window (900,100) + (10,40) 90x28 -> display 1 image (110..200, 140..168)
+    await client.callTool({ name: 'desktop_click', arguments: { x: 155, y: 154, coordinateSpace: 'screenshot' } });
+
+    expect(desktop.events.at(-1)).toMatchObject({ type: 'click', x: 955, y: 154, target: 'apply' });
+    expect(desktop.findElement('state')?.value).toBe('Applied');
+  });
+
+  it('should diff a display region in global coordinates', async () => {
+    await client.callTool({ name: 'desktop_screenshot', arguments: { screen: 1 } });
+    desktop.findWindow('Inspector')!.bounds = [1000, 100, 300, 200];
+
+    const result = text(await client.callTool({
+      name: 'desktop_screenshot_diff',
+      arguments: { screen: 1, x: 850, y: 50, width: 500, height: 300 },
+    }));
+
+    // The window moved from x=900 to x=1000: changes start at its old left edge (plus antialiasing)
+    const [, rx] = result.match(/region\(s\):\n  \((\d+),(\d+)\)/)!;
+    expect(Number(rx)).toBeGreaterThanOrEqual(895);
+    expect(Number(rx)).toBeLessThanOrEqual(905);
+  });
+});
+
+describe('Capture transforms (HiDPI virtual driver)', () => {
+  let desktop: VirtualDesktop;
+  let client: Client;
+
+  beforeEach(async () => {
+    desktop = resetVirtualDesktop({ ...scenario, pixelRatio: 2 });
+    setActiveDriver('virtual');
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setActiveDriver(undefined);
+  });
+
+  it('should fold the pixel ratio and scale into the transform', async () => {
+    const capture = new ScreenCapture();
+    const full = await capture.capture({ scale: 0.25 });
+
+    expect([full.width, full.height]).toEqual([400, 300]);
+    expect(full.transform).toEqual({ originX: 0, originY: 0, scaleX: 0.5, scaleY: 0.5 });
+    expect(capture.toScreenCoordinate([100, 100], full.captureId)).toEqual([200, 200]);
+
+    const cropped = await capture.capture({ region: [50, 50, 320, 200] });
+    expect([cropped.width, cropped.height]).toEqual([640, 400]);
+    expect(cropped.region).toEqual([50, 50, 320, 200]);
+    expect(capture.toScreenCoordinate([40, 240])).toEqual([70, 170]);
+  });
+
+  it('should map native window captures by their measured pixel ratio', async () => {
+    const result = await new ScreenCapture().capture({ windowTitle: 'Notes' });
+
+    expect([result.width, result.height]).toEqual([600, 400]);
+    expect(result.transform).toEqual({ originX: 400, originY: 300, scaleX: 2, scaleY: 2 });
+  });
+
+  it('should reject unknown capture ids and mapping before any screenshot', () => {
+    const capture = new ScreenCapture();
+
+    expect(() => capture.toScreenCoordinate([0, 0])).toThrow('No screenshot taken yet');
+    expect(() => capture.toScreenCoordinate([0, 0], 'cap_0')).toThrow('Unknown capture id "cap_0"');
+  });
+
+  it('should click, scroll and drag at screenshot coordinates', async () => {
+    const shot = text(await client.callTool({
+      name: 'desktop_screenshot',
+      arguments: { windowTitle: 'Login', scale: 0.5 },
+    }));
+    const captureId = shot.match(/Capture (cap_\d+)/)![1];
+    expect(shot).toContain(`Capture ${captureId}: screen coordinates = (50,50) + image coordinates.`);
+
+    // Sign in button: window (50,50) + (10,110) 90x28 -> image (20..110, 120..148)
+    const click = await client.callTool({
+      name: 'desktop_click',
+      arguments: { x: 40, y: 130, coordinateSpace: 'screenshot', captureId },
+    });
+    expect(text(click)).toContain('(90, 180)');
+    expect(desktop.events.at(-1)).toMatchObject({ type: 'click', x: 90, y: 180, target: 'submit' });
+    expect(desktop.findElement('status')?.value).toBe('Signed in');
+
+    await client.callTool({
+      name: 'desktop_scroll',
+      arguments: { x: 0, y: 0, direction: 'down', coordinateSpace: 'screenshot' },
+    });
+    expect(desktop.pointer).toEqual([50, 50]);
+
+    const drag = await client.callTool({
+      name: 'desktop_drag',
+      arguments: { startX: 10, startY: 10, endX: 110, endY: 60, coordinateSpace: 'screenshot', captureId },
+    });
+    expect(text(drag)).toBe('Dragged from (60,60) to (160,110)');
+  });
+
+  it('should report an unknown capture id as an error', async () => {
+    const result = await client.callTool({
+      name: 'desktop_click',
+      arguments: { x: 1, y: 1, coordinateSpace: 'screenshot', captureId: 'cap_missing' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('Unknown capture id "cap_missing"');
+  });
+});
+
+describe('Virtual driver end-to-end (MCP session)', () => {
+  let desktop: VirtualDesktop;
+  let client: Client;
+
+  beforeEach(async () => {
+    desktop = resetVirtualDesktop(scenario);
+    setActiveDriver('virtual');
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setActiveDriver(undefined);
+  });
+
+  it('should fill a form through read_ui, click and type', async () => {
+    const tree = text(await client.callTool({ name: 'desktop_read_ui', arguments: {} }));
+    expect(tree).toContain('textfield "Username"');
+
+    const found = text(await client.callTool({ name: 'desktop_find', arguments: { query: 'Username' } }));
+    const ref = found.match(/\[(ref_\w+)\]/)![1];
+
+    await client.callTool({ name: 'desktop_type', arguments: { ref, text: 'alice' } });
+    await client.callTool({ name: 'desktop_key', arguments: { key: 'enter' } });
+
+    expect(desktop.findElement('user')?.value).toBe('alice');
+    expect(desktop.events.map((e) => e.type)).toEqual(['click', 'type', 'key']);
+  });
+
+  it('should report checked, focused and offscreen states in the tree', async () => {
+    desktop.findWindow('Login')!.elements.push({ id: 'hidden', role: 'button', name: 'Hidden', bounds: [10, 400, 90, 28], children: [] });
+    await client.callTool({ name: 'desktop_click', arguments: { selector: 'checkbox' } });
+    await client.callTool({ name: 'desktop_type', arguments: { selector: 'textfield "Username"', text: 'a' } });
+
+    const tree = text(await client.callTool({ name: 'desktop_read_ui', arguments: { windowTitle: 'Login' } }));
+
+    expect(tree).toMatch(/checkbox "Remember me" value="1" \(checked\) id="remember"/);
+    expect(tree).toMatch(/textfield "Username" value="a" \(focused\) id="user"/);
+    expect(tree).toMatch(/button "Hidden" \(offscreen\)/);
+    const found = text(await client.callTool({ name: 'desktop_find', arguments: { query: 'checked' } }));
+    expect(found).toContain('Found 1 element(s)');
+  });
+
+  it('should click a button by ref and observe the state change', async () => {
+    const found = text(await client.callTool({ name: 'desktop_find', arguments: { query: 'Sign in' } }));
+    const ref = found.match(/\[(ref_\w+)\]/)![1];
+
+    await client.callTool({ name: 'desktop_click', arguments: { ref } });
+
+    const status = text(await client.callTool({ name: 'desktop_find', arguments: { query: 'Status' } }));
+    expect(status).toContain('value="Signed in"');
+  });
+
+  it('should keep refs across re-reads and report them gone after the window closes', async () => {
+    const tree = text(await client.callTool({ name: 'desktop_read_ui', arguments: { windowTitle: 'Login' } }));
+    const ref = tree.match(/\[(ref_\w+)\] button "Sign in"/)![1];
+
+    const found = text(await client.callTool({ name: 'desktop_find', arguments: { query: 'Sign in' } }));
+    expect(found).toContain(`[${ref}]`);
+
+    desktop.closeWindow(desktop.findWindow('Login')!);
+    await client.callTool({ name: 'desktop_read_ui', arguments: { windowTitle: 'Login' } });
+    const result = await client.callTool({ name: 'desktop_click', arguments: { ref } });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain(`Element "${ref}" is gone`);
+  });
+
+  it('should click and type by selector', async () => {
+    await client.callTool({
+      name: 'desktop_type',
+      arguments: { selector: 'textfield:near(text "Status", 100) nth=1', text: 'x' },
+    });
+    await client.callTool({ name: 'desktop_type', arguments: { selector: 'textfield[name="Username"]', text: 'bob' } });
+    await client.callTool({ name: 'desktop_click', arguments: { selector: 'window "Login" > button "Sign in":enabled' } });
+
+    expect(desktop.findElement('user')?.value).toBe('xbob');
+    expect(desktop.findElement('status')?.value).toBe('Signed in');
+
+    const ambiguous = await client.callTool({ name: 'desktop_click', arguments: { selector: '*' } });
+    expect(ambiguous.isError).toBe(true);
+    expect(text(ambiguous)).toContain('Refine it or pick one with nth=N');
+  });
+
+  it('should find elements by selector', async () => {
+    const found = text(await client.callTool({ name: 'desktop_find', arguments: { selector: 'checkbox:unchecked' } }));
+
+    expect(found).toContain('checkbox "Remember me"');
+    expect(found).toMatch(/^Found 1 element/);
+  });
+
+  it('should wait for a condition with progress notifications', async () => {
+    setTimeout(() => desktop.findElement('status')!.value = 'Ready', 150);
+    const progress: number[] = [];
+
+    const result = await client.callTool(
+      {
+        name: 'desktop_wait_for',
+        arguments: { condition: 'value_equals', selector: 'text "Status"', value: 'Ready', interval: 50, timeout: 5000 },
+      },
+      undefined,
+      { onprogress: (p) => { progress.push(p.progress); } },
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(text(result)).toMatch(/^Condition met after \d+ms/);
+    expect(progress.length).toBeGreaterThan(0);
+  });
+
+  it('should report a timeout from desktop_wait_for as an error', async () => {
+    const result = await client.callTool({
+      name: 'desktop_wait_for',
+      arguments: { condition: 'window_appears', windowTitle: 'Nope', timeout: 100, interval: 50 },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('Timed out after');
+  });
+
+  it('should crop a screenshot to a ref with padding', async () => {
+    const found = text(await client.callTool({ name: 'desktop_find', arguments: { query: 'Sign in' } }));
+    const ref = found.match(/\[(ref_\w+)\]/)![1];
+
+    const result = await client.callTool({ name: 'desktop_screenshot', arguments: { ref, padding: 5 } });
+    const [image] = result.content as Array<{ type: string; data: string }>;
+    const meta = await sharp(Buffer.from(image.data, 'base64')).metadata();
+
+    // Sign in button: window (50,50) + (10,110), 90x28
+    expect([meta.width, meta.height]).toEqual([100, 38]);
+    expect(text(result)).toMatch(
+      /^Screenshot: 100x38px of region \(55,155\) 100x38\nCapture cap_\d+: screen coordinates = \(55,155\) \+ image coordinates\.$/
+    );
+  });
+
+  it('should capture a window and report how to map coordinates back', async () => {
+    const result = await client.callTool({ name: 'desktop_screenshot', arguments: { windowTitle: 'Login', scale: 0.5 } });
+
+    expect(text(result)).toMatch(
+      /^Screenshot: 160x100px of window "Login" at \(50,50\)\nCapture cap_\d+: screen coordinates = \(50,50\) \+ image coordinates \/ 0\.5\.$/
+    );
+  });
+
+  it('should number interactive elements with a legend of refs', async () => {
+    const result = await client.callTool({ name: 'desktop_screenshot', arguments: { windowTitle: 'Login', marks: 'elements' } });
+    const legend = text(result).split('Marks (use the ref to click or type):\n')[1].split('\n');
+
+    // The status label is not interactive
+    expect(legend).toHaveLength(3);
+    expect(legend[0]).toMatch(/^\[1\] ref_\w+ textfield "Username"$/);
+    expect(legend[1]).toMatch(/^\[2\] ref_\w+ checkbox "Remember me" value="0"$/);
+    expect(legend[2]).toMatch(/^\[3\] ref_\w+ button "Sign in"$/);
+
+    const ref = legend[2].split(' ')[1];
+    await client.callTool({ name: 'desktop_click', arguments: { ref } });
+    expect(desktop.findElement('status')?.value).toBe('Signed in');
+  });
+
+  it('should draw the mark boxes onto the image', async () => {
+    const plain = await client.callTool({ name: 'desktop_screenshot', arguments: { windowTitle: 'Login', scale: 0.5 } });
+    const marked = await client.callTool({
+      name: 'desktop_screenshot',
+      arguments: { windowTitle: 'Login', scale: 0.5, marks: 'elements' },
+    });
+    const pixels = async (result: typeof plain) => {
+      const [image] = result.content as Array<{ type: string; data: string }>;
+      return sharp(Buffer.from(image.data, 'base64')).raw().toBuffer({ resolveWithObject: true });
+    };
+    const before = await pixels(plain);
+    const after = await pixels(marked);
+
+    // Left edge of the Sign in box: window-relative (10,110) at scale 0.5
+    const at = ({ data, info }: typeof before, x: number, y: number) =>
+      Array.from(data.subarray((y * info.width + x) * info.channels, (y * info.width + x) * info.channels + 3));
+    expect([after.info.width, after.info.height]).toEqual([160, 100]);
+    expect(at(after, 5, 62)).not.toEqual(at(before, 5, 62));
+    expect(at(after, 150, 90)).toEqual(at(before, 150, 90));
+  });
+
+  it('should only mark elements inside the captured area', async () => {
+    const result = await client.callTool({ name: 'desktop_screenshot', arguments: { region: [0, 150, 400, 60], marks: 'elements' } });
+
+    expect(text(result)).toMatch(/\nMarks \(use the ref to click or type\):\n\[1\] ref_\w+ button "Sign in"$/);
+
+    const empty = await client.callTool({ name: 'desktop_screenshot', arguments: { region: [700, 0, 100, 100], marks: 'elements' } });
+    expect(text(empty)).toContain('\nMarks: no interactive elements in the captured area.');
+  });
+
+  it('should crop a screenshot to a region', async () => {
+    const result = await client.callTool({ name: 'desktop_screenshot', arguments: { region: [700, 500, 200, 200] } });
+
+    expect(text(result)).toContain('Screenshot: 100x100px of region (700,500) 100x100\n');
+  });
+
+  it('should highlight what changed since the previous screenshot', async () => {
+    await client.callTool({ name: 'desktop_screenshot', arguments: {} });
+    await client.callTool({ name: 'desktop_click', arguments: { selector: 'checkbox' } });
+
+    const result = await client.callTool({ name: 'desktop_screenshot_diff', arguments: {} });
+    const [image] = result.content as Array<{ type: string }>;
+
+    expect(image.type).toBe('image');
+    expect(text(result)).toMatch(/pixels changed .* in \d+ region\(s\):\n  \(\d+,\d+\) \d+x\d+/);
+  });
+
+  it('should report a stable screen', async () => {
+    const result = await client.callTool({
+      name: 'desktop_wait_stable',
+      arguments: { interval: 50, stableFor: 100, timeout: 2000 },
+    });
+
+    expect(text(result)).toMatch(/^Screen stable after \d+ms/);
+  });
+
+  it('should list and focus windows', async () => {
+    await client.callTool({ name: 'desktop_windows', arguments: { action: 'focus', title: 'Notes' } });
+    const list = text(await client.callTool({ name: 'desktop_windows', arguments: { action: 'list' } }));
+
+    expect(list).toContain('[*] Notes (notes)');
+  });
+
+  it('should return a rendered screenshot', async () => {
+    const result = await client.callTool({ name: 'desktop_screenshot', arguments: { scale: 0.5 } });
+    const [image] = result.content as Array<{ type: string; data: string }>;
+
+    expect(image.type).toBe('image');
+    expect((await sharp(Buffer.from(image.data, 'base64')).metadata()).width).toBe(400);
+  });
+});
+
+describe('desktop_batch (MCP session)', () => {
+  let desktop: VirtualDesktop;
+  let client: Client;
+
+  beforeEach(async () => {
+    desktop = resetVirtualDesktop(scenario);
+    setActiveDriver('virtual');
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setActiveDriver(undefined);
+  });
+
+  it('should run actions in order and report each one', async () => {
+    const result = await client.callTool({
+      name: 'desktop_batch',
+      arguments: {
+        actions: [
+          { action: 'type', selector: 'textfield "Username"', text: 'alice' },
+          { action: 'key', key: 'tab' },
+          { action: 'wait', ms: 10 },
+          { action: 'click', selector: 'button "Sign in"' },
+        ],
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    const lines = text(result).split('\n');
+    expect(lines[0]).toBe('Batch: 4 action(s) completed.');
+    expect(lines[1]).toMatch(/^1\. type: Clicked ref_\w+ and typed: "alice"/);
+    expect(lines.slice(2)).toEqual([
+      '2. key: Pressed: tab',
+      '3. wait: 10ms',
+      expect.stringMatching(/^4\. click: Clicked /),
+    ]);
+    expect(desktop.findElement('user')?.value).toBe('alice');
+    expect(desktop.findElement('status')?.value).toBe('Signed in');
+    expect(desktop.events.map((e) => e.type)).toEqual(['click', 'type', 'key', 'click']);
+  });
+
+  it('should stop at the first failing action', async () => {
+    const result = await client.callTool({
+      name: 'desktop_batch',
+      arguments: {
+        actions: [
+          { action: 'key', key: 'a' },
+          { action: 'click', selector: 'button "Nope"' },
+          { action: 'key', key: 'b' },
+        ],
+      },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toBe(
+      'Batch: 1 of 3 action(s) failed.\n' +
+      '1. key: Pressed: a\n' +
+      '2. click: Error: No element matches selector "button "Nope"".\n' +
+      '3. key: skipped'
+    );
+    expect(desktop.events.map((e) => e.type)).toEqual(['key']);
+  });
+
+  it('should continue after a failure without stopOnError', async () => {
+    const result = await client.callTool({
+      name: 'desktop_batch',
+      arguments: {
+        actions: [{ action: 'click', ref: 'ref_00000000' }, { action: 'key', key: 'b' }],
+        stopOnError: false,
+      },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('\n2. key: Pressed: b');
+  });
+
+  it('should return screenshot images and a final screenshot', async () => {
+    const result = await client.callTool({
+      name: 'desktop_batch',
+      arguments: {
+        actions: [
+          { action: 'screenshot', windowTitle: 'Login', scale: 0.5 },
+          { action: 'click', selector: 'checkbox', delay: 20 },
+        ],
+        screenshot: true,
+        scale: 0.25,
+      },
+    });
+
+    const images = (result.content as Array<{ type: string; data?: string }>).filter((c) => c.type === 'image');
+    expect(images).toHaveLength(2);
+    expect((await sharp(Buffer.from(images[0].data!, 'base64')).metadata()).width).toBe(160);
+    expect((await sharp(Buffer.from(images[1].data!, 'base64')).metadata()).width).toBe(200);
+    expect(text(result)).toMatch(/\nFinal screenshot: 200x150px \(screen coordinates = \(0,0\) \+ image coordinates \/ 0\.25\)$/);
+    expect(desktop.findElement('remember')?.value).toBe('1');
+  });
+
+  it('should reject unknown actions', async () => {
+    const result = await client.callTool({
+      name: 'desktop_batch',
+      arguments: { actions: [{ action: 'teleport' }] },
+    });
+
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe('desktop_act (MCP session)', () => {
+  const actScenario: VirtualScenario = {
+    width: 800,
+    height: 600,
+    windows: [
+      {
+        title: 'Login',
+        bounds: [50, 50, 320, 200],
+        elements: [
+          {
+            id: 'user',
+            role: 'textfield',
+            name: 'Username',
+            bounds: [10, 40, 200, 24],
+            onSubmit: [{ type: 'setValue', target: 'status', value: 'Submitted' }],
+          },
+          {
+            id: 'submit',
+            role: 'button',
+            name: 'Sign in',
+            bounds: [10, 110, 90, 28],
+            onClick: [{ type: 'setValue', target: 'status', value: 'Signed in' }],
+          },
+          { id: 'help', role: 'link', name: 'Help', actions: [], bounds: [220, 40, 60, 20] },
+          { id: 'status', role: 'text', name: 'Status', value: 'Idle', bounds: [10, 150, 200, 20] },
+        ],
+      },
+      // Covers the Sign in button
+      { title: 'Popup', bounds: [40, 140, 200, 80] },
+    ],
+  };
+  let desktop: VirtualDesktop;
+  let client: Client;
+
+  beforeEach(async () => {
+    desktop = resetVirtualDesktop(actScenario);
+    setActiveDriver('virtual');
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setActiveDriver(undefined);
+  });
+
+  it('should invoke an occluded button without moving the mouse', async () => {
+    const result = await client.callTool({
+      name: 'desktop_act',
+      arguments: { selector: 'button[name="Sign in"]', windowTitle: 'Login' },
+    });
+
+    expect(text(result)).toMatch(/^Performed native action "click" on ref_\w+ \(button "Sign in"\)$/);
+    expect(desktop.findElement('status')?.value).toBe('Signed in');
+    expect(desktop.events).toEqual([{ type: 'action', action: 'click', target: 'submit' }]);
+    expect(desktop.focusedWindow?.title).toBe('Popup');
+  });
+
+  it('should run a named action and list the available ones for an unknown name', async () => {
+    const tree = text(await client.callTool({ name: 'desktop_read_ui', arguments: { windowTitle: 'Login' } }));
+    const ref = tree.match(/\[(ref_\w+)\] textfield "Username"/)![1];
+
+    const result = await client.callTool({ name: 'desktop_act', arguments: { ref, action: 'Activate' } });
+    expect(text(result)).toContain('Performed native action "activate"');
+    expect(desktop.findElement('status')?.value).toBe('Submitted');
+
+    const unknown = await client.callTool({ name: 'desktop_act', arguments: { ref, action: 'toggle' } });
+    expect(unknown.isError).toBe(true);
+    expect(text(unknown)).toContain('Action "toggle" is not available. The element exposes: activate.');
+  });
+
+  it('should fall back to a click when the element exposes no action', async () => {
+    const result = await client.callTool({
+      name: 'desktop_act',
+      arguments: { selector: 'link[name="Help"]', windowTitle: 'Login' },
+    });
+
+    expect(text(result)).toMatch(/link "Help"\) exposes no accessibility action: fell back to a click at \(300, 100\)$/);
+    expect(desktop.events[0]).toMatchObject({ type: 'click', x: 300, y: 100, target: 'help' });
+  });
+
+  it('should report a ref whose window changed since the read', async () => {
+    const tree = text(await client.callTool({ name: 'desktop_read_ui', arguments: { windowTitle: 'Login' } }));
+    const ref = tree.match(/\[(ref_\w+)\] button "Sign in"/)![1];
+    desktop.findWindow('Login')!.elements.splice(1, 1);
+
+    const result = await client.callTool({ name: 'desktop_act', arguments: { ref } });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('the window changed since it was read');
+  });
+});
+
+describe('desktop_set_value (MCP session)', () => {
+  const formScenario: VirtualScenario = {
+    width: 800,
+    height: 600,
+    windows: [
+      {
+        title: 'Settings',
+        bounds: [50, 50, 400, 240],
+        elements: [
+          { id: 'name', role: 'textfield', name: 'Name', value: 'old', bounds: [10, 40, 200, 24] },
+          { id: 'volume', role: 'slider', name: 'Volume', value: '20', range: [0, 100], bounds: [10, 80, 200, 20] },
+          { id: 'copies', role: 'spinner', name: 'Copies', value: '1', bounds: [10, 110, 80, 24] },
+          { id: 'locked', role: 'textfield', name: 'Locked', enabled: false, bounds: [10, 140, 200, 24] },
+          { id: 'caption', role: 'text', name: 'Caption', bounds: [10, 180, 200, 20] },
+        ],
+      },
+    ],
+  };
+  let desktop: VirtualDesktop;
+  let client: Client;
+
+  beforeEach(async () => {
+    desktop = resetVirtualDesktop(formScenario);
+    setActiveDriver('virtual');
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setActiveDriver(undefined);
+  });
+
+  it('should replace a text field value without clicking or typing', async () => {
+    const result = await client.callTool({
+      name: 'desktop_set_value',
+      arguments: { selector: 'textfield[name="Name"]', value: 'Grüße 日本' },
+    });
+
+    expect(text(result)).toMatch(/^Set ref_\w+ \(textfield "Name"\) to "Grüße 日本" \(verified: value="Grüße 日本"\)$/);
+    expect(desktop.findElement('name')?.value).toBe('Grüße 日本');
+    expect(desktop.events.map((e) => e.type)).toEqual(['setValue']);
+
+    const found = text(await client.callTool({ name: 'desktop_find', arguments: { query: 'Name' } }));
+    expect(found).toContain('value="Grüße 日本"');
+  });
+
+  it('should set sliders and spinners to numbers', async () => {
+    const slider = await client.callTool({ name: 'desktop_set_value', arguments: { selector: 'slider', value: '75' } });
+    const spinner = await client.callTool({ name: 'desktop_set_value', arguments: { selector: 'spinner', value: '3.0' } });
+
+    expect(text(slider)).toContain('verified: value="75"');
+    expect(text(spinner)).toContain('verified: value="3"');
+    expect(desktop.findElement('copies')?.value).toBe('3');
+
+    const notNumber = await client.callTool({ name: 'desktop_set_value', arguments: { selector: 'slider', value: 'loud' } });
+    expect(notNumber.isError).toBe(true);
+    expect(text(notNumber)).toContain('The element takes a number, got "loud".');
+  });
+
+  it('should report a value that reads back differently', async () => {
+    const result = await client.callTool({ name: 'desktop_set_value', arguments: { selector: 'slider', value: '150' } });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('to "150" but it reads back as "100"');
+    expect(desktop.findElement('volume')?.value).toBe('100');
+  });
+
+  it('should reject disabled elements and elements without a value', async () => {
+    const disabled = await client.callTool({
+      name: 'desktop_set_value',
+      arguments: { selector: 'textfield[name="Locked"]', value: 'x' },
+    });
+    const label = await client.callTool({ name: 'desktop_set_value', arguments: { selector: 'text "Caption"', value: 'x' } });
+
+    expect(text(disabled)).toContain('is disabled');
+    expect(text(label)).toContain('The element has no settable value.');
+    expect(desktop.events).toEqual([{ type: 'setValue', value: 'x', target: 'caption' }]);
+  });
+});
+
+describe('desktop_read_ui diff mode (MCP session)', () => {
+  let desktop: VirtualDesktop;
+  let client: Client;
+
+  beforeEach(async () => {
+    desktop = resetVirtualDesktop(scenario);
+    setActiveDriver('virtual');
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    // Baseline for the diffs below
+    await client.callTool({ name: 'desktop_read_ui', arguments: {} });
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setActiveDriver(undefined);
+  });
+
+  it('should report changed values and states since the previous read', async () => {
+    await client.callTool({ name: 'desktop_set_value', arguments: { selector: 'textfield[name="Username"]', value: 'alice' } });
+    await client.callTool({ name: 'desktop_click', arguments: { selector: 'checkbox' } });
+    await client.callTool({ name: 'desktop_click', arguments: { selector: 'button "Sign in"' } });
+
+    const diff = text(await client.callTool({ name: 'desktop_read_ui', arguments: { mode: 'diff' } }));
+    expect(diff).toMatch(/^UI Diff \(3 changed, 0 added, 0 removed since the previous read\):/);
+    expect(diff).toMatch(/^~ \[ref_\w+\] textfield "Username": value "" -> "alice"$/m);
+    expect(diff).toMatch(/^~ \[ref_\w+\] checkbox "Remember me": value "0" -> "1", states unchecked -> checked$/m);
+    expect(diff).toMatch(/^~ \[ref_\w+\] text "Status": value "Idle" -> "Signed in"$/m);
+
+    const again = text(await client.callTool({ name: 'desktop_read_ui', arguments: { mode: 'diff' } }));
+    expect(again).toBe('No changes since the previous read.');
+  });
+
+  it('should list added and removed subtrees once, with their descendant counts', async () => {
+    const login = desktop.findWindow('Login')!;
+    login.elements = login.elements.filter((el) => el.id !== 'status');
+    login.elements.push({
+      id: 'extras',
+      role: 'group',
+      name: 'Extras',
+      bounds: [10, 150, 200, 40],
+      children: [{ id: 'help', role: 'link', name: 'Help', bounds: [0, 0, 40, 20], children: [] }],
+    });
+
+    const diff = text(await client.callTool({ name: 'desktop_read_ui', arguments: { mode: 'diff' } }));
+    expect(diff).toMatch(/^UI Diff \(0 changed, 1 added, 1 removed since the previous read\):/);
+    expect(diff).toMatch(/^\+ \[ref_\w+\] group "Extras" id="extras" \(\+1 descendant\)$/m);
+    expect(diff).toMatch(/^- \[ref_\w+\] text "Status" value="Idle" id="status"$/m);
+    expect(diff).not.toContain('Help');
+  });
+
+  it('should report a window closed since a titled read as removed', async () => {
+    await client.callTool({ name: 'desktop_read_ui', arguments: { windowTitle: 'Notes' } });
+    desktop.closeWindow(desktop.findWindow('Notes')!);
+
+    const diff = text(await client.callTool({ name: 'desktop_read_ui', arguments: { windowTitle: 'Notes', mode: 'diff' } }));
+    expect(diff).toMatch(/^- \[ref_\w+\] window "Notes" \(\+1 descendant\)$/m);
+  });
+});
+
+describe('Scoped and paged desktop_read_ui (MCP session)', () => {
+  const rows = Array.from({ length: 80 }, (_, i) => ({
+    role: 'listitem',
+    name: `Item ${i + 1}`,
+    bounds: [10, 60 + i * 20, 300, 20] as [number, number, number, number],
+  }));
+  const listScenario: VirtualScenario = {
+    width: 800,
+    height: 600,
+    windows: [
+      {
+        title: 'Files',
+        bounds: [0, 0, 400, 500],
+        elements: [
+          { id: 'search', role: 'textfield', name: 'Search', bounds: [10, 30, 200, 24] },
+          { id: 'files', role: 'list', name: 'Files', bounds: [10, 60, 300, 400], children: rows },
+        ],
+      },
+    ],
+  };
+  let client: Client;
+
+  beforeEach(async () => {
+    resetVirtualDesktop(listScenario);
+    setActiveDriver('virtual');
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setActiveDriver(undefined);
+  });
+
+  it('should read every row unless asked to leave out offscreen rows or collapse long lists', async () => {
+    const all = text(await client.callTool({ name: 'desktop_read_ui', arguments: {} }));
+    expect(all).toContain('listitem "Item 80"');
+    expect(all).not.toContain('more children');
+
+    // Rows 23-80 lie below the window (it ends at y=500; the list starts at y=60)
+    const visible = text(await client.callTool({ name: 'desktop_read_ui', arguments: { skipOffscreen: true } }));
+    expect(visible).toContain('listitem "Item 22"');
+    expect(visible).not.toContain('listitem "Item 23"');
+    expect(visible).toMatch(/^ {4}\(58 more children\)$/m);
+
+    const collapsed = text(await client.callTool({ name: 'desktop_read_ui', arguments: { maxChildren: 10 } }));
+    expect(collapsed).toContain('listitem "Item 10"');
+    expect(collapsed).not.toContain('listitem "Item 11"');
+    expect(collapsed).toMatch(/^ {4}\(70 more children\)$/m);
+  });
+
+  it('should page through a tree with cursors, keeping ancestors for context', async () => {
+    const first = text(await client.callTool({ name: 'desktop_read_ui', arguments: { maxElements: 10 } }));
+    expect(first).toMatch(/^UI Tree \(10 elements, elements 1-10 in reading order\):/);
+    expect(first).toContain('listitem "Item 7"');
+    expect(first).not.toContain('listitem "Item 8"');
+    const cursor = first.match(/cursor "([^"]+)"/)![1];
+
+    const second = text(await client.callTool({ name: 'desktop_read_ui', arguments: { cursor } }));
+    expect(second).toMatch(/^UI Tree \(12 elements, elements 11-20 in reading order\):/);
+    expect(second).toMatch(/^\[ref_\w+\] window "Files"\n {2}\[ref_\w+\] list "Files" id="files"\n {4}\[ref_\w+\] listitem "Item 8" actions=click$/m);
+    expect(second).toContain('listitem "Item 17"');
+    expect(second).not.toContain('listitem "Item 18"');
+
+    // Refs of earlier pages stay usable
+    const firstItem = first.match(/\[(ref_\w+)\] listitem "Item 1"/)![1];
+    const click = await client.callTool({ name: 'desktop_click', arguments: { ref: firstItem } });
+    expect(click.isError).toBeFalsy();
+
+    const bad = await client.callTool({ name: 'desktop_read_ui', arguments: { cursor: 'nonsense' } });
+    expect(bad.isError).toBe(true);
+  });
+
+  it('should read the subtree of a ref with the same refs as a full read', async () => {
+    const full = text(await client.callTool({ name: 'desktop_read_ui', arguments: { depth: 1 } }));
+    const list = full.match(/\[(ref_\w+)\] list "Files"/)![1];
+    expect(full).not.toContain('Item 1');
+
+    const subtree = text(await client.callTool({ name: 'desktop_read_ui', arguments: { rootRef: list, depth: 1, maxChildren: 5 } }));
+    expect(subtree.split('\n')[1]).toBe(`[${list}] list "Files" id="files"`);
+    expect(subtree).toContain('listitem "Item 5"');
+    expect(subtree).toMatch(/^ {2}\(75 more children\)$/m);
+
+    const item = subtree.match(/\[(ref_\w+)\] listitem "Item 3"/)![1];
+    const whole = text(await client.callTool({ name: 'desktop_read_ui', arguments: {} }));
+    expect(whole).toContain(`[${item}] listitem "Item 3"`);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../src/modules/ocr-engine.js', () => ({
+  ocrEngine: {
+    recognize: vi.fn(async () => ({ text: 'Loading...', confidence: 90 })),
+  },
+}));
+
+import { ocrEngine } from '../src/modules/ocr-engine.js';
+import { Waiter } from '../src/modules/waiter.js';
+import { resetVirtualDesktop, setActiveDriver } from '../src/drivers/index.js';
+import type { VirtualDesktop } from '../src/drivers/index.js';
+
+const mockRecognize = vi.mocked(ocrEngine.recognize);
+
+describe('Waiter', () => {
+  let waiter: Waiter;
+  let desktop: VirtualDesktop;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    waiter = new Waiter();
+    desktop = resetVirtualDesktop({
+      windows: [{
+        title: 'Installer',
+        bounds: [0, 0, 400, 300],
+        elements: [
+          { id: 'progress', role: 'progress', name: 'Progress', value: '10', bounds: [10, 40, 300, 20] },
+          { id: 'spinner', role: 'image', name: 'Busy', bounds: [10, 80, 20, 20] },
+        ],
+      }],
+    });
+    setActiveDriver('virtual');
+  });
+
+  afterEach(() => {
+    setActiveDriver(undefined);
+  });
+
+  it('should return immediately when the condition already holds', async () => {
+    const result = await waiter.waitFor({ type: 'element_appears', query: 'Progress' });
+
+    expect(result.satisfied).toBe(true);
+    expect(result.attempts).toBe(1);
+    expect(result.detail).toContain('progress "Progress"');
+  });
+
+  it('should wait for an element to disappear', async () => {
+    setTimeout(() => desktop.findElement('spinner')!.name = 'Done', 60);
+
+    const result = await waiter.waitFor(
+      { type: 'element_disappears', selector: 'image "Busy"' },
+      { timeout: 2000, interval: 20 },
+    );
+
+    expect(result.satisfied).toBe(true);
+    expect(result.attempts).toBeGreaterThan(1);
+  });
+
+  it('should wait for an element value', async () => {
+    setTimeout(() => desktop.findElement('progress')!.value = '100', 60);
+
+    const result = await waiter.waitFor(
+      { type: 'value_equals', query: 'Progress', value: '100' },
+      { timeout: 2000, interval: 20 },
+    );
+
+    expect(result.satisfied).toBe(true);
+  });
+
+  it('should wait for a window title to appear', async () => {
+    setTimeout(() => desktop.openWindow({ title: 'Setup Complete', bounds: [50, 50, 200, 100] }), 60);
+
+    const result = await waiter.waitFor({ type: 'window_appears', title: 'complete' }, { timeout: 2000, interval: 20 });
+
+    expect(result.satisfied).toBe(true);
+    expect(result.detail).toContain('Setup Complete');
+  });
+
+  it('should wait for text recognized by OCR', async () => {
+    mockRecognize
+      .mockResolvedValueOnce({ text: 'Loading...', confidence: 90 })
+      .mockResolvedValueOnce({ text: 'Welcome\n  back,  Alice', confidence: 90 });
+
+    const result = await waiter.waitFor(
+      { type: 'text_visible', text: 'welcome back', region: [0, 0, 100, 50] },
+      { timeout: 2000, interval: 10 },
+    );
+
+    expect(result.satisfied).toBe(true);
+    expect(mockRecognize).toHaveBeenCalledWith({ region: [0, 0, 100, 50] });
+  });
+
+  it('should time out and report the last observation', async () => {
+    const result = await waiter.waitFor(
+      { type: 'value_equals', query: 'Progress', value: '100' },
+      { timeout: 80, interval: 20 },
+    );
+
+    expect(result.satisfied).toBe(false);
+    expect(result.elapsed).toBeGreaterThanOrEqual(80);
+    expect(result.detail).toBe('current value "10"');
+  });
+
+  it('should report progress between checks', async () => {
+    const onProgress = vi.fn();
+
+    await waiter.waitFor({ type: 'window_appears', title: 'Never' }, { timeout: 60, interval: 20, onProgress });
+
+    expect(onProgress).toHaveBeenCalled();
+    const [elapsed, timeout, message] = onProgress.mock.calls[0];
+    expect(elapsed).toBeLessThan(timeout);
+    expect(message).toBe('window "Never" appears: 1 window(s), none matching');
+  });
+
+  it('should keep polling when a check fails', async () => {
+    mockRecognize.mockRejectedValueOnce(new Error('capture failed'));
+
+    const result = await waiter.waitFor({ type: 'text_visible', text: 'loading' }, { timeout: 1000, interval: 10 });
+
+    expect(result.satisfied).toBe(true);
+    expect(result.attempts).toBe(2);
+  });
+
+  it('should reject malformed selectors up front', async () => {
+    await expect(waiter.waitFor({ type: 'element_appears', selector: 'button[' })).rejects.toThrow('Invalid selector');
+  });
+});
@@ -189,7 +189,28 @@ describe('WindowManager', () => {
     });
   });
 
-  describe('unsupported platform', () => {
+  describe('Linux (X11)', () => {
+    const wmctrlOutput = [
+      '0x01e00003  0 1234   10  20  800 600 host Terminal - bash',
+      '0x02400007  0 5678   0   0   1280 1024 host Mozilla Firefox',
+      '0x00c00002 -1 999    0   0   1280 30  host panel',
+    ].join('\n');
+
+    function mockLinuxTools(activeId = '0x2400007') {
+      mockExecFile.mockImplementation((cmd, _args, _opts, callback) => {
+        const cb = (typeof _opts === 'function' ? _opts : callback) as (
+          err: Error | null,
+          result?: { stdout: string; stderr: string }
+        ) => void;
+        let stdout = '';
+        if (cmd === 'wmctrl') stdout = (_args as string[])[0] === '-l' ? wmctrlOutput : '';
+        if (cmd === 'xprop') stdout = `_NET_ACTIVE_WINDOW(WINDOW): window id # ${activeId}\n`;
+        if (cmd === 'ps') stdout = ' 1234 bash\n 5678 firefox\n';
+        cb(null, { stdout, stderr: '' });
+        return undefined as never;
+      });
+    }
+
     beforeEach(() => {
       vi.stubGlobal('process', { ...process, platform: 'linux' });
     });
@@ -198,6 +219,52 @@ describe('WindowManager', () => {
       vi.unstubAllGlobals();
     });
 
+    it('should parse wmctrl geometry, xprop focus and ps names', async () => {
+      mockLinuxTools();
+
+      const windows = await wm.listWindows();
+
+      expect(windows).toEqual([
+        { id: 0x1e00003, title: 'Terminal - bash', processName: 'bash', x: 10, y: 20, width: 800, height: 600, isFocused: false },
+        { id: 0x2400007, title: 'Mozilla Firefox', processName: 'firefox', x: 0, y: 0, width: 1280, height: 1024, isFocused: true },
+      ]);
+    });
+
+    it('should focus a window by title via its EWMH id', async () => {
+      mockLinuxTools();
+
+      await wm.focusWindow('firefox');
+
+      expect(mockExecFile).toHaveBeenCalledWith(
+        'wmctrl',
+        ['-i', '-a', '0x2400007'],
+        expect.any(Object),
+        expect.any(Function)
+      );
+    });
+
+    it('should throw when window not found', async () => {
+      mockLinuxTools();
+
+      await expect(wm.focusWindow('NonExistent')).rejects.toThrow('not found');
+    });
+
+    it('should explain a missing wmctrl binary', async () => {
+      mockExecError('spawn wmctrl ENOENT');
+
+      await expect(wm.listWindows()).rejects.toThrow('wmctrl not found');
+    });
+  });
+
+  describe('unsupported platform', () => {
+    beforeEach(() => {
+      vi.stubGlobal('process', { ...process, platform: 'freebsd' });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
     it('should throw for listWindows on unsupported platform', async () => {
       await expect(wm.listWindows()).rejects.toThrow('not implemented');
     });
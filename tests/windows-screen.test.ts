@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import sharp from 'sharp';
+
+// A primary 1920x1080 monitor with a 1280x1024 monitor to its left: the virtual screen starts at x=-1280
+const shell = vi.hoisted(() => ({
+  png: Buffer.alloc(0),
+  displays: [
+    { name: '\\\\.\\DISPLAY1', primary: true, bounds: [0, 0, 1920, 1080], workArea: [0, 0, 1920, 1040] },
+    { name: '\\\\.\\DISPLAY2', primary: false, bounds: [-1280, 0, 1280, 1024], workArea: [-1280, 0, 1280, 1024] },
+  ],
+}));
+
+// Mock child_process: PowerShell answers with the monitor layout, the capture exe writes nothing
+vi.mock('node:child_process', () => ({
+  execFileSync: vi.fn(),
+  execFile: vi.fn((...args: unknown[]) => {
+    const [cmd, cmdArgs] = args as [string, string[]];
+    const cb = args.find((a, i) => typeof a === 'function' && i >= 2) as
+      (err: Error | null, result?: { stdout: string; stderr: string }) => void;
+    const script = cmdArgs.at(-1) ?? '';
+    const stdout = cmd !== 'powershell' ? ''
+      : script.includes('VirtualScreen') ? '[-1280,0]'
+      : JSON.stringify(shell.displays);
+    cb(null, { stdout, stderr: '' });
+  }),
+}));
+
+// Mock fs: the exe is already compiled and its screenshot file holds shell.png
+vi.mock('node:fs', () => ({
+  existsSync: vi.fn(() => true),
+  readFileSync: vi.fn(() => shell.png),
+  writeFileSync: vi.fn(),
+  mkdirSync: vi.fn(),
+  unlinkSync: vi.fn(),
+}));
+
+vi.mock('screenshot-desktop', () => ({
+  default: Object.assign(vi.fn(), { listDisplays: vi.fn(async () => []) }),
+}));
+
+import { execFile } from 'node:child_process';
+import { setActiveDriver } from '../src/drivers/index.js';
+import { ScreenCapture } from '../src/modules/screen-capture.js';
+
+const mockExecFile = vi.mocked(execFile);
+
+/** Arguments of the capture exe calls */
+function exeCalls(): string[][] {
+  return mockExecFile.mock.calls
+    .filter(([cmd]) => cmd !== 'powershell')
+    .map(([, args]) => (args as string[]).slice(1));
+}
+
+describe('Windows screen capture', () => {
+  beforeAll(async () => {
+    shell.png = await sharp({ create: { width: 320, height: 240, channels: 3, background: '#ffffff' } }).png().toBuffer();
+  });
+
+  beforeEach(() => {
+    mockExecFile.mockClear();
+    setActiveDriver('windows');
+  });
+
+  afterEach(() => {
+    setActiveDriver(undefined);
+  });
+
+  it('should capture one monitor by its device name at its global position', async () => {
+    const result = await new ScreenCapture().capture({ screen: 1 });
+
+    expect(exeCalls()).toEqual([['/d', '\\\\.\\DISPLAY2']]);
+    expect(result.transform).toMatchObject({ originX: -1280, originY: 0 });
+  });
+
+  it('should place the whole-desktop capture at the virtual screen origin', async () => {
+    const result = await new ScreenCapture().capture();
+
+    expect(exeCalls()).toEqual([[]]);
+    expect(result.transform).toMatchObject({ originX: -1280, originY: 0 });
+  });
+
+  it('should reject an unknown monitor', async () => {
+    await expect(new ScreenCapture().capture({ screen: 5 })).rejects.toThrow('Display 5 not found');
+  });
+});